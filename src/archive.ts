@@ -0,0 +1,113 @@
+import { createHash } from 'node:crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+// What a page was fetched for; decides which extractor reparses it
+export type ArchivePageKind = 'member-list' | 'profile';
+
+export interface ArchiveEntry {
+  url: string;
+  kind: ArchivePageKind;
+  fetchedAt: string; // ISO 8601
+  hash: string; // SHA-256 of the HTML
+}
+
+export interface ArchiveQuery {
+  kind?: ArchivePageKind;
+  url?: string;
+  asOf?: string; // Only pages fetched at or before this ISO timestamp
+}
+
+/**
+ * Content-addressed store of raw HTML under out/archive:
+ * objects/<hash prefix>/<hash>.html holds each distinct page once, and
+ * index.ndjson records every fetch (URL, kind, time and hash), so that pages can be
+ * parsed again later without network access.
+ */
+export class HtmlArchive {
+  readonly dir: string;
+
+  constructor(dir: string = join(process.cwd(), 'out', 'archive')) {
+    this.dir = dir;
+  }
+
+  private get indexPath(): string {
+    return join(this.dir, 'index.ndjson');
+  }
+
+  private objectPath(hash: string): string {
+    return join(this.dir, 'objects', hash.slice(0, 2), `${hash}.html`);
+  }
+
+  /**
+   * Stores a fetched page; identical HTML is written only once
+   * @returns The index entry for this fetch
+   */
+  save(
+    url: string,
+    html: string,
+    kind: ArchivePageKind,
+    fetchedAt: string = new Date().toISOString()
+  ): ArchiveEntry {
+    const hash = createHash('sha256').update(html, 'utf-8').digest('hex');
+    const objectPath = this.objectPath(hash);
+    if (!existsSync(objectPath)) {
+      mkdirSync(join(this.dir, 'objects', hash.slice(0, 2)), { recursive: true });
+      writeFileSync(objectPath, html, 'utf-8');
+    }
+
+    const entry: ArchiveEntry = { url, kind, fetchedAt, hash };
+    appendFileSync(this.indexPath, `${JSON.stringify(entry)}\n`, 'utf-8');
+    return entry;
+  }
+
+  /**
+   * Reads an archived page by its hash
+   */
+  load(hash: string): string {
+    const objectPath = this.objectPath(hash);
+    if (!existsSync(objectPath)) {
+      throw new Error(`Archived page ${hash} not found in ${this.dir}`);
+    }
+    return readFileSync(objectPath, 'utf-8');
+  }
+
+  /**
+   * Lists recorded fetches, oldest first
+   */
+  entries(query: ArchiveQuery = {}): ArchiveEntry[] {
+    if (!existsSync(this.indexPath)) {
+      return [];
+    }
+
+    const asOf = query.asOf ? Date.parse(query.asOf) : undefined;
+    const entries: ArchiveEntry[] = [];
+    for (const line of readFileSync(this.indexPath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as ArchiveEntry;
+        if (query.kind && entry.kind !== query.kind) continue;
+        if (query.url && entry.url !== query.url) continue;
+        if (asOf !== undefined && Date.parse(entry.fetchedAt) > asOf) continue;
+        entries.push(entry);
+      } catch (_error) {
+        // A run killed mid-write can leave a truncated last line
+        console.warn(`Skipping unreadable archive index line: ${line}`);
+      }
+    }
+
+    return entries.sort((a, b) => a.fetchedAt.localeCompare(b.fetchedAt));
+  }
+
+  /**
+   * The most recent fetch of each URL, in the order the URLs were first fetched
+   */
+  latest(query: ArchiveQuery = {}): ArchiveEntry[] {
+    const byUrl = new Map<string, ArchiveEntry>();
+    for (const entry of this.entries(query)) {
+      // Map keeps the position of the first insertion
+      byUrl.set(entry.url, entry);
+    }
+    return Array.from(byUrl.values());
+  }
+}
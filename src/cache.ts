@@ -1,5 +1,8 @@
 import { existsSync, readFileSync, statSync } from 'node:fs';
-import { join } from 'node:path';
+import { join, resolve } from 'node:path';
+import { SCHEMA_VERSION } from './constants';
+import { validateResult } from './schema';
+import { migrateResult } from './schema/migrations';
 import type { HouseOfRepresentativesResult } from './scrapers/house-of-representatives/types';
 
 export interface CacheOptions {
@@ -7,6 +10,13 @@ export interface CacheOptions {
   forceRefresh?: boolean; // Force refresh even if cache exists
 }
 
+// Minimal shape shared by every result file written to out/
+export interface CachedResult {
+  members: unknown[];
+  scrapedAt: string;
+  source: string;
+}
+
 /**
  * Check if cached data exists and is still valid
  */
@@ -24,10 +34,15 @@ export function isCacheValid(filePath: string, maxAgeHours: number = 24): boolea
 
 /**
  * Load cached data from out directory
+ * @param filename - File in out/, or an absolute path
+ * @returns The result upgraded to the current schemaVersion, or null when the file is
+ * missing, unreadable or does not match its schema
  */
-export function loadCachedData(filename: string): HouseOfRepresentativesResult | null {
+export function loadCachedData<T extends CachedResult = HouseOfRepresentativesResult>(
+  filename: string
+): T | null {
   const outputDir = join(process.cwd(), 'out');
-  const filePath = join(outputDir, filename);
+  const filePath = resolve(outputDir, filename);
 
   if (!existsSync(filePath)) {
     return null;
@@ -35,18 +50,19 @@ export function loadCachedData(filename: string): HouseOfRepresentativesResult |
 
   try {
     const content = readFileSync(filePath, 'utf-8');
-    const data = JSON.parse(content) as HouseOfRepresentativesResult;
-
-    // Validate that the data structure is correct
-    if (
-      data &&
-      typeof data === 'object' &&
-      Array.isArray(data.members) &&
-      typeof data.scrapedAt === 'string' &&
-      typeof data.source === 'string'
-    ) {
+    const { result: data, from } = migrateResult<T>(JSON.parse(content));
+    if (from !== SCHEMA_VERSION) {
+      console.log(`🔄 Upgraded ${filePath} from schema v${from} to v${SCHEMA_VERSION}`);
+    }
+
+    // Corrupted or old-format files would otherwise pass as typed results
+    const errors = validateResult(data);
+    if (errors.length === 0) {
       return data;
     }
+    console.warn(
+      `⚠️  ${filePath} does not match its schema:\n  ${errors.slice(0, 10).join('\n  ')}`
+    );
   } catch (error) {
     console.warn(`Failed to parse cached data from ${filePath}:`, error);
   }
@@ -57,10 +73,10 @@ export function loadCachedData(filename: string): HouseOfRepresentativesResult |
 /**
  * Check if we should use cached data
  */
-export function shouldUseCachedData(
+export function shouldUseCachedData<T extends CachedResult = HouseOfRepresentativesResult>(
   filename: string,
   options: CacheOptions = {}
-): { useCache: boolean; cachedData: HouseOfRepresentativesResult | null } {
+): { useCache: boolean; cachedData: T | null } {
   const { maxAgeHours = 24, forceRefresh = false } = options;
 
   if (forceRefresh) {
@@ -74,7 +90,7 @@ export function shouldUseCachedData(
     return { useCache: false, cachedData: null };
   }
 
-  const cachedData = loadCachedData(filename);
+  const cachedData = loadCachedData<T>(filename);
   if (!cachedData) {
     return { useCache: false, cachedData: null };
   }
@@ -1,3 +1,7 @@
+// Format version of the result files; bump it together with a migration in
+// src/schema/migrations.ts whenever a change to the result types needs one
+export const SCHEMA_VERSION = 3;
+
 // Japan prefectures list - all 47 prefectures in geographical order
 export const PREFECTURES = [
   '北海道',
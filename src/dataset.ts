@@ -0,0 +1,252 @@
+import { PREFECTURES } from './constants';
+import {
+  BLOCKS,
+  type BlockId,
+  DISTRICTS,
+  getBlock,
+  getDistrict,
+  getDistrictById,
+} from './districts';
+import { type ExportableResult, type ExportMember, memberRows } from './export';
+import type { PartyId } from './parties';
+import type { CommitteeRole } from './scrapers/house-of-representatives/types';
+import type { Chamber } from './types';
+import { normalizeMemberName } from './utils/member-name';
+
+// A member as served: the record with the id it is addressed by and its chamber
+export type DatasetMember = ExportMember & { id: string; chamber: Chamber };
+
+// Every given field must match; `name` matches part of the name or furigana
+export interface MemberFilter {
+  party?: string | undefined;
+  partyId?: string | undefined;
+  faction?: string | undefined;
+  system?: string | undefined;
+  prefecture?: string | undefined; // 「岡山」「岡山県」
+  area?: string | undefined; // 「近畿」「近畿ブロック」「kinki」
+  name?: string | undefined;
+}
+
+export interface PartyGroup {
+  key: string; // partyId, or the party name when it is not in the dictionary
+  party: string;
+  partyId?: PartyId;
+  members: DatasetMember[];
+}
+
+// A 小選挙区; id, name and blockId are absent for districts that are not in the registry
+export interface DistrictGroup {
+  id?: string; // 「okayama-1」
+  name?: string; // 「岡山1区」
+  prefecture: string;
+  number: string;
+  blockId?: BlockId;
+  members: DatasetMember[];
+  proportionalMembers: DatasetMember[]; // 重複立候補して比例で当選した議員 (比例復活)
+}
+
+// A 比例 block; id and seats are absent for blocks that are not in the registry
+export interface BlockGroup {
+  id?: BlockId;
+  area: string;
+  seats?: number;
+  members: DatasetMember[];
+}
+
+export interface CommitteeGroup {
+  id: string;
+  name: string;
+  members: { role: CommitteeRole; member: DatasetMember }[];
+}
+
+/**
+ * Canonical prefecture as stored on members (「岡山」), from 「岡山県」「岡山」 or 「東京都」
+ */
+export function normalizePrefecture(input: string): string {
+  const trimmed = input.trim();
+  const withSuffix = (prefecture: string) =>
+    trimmed.length === prefecture.length + 1 &&
+    trimmed.startsWith(prefecture) &&
+    /[都道府県]$/.test(trimmed);
+  return (
+    PREFECTURES.find((prefecture) => trimmed === prefecture || withSuffix(prefecture)) ?? trimmed
+  );
+}
+
+/**
+ * District number without full-width digits or leading zeros (「１」「01」 → 「1」)
+ */
+export function normalizeDistrictNumber(input: string): string {
+  const digits = input.replace(/[０-９]/g, (d) => String.fromCharCode(d.charCodeAt(0) - 0xfee0));
+  return /^\d+$/.test(digits) ? String(Number(digits)) : digits;
+}
+
+/**
+ * 比例 block as stored on members, without the 「ブロック」 suffix
+ */
+export function normalizeBlock(input: string): string {
+  return input.trim().replace(/ブロック$/, '');
+}
+
+/**
+ * The members of one result file with the lookups shared by the REST and GraphQL APIs
+ */
+export class MemberDataset {
+  readonly result: ExportableResult;
+  readonly members: DatasetMember[];
+
+  constructor(result: ExportableResult) {
+    this.result = result;
+    this.members = memberRows(result).map(({ memberId, chamber, member }) => ({
+      ...member,
+      id: memberId,
+      chamber,
+    }));
+  }
+
+  filter(filter: MemberFilter): DatasetMember[] {
+    const { prefecture, area, name } = filter;
+    const matchers: ((member: DatasetMember) => boolean)[] = [
+      ...optionalMatcher(filter.party, (value, m) => m.party === value),
+      ...optionalMatcher(filter.partyId, (value, m) => m.partyId === value),
+      ...optionalMatcher(filter.faction, (value, m) => m.faction === value),
+      ...optionalMatcher(filter.system, (value, m) => m.election.system === value),
+      ...optionalMatcher(
+        area && (getBlock(area)?.name ?? normalizeBlock(area)),
+        (value, m) => m.election.area === value
+      ),
+      ...optionalMatcher(
+        prefecture && normalizePrefecture(prefecture),
+        (value, m) => m.election.prefecture === value
+      ),
+      ...optionalMatcher(name && normalizeMemberName(name), (value, m) =>
+        [m.name, m.furigana ?? ''].some((text) => normalizeMemberName(text).includes(value))
+      ),
+    ];
+    return this.members.filter((member) => matchers.every((matches) => matches(member)));
+  }
+
+  find(id: string): DatasetMember | undefined {
+    return this.members.find((member) => member.id === id);
+  }
+
+  /**
+   * Parties with their members, largest first
+   */
+  parties(): PartyGroup[] {
+    const parties = new Map<string, PartyGroup>();
+    for (const member of this.members) {
+      const key = member.partyId ?? member.party;
+      const group = parties.get(key) ?? {
+        key,
+        party: member.party,
+        ...(member.partyId && { partyId: member.partyId }),
+        members: [],
+      };
+      group.members.push(member);
+      parties.set(key, group);
+    }
+    return [...parties.values()].sort((a, b) => b.members.length - a.members.length);
+  }
+
+  /**
+   * A party by partyId or by name
+   */
+  party(key: string): PartyGroup | undefined {
+    return this.parties().find((group) => group.key === key || group.party === key);
+  }
+
+  /**
+   * All 289 小選挙区 in the registry, including those without a member
+   */
+  districts(): DistrictGroup[] {
+    return DISTRICTS.map((district) => this.district(district.prefecture, String(district.number)));
+  }
+
+  /**
+   * The members elected in a 小選挙区 (none when the district is vacant or unknown), and the
+   * 比例 members who also ran in it
+   */
+  district(prefectureInput: string, numberInput: string): DistrictGroup {
+    const prefecture = normalizePrefecture(prefectureInput);
+    const number = normalizeDistrictNumber(numberInput);
+    const definition = getDistrict(prefecture, number);
+    const members = this.members.filter(
+      (member) =>
+        member.election.system === 'single-seat' &&
+        member.election.prefecture === prefecture &&
+        member.election.number !== undefined &&
+        normalizeDistrictNumber(member.election.number) === number
+    );
+    const proportionalMembers = definition
+      ? this.members.filter(
+          (member) =>
+            member.election.system === 'proportional-representation' &&
+            member.election.dualCandidacyDistrict === definition.id
+        )
+      : [];
+    return {
+      ...(definition && { id: definition.id, name: definition.name }),
+      prefecture,
+      number,
+      ...(definition && { blockId: definition.blockId }),
+      members,
+      proportionalMembers,
+    };
+  }
+
+  /**
+   * A 小選挙区 by its registry id (「okayama-1」)
+   */
+  districtById(id: string): DistrictGroup | undefined {
+    const definition = getDistrictById(id);
+    return definition && this.district(definition.prefecture, String(definition.number));
+  }
+
+  /**
+   * All 11 比例 blocks in the registry
+   */
+  blocks(): BlockGroup[] {
+    return BLOCKS.map((block) => this.block(block.id));
+  }
+
+  /**
+   * The members elected from a 比例 block, by id (「kinki」) or name (「近畿」「近畿ブロック」)
+   */
+  block(areaInput: string): BlockGroup {
+    const definition = getBlock(areaInput);
+    const area = definition?.name ?? normalizeBlock(areaInput);
+    const members = this.members.filter(
+      (member) =>
+        member.election.system === 'proportional-representation' && member.election.area === area
+    );
+    return {
+      ...(definition && { id: definition.id }),
+      area,
+      ...(definition && { seats: definition.seats }),
+      members,
+    };
+  }
+
+  /**
+   * Committees with their members, from the memberships attached with --committees
+   */
+  committees(): CommitteeGroup[] {
+    const committees = new Map<string, CommitteeGroup>();
+    for (const member of this.members) {
+      for (const { id, name, role } of member.committees ?? []) {
+        const group = committees.get(id) ?? { id, name, members: [] };
+        group.members.push({ role, member });
+        committees.set(id, group);
+      }
+    }
+    return [...committees.values()];
+  }
+}
+
+function optionalMatcher(
+  value: string | undefined,
+  matches: (value: string, member: DatasetMember) => boolean
+): ((member: DatasetMember) => boolean)[] {
+  return value ? [(member) => matches(value, member)] : [];
+}
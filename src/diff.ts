@@ -0,0 +1,182 @@
+import type { CommitteeMembership } from './scrapers/house-of-representatives/types';
+import type { DietMember } from './types';
+import { normalizeMemberName } from './utils/member-name';
+
+// The member fields a diff looks at; results of either chamber fit
+export interface DiffableMember extends DietMember {
+  committees?: CommitteeMembership[] | undefined;
+  profile?:
+    | {
+        currentPositions?: { government?: string[]; party?: string[]; diet?: string[] };
+      }
+    | undefined;
+}
+
+export interface DiffableResult {
+  members: DiffableMember[];
+  scrapedAt: string;
+  source: string;
+}
+
+export interface FieldChange {
+  field: string; // Dotted path, e.g. "election.prefecture" or "profile.currentPositions.diet"
+  before: unknown;
+  after: unknown;
+}
+
+export type MemberChange =
+  | { type: 'added'; key: string; name: string; member: DiffableMember }
+  | { type: 'removed'; key: string; name: string; member: DiffableMember }
+  | { type: 'modified'; key: string; name: string; changes: FieldChange[] };
+
+export interface ResultDiff {
+  from: string; // scrapedAt of the earlier result
+  to: string; // scrapedAt of the later result
+  source: string;
+  summary: { added: number; removed: number; modified: number; unchanged: number };
+  changes: MemberChange[];
+}
+
+type FieldReader = (member: DiffableMember) => unknown;
+
+// Compared fields. Profile URLs are left out: they change with every Diet session.
+const MEMBER_FIELDS: [string, FieldReader][] = [
+  ['name', (m) => m.name],
+  ['furigana', (m) => m.furigana],
+  ['party', (m) => m.party],
+  ['partyId', (m) => m.partyId],
+  ['faction', (m) => m.faction],
+  ['election.system', (m) => m.election.system],
+  ['election.prefecture', (m) => m.election.prefecture],
+  ['election.number', (m) => m.election.number],
+  ['election.area', (m) => m.election.area],
+  ['electionCount', (m) => m.electionCount],
+  ['termEnd', (m) => m.termEnd],
+  ['reelectionYear', (m) => m.reelectionYear],
+];
+
+// Only compared when both results carry the data, so that a run without committees or
+// profiles does not read as every member losing them
+const OPTIONAL_FIELDS: [string, (member: DiffableMember) => boolean, FieldReader][] = [
+  [
+    'committees',
+    (m) => m.committees !== undefined,
+    (m) => m.committees?.map((committee) => `${committee.name}:${committee.role}`),
+  ],
+  ...(['government', 'party', 'diet'] as const).map(
+    (category): [string, (member: DiffableMember) => boolean, FieldReader] => [
+      `profile.currentPositions.${category}`,
+      (m) => m.profile !== undefined,
+      (m) => m.profile?.currentPositions?.[category],
+    ]
+  ),
+];
+
+/**
+ * Key that pairs a member across two results: the stable id, or the normalized name for
+ * results written before members had ids
+ */
+export function memberKey(member: DiffableMember): string {
+  return member.id ?? `name:${normalizeMemberName(member.name)}`;
+}
+
+/**
+ * Field-level changes of one member; arrays are compared as unordered sets
+ */
+export function diffMember(before: DiffableMember, after: DiffableMember): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const compare = (field: string, read: FieldReader) => {
+    const previous = read(before);
+    const current = read(after);
+    if (comparable(previous) !== comparable(current)) {
+      changes.push({ field, before: previous, after: current });
+    }
+  };
+
+  for (const [field, read] of MEMBER_FIELDS) {
+    compare(field, read);
+  }
+  for (const [field, present, read] of OPTIONAL_FIELDS) {
+    if (present(before) && present(after)) {
+      compare(field, read);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Members added (by-elections, 繰上当選), removed (resignations, deaths) and modified
+ * (party switches, district changes, new positions) between two results
+ */
+export function diffResults(before: DiffableResult, after: DiffableResult): ResultDiff {
+  // Ids were added later, so older results are paired by name
+  const useIds = [...before.members, ...after.members].every((m) => m.id !== undefined);
+  const keyOf = (member: DiffableMember) =>
+    useIds ? memberKey(member) : `name:${normalizeMemberName(member.name)}`;
+  const previous = new Map(before.members.map((member) => [keyOf(member), member]));
+  const current = new Map(after.members.map((member) => [keyOf(member), member]));
+  const changes: MemberChange[] = [];
+  let unchanged = 0;
+
+  for (const [key, member] of current) {
+    const earlier = previous.get(key);
+    if (!earlier) {
+      changes.push({ type: 'added', key, name: member.name, member });
+      continue;
+    }
+    const fieldChanges = diffMember(earlier, member);
+    if (fieldChanges.length > 0) {
+      changes.push({ type: 'modified', key, name: member.name, changes: fieldChanges });
+    } else {
+      unchanged++;
+    }
+  }
+  for (const [key, member] of previous) {
+    if (!current.has(key)) {
+      changes.push({ type: 'removed', key, name: member.name, member });
+    }
+  }
+
+  const count = (type: MemberChange['type']) => changes.filter((c) => c.type === type).length;
+  return {
+    from: before.scrapedAt,
+    to: after.scrapedAt,
+    source: after.source,
+    summary: {
+      added: count('added'),
+      removed: count('removed'),
+      modified: count('modified'),
+      unchanged,
+    },
+    changes,
+  };
+}
+
+/**
+ * Human-readable lines for the console
+ */
+export function formatDiff(diff: ResultDiff): string[] {
+  const value = (v: unknown) => (v === undefined ? '—' : Array.isArray(v) ? v.join('、') : `${v}`);
+  const { added, removed, modified, unchanged } = diff.summary;
+  const lines = [
+    `${diff.from} → ${diff.to}: +${added} added, -${removed} removed, ~${modified} modified, ${unchanged} unchanged`,
+  ];
+
+  for (const change of diff.changes) {
+    if (change.type === 'added') {
+      lines.push(`+ ${change.name} (${change.member.party})`);
+    } else if (change.type === 'removed') {
+      lines.push(`- ${change.name} (${change.member.party})`);
+    } else {
+      lines.push(`~ ${change.name}`);
+      for (const field of change.changes) {
+        lines.push(`    ${field.field}: ${value(field.before)} → ${value(field.after)}`);
+      }
+    }
+  }
+  return lines;
+}
+
+function comparable(value: unknown): string {
+  return JSON.stringify(Array.isArray(value) ? [...value].sort() : value) ?? 'undefined';
+}
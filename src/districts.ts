@@ -0,0 +1,214 @@
+// Registry of the 衆議院 electoral districts: the 289 小選挙区 and the 11 比例 blocks,
+// as apportioned since the 2022 区割り改定 (10増10減, first used in the 2024 election).
+// Members' elections are checked against it, so that a district that does not exist is
+// reported rather than stored as free text.
+
+import { PREFECTURES } from './constants';
+
+export type Prefecture = (typeof PREFECTURES)[number];
+
+export type BlockId =
+  | 'hokkaido'
+  | 'tohoku'
+  | 'kita-kanto'
+  | 'minami-kanto'
+  | 'tokyo'
+  | 'hokuriku-shinetsu'
+  | 'tokai'
+  | 'kinki'
+  | 'chugoku'
+  | 'shikoku'
+  | 'kyushu';
+
+export interface BlockDefinition {
+  id: BlockId;
+  name: string; // ブロック名 (「近畿」、「ブロック」は付けない)
+  seats: number; // 定数
+  prefectures: readonly Prefecture[];
+}
+
+export interface DistrictDefinition {
+  id: string; // 「okayama-1」
+  name: string; // 「岡山1区」
+  prefecture: Prefecture;
+  number: number;
+  blockId: BlockId; // 都道府県が属する比例ブロック
+}
+
+// The election fields the registry checks
+export interface ElectionDistrict {
+  system: string;
+  prefecture?: string | undefined;
+  number?: string | undefined;
+  area?: string | undefined;
+}
+
+export type DistrictLookup = { districtId?: string; blockId: BlockId } | { error: string };
+
+export const BLOCKS: readonly BlockDefinition[] = [
+  { id: 'hokkaido', name: '北海道', seats: 8, prefectures: ['北海道'] },
+  {
+    id: 'tohoku',
+    name: '東北',
+    seats: 12,
+    prefectures: ['青森', '岩手', '宮城', '秋田', '山形', '福島'],
+  },
+  { id: 'kita-kanto', name: '北関東', seats: 19, prefectures: ['茨城', '栃木', '群馬', '埼玉'] },
+  { id: 'minami-kanto', name: '南関東', seats: 23, prefectures: ['千葉', '神奈川', '山梨'] },
+  { id: 'tokyo', name: '東京', seats: 19, prefectures: ['東京'] },
+  {
+    id: 'hokuriku-shinetsu',
+    name: '北陸信越',
+    seats: 10,
+    prefectures: ['新潟', '富山', '石川', '福井', '長野'],
+  },
+  { id: 'tokai', name: '東海', seats: 21, prefectures: ['岐阜', '静岡', '愛知', '三重'] },
+  {
+    id: 'kinki',
+    name: '近畿',
+    seats: 28,
+    prefectures: ['滋賀', '京都', '大阪', '兵庫', '奈良', '和歌山'],
+  },
+  { id: 'chugoku', name: '中国', seats: 10, prefectures: ['鳥取', '島根', '岡山', '広島', '山口'] },
+  { id: 'shikoku', name: '四国', seats: 6, prefectures: ['徳島', '香川', '愛媛', '高知'] },
+  {
+    id: 'kyushu',
+    name: '九州',
+    seats: 20,
+    prefectures: ['福岡', '佐賀', '長崎', '熊本', '大分', '宮崎', '鹿児島', '沖縄'],
+  },
+];
+
+// Romanized name (used in district IDs) and number of 小選挙区 per prefecture
+const PREFECTURE_DISTRICTS: Record<Prefecture, { romaji: string; districts: number }> = {
+  北海道: { romaji: 'hokkaido', districts: 12 },
+  青森: { romaji: 'aomori', districts: 3 },
+  岩手: { romaji: 'iwate', districts: 3 },
+  宮城: { romaji: 'miyagi', districts: 5 },
+  秋田: { romaji: 'akita', districts: 3 },
+  山形: { romaji: 'yamagata', districts: 3 },
+  福島: { romaji: 'fukushima', districts: 4 },
+  茨城: { romaji: 'ibaraki', districts: 7 },
+  栃木: { romaji: 'tochigi', districts: 5 },
+  群馬: { romaji: 'gunma', districts: 5 },
+  埼玉: { romaji: 'saitama', districts: 16 },
+  千葉: { romaji: 'chiba', districts: 14 },
+  東京: { romaji: 'tokyo', districts: 30 },
+  神奈川: { romaji: 'kanagawa', districts: 20 },
+  新潟: { romaji: 'niigata', districts: 5 },
+  富山: { romaji: 'toyama', districts: 3 },
+  石川: { romaji: 'ishikawa', districts: 3 },
+  福井: { romaji: 'fukui', districts: 2 },
+  山梨: { romaji: 'yamanashi', districts: 2 },
+  長野: { romaji: 'nagano', districts: 5 },
+  岐阜: { romaji: 'gifu', districts: 5 },
+  静岡: { romaji: 'shizuoka', districts: 8 },
+  愛知: { romaji: 'aichi', districts: 16 },
+  三重: { romaji: 'mie', districts: 4 },
+  滋賀: { romaji: 'shiga', districts: 3 },
+  京都: { romaji: 'kyoto', districts: 6 },
+  大阪: { romaji: 'osaka', districts: 19 },
+  兵庫: { romaji: 'hyogo', districts: 12 },
+  奈良: { romaji: 'nara', districts: 3 },
+  和歌山: { romaji: 'wakayama', districts: 2 },
+  鳥取: { romaji: 'tottori', districts: 2 },
+  島根: { romaji: 'shimane', districts: 2 },
+  岡山: { romaji: 'okayama', districts: 4 },
+  広島: { romaji: 'hiroshima', districts: 6 },
+  山口: { romaji: 'yamaguchi', districts: 3 },
+  徳島: { romaji: 'tokushima', districts: 2 },
+  香川: { romaji: 'kagawa', districts: 3 },
+  愛媛: { romaji: 'ehime', districts: 3 },
+  高知: { romaji: 'kochi', districts: 2 },
+  福岡: { romaji: 'fukuoka', districts: 11 },
+  佐賀: { romaji: 'saga', districts: 2 },
+  長崎: { romaji: 'nagasaki', districts: 3 },
+  熊本: { romaji: 'kumamoto', districts: 4 },
+  大分: { romaji: 'oita', districts: 3 },
+  宮崎: { romaji: 'miyazaki', districts: 3 },
+  鹿児島: { romaji: 'kagoshima', districts: 4 },
+  沖縄: { romaji: 'okinawa', districts: 4 },
+};
+
+const blockOfPrefecture = new Map(
+  BLOCKS.flatMap((block) => block.prefectures.map((prefecture) => [prefecture, block] as const))
+);
+
+export const DISTRICTS: readonly DistrictDefinition[] = PREFECTURES.flatMap((prefecture) => {
+  const { romaji, districts } = PREFECTURE_DISTRICTS[prefecture];
+  const blockId = blockOfPrefecture.get(prefecture)?.id;
+  if (!blockId) {
+    throw new Error(`${prefecture} is not in any 比例 block`);
+  }
+  return Array.from({ length: districts }, (_, i) => ({
+    id: `${romaji}-${i + 1}`,
+    name: `${prefecture}${i + 1}区`,
+    prefecture,
+    number: i + 1,
+    blockId,
+  }));
+});
+
+const districtIndex = new Map(DISTRICTS.map((district) => [district.id, district]));
+
+export function isPrefecture(name: string): name is Prefecture {
+  return (PREFECTURES as readonly string[]).includes(name);
+}
+
+export function getDistrictById(id: string): DistrictDefinition | undefined {
+  return districtIndex.get(id);
+}
+
+/**
+ * Looks up a 小選挙区 by prefecture (「岡山」) and number (「1」 or 1)
+ */
+export function getDistrict(
+  prefecture: string,
+  number: string | number
+): DistrictDefinition | undefined {
+  if (!isPrefecture(prefecture) || !/^\d+$/.test(String(number))) return undefined;
+  return districtIndex.get(`${PREFECTURE_DISTRICTS[prefecture].romaji}-${Number(number)}`);
+}
+
+/**
+ * Looks up a 比例 block by id or name, with or without 「比例」「ブロック」
+ */
+export function getBlock(idOrName: string): BlockDefinition | undefined {
+  const name = idOrName
+    .trim()
+    .replace(/^比例/, '')
+    .replace(/ブロック$/, '');
+  return BLOCKS.find((block) => block.id === name || block.name === name);
+}
+
+export function getPrefectureBlock(prefecture: string): BlockDefinition | undefined {
+  return isPrefecture(prefecture) ? blockOfPrefecture.get(prefecture) : undefined;
+}
+
+/**
+ * Checks a parsed 衆議院 election against the registry
+ * @returns The canonical district and block ids, or why the district is unknown
+ */
+export function lookupElectionDistrict(election: ElectionDistrict): DistrictLookup {
+  if (election.system === 'proportional-representation') {
+    const block = election.area ? getBlock(election.area) : undefined;
+    return block
+      ? { blockId: block.id }
+      : { error: `unknown 比例 block: ${election.area ?? '(none)'}` };
+  }
+
+  const { prefecture, number } = election;
+  if (!prefecture || !isPrefecture(prefecture)) {
+    return { error: `unknown prefecture: ${prefecture ?? '(none)'}` };
+  }
+  if (number === undefined) {
+    return { error: `no district number for ${prefecture}` };
+  }
+  const district = getDistrict(prefecture, number);
+  if (!district) {
+    return {
+      error: `${prefecture} has ${PREFECTURE_DISTRICTS[prefecture].districts} districts, not ${number}`,
+    };
+  }
+  return { districtId: district.id, blockId: district.blockId };
+}
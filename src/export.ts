@@ -0,0 +1,296 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { CommitteeMembership, MemberProfile } from './scrapers/house-of-representatives/types';
+import {
+  chamberOfSource,
+  memberId,
+  profilePositions,
+  type StoreMemberInput,
+  type StoreRunInput,
+} from './store';
+import type { Chamber } from './types';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'tables';
+export type HeaderLanguage = 'en' | 'ja';
+
+type CellValue = string | number | boolean | undefined;
+
+export interface ExportColumn<T> {
+  key: string; // English header, and the key for renaming the column
+  ja: string; // Japanese header
+  value(row: T): CellValue;
+}
+
+export interface ExportTable {
+  name: 'members' | 'elections' | 'positions' | 'education';
+  columns: ExportColumn<unknown>[];
+  rows: unknown[];
+}
+
+// A member of either chamber, with the 衆議院 committees when they were scraped
+export interface ExportMember extends StoreMemberInput {
+  committees?: CommitteeMembership[] | undefined;
+}
+
+export interface ExportableResult extends StoreRunInput {
+  members: ExportMember[];
+}
+
+export interface ExportOptions {
+  headers?: HeaderLanguage; // Default: en
+  columnNames?: Record<string, string>; // Column key → header, ahead of `headers`
+}
+
+// A member with the keys the tables are joined on
+interface MemberRow {
+  memberId: string;
+  chamber: Chamber;
+  member: ExportMember;
+}
+
+interface PositionRow {
+  memberId: string;
+  kind: string;
+  category: string;
+  title: string;
+}
+
+interface EducationRow {
+  memberId: string;
+  institution?: string | undefined;
+  event?: string | undefined; // 「卒業」「中退」など
+  date?: string | undefined;
+  raw: string;
+}
+
+// Separator for lists in a single cell
+const LIST_SEPARATOR = '; ';
+
+const CATEGORY_LABELS = { government: '政府', party: '党', diet: '国会' } as const;
+
+const hrProfile = (row: MemberRow): MemberProfile | undefined =>
+  row.member.profile && !('positions' in row.member.profile)
+    ? (row.member.profile as MemberProfile)
+    : undefined;
+
+const houseCount = (row: MemberRow) => {
+  const count = row.member.electionCount;
+  return typeof count === 'object' ? count.house : count;
+};
+
+export const MEMBER_COLUMNS: ExportColumn<MemberRow>[] = [
+  { key: 'member_id', ja: '議員ID', value: (r) => r.memberId },
+  { key: 'chamber', ja: '院', value: (r) => r.chamber },
+  { key: 'name', ja: '氏名', value: (r) => r.member.name },
+  { key: 'furigana', ja: 'ふりがな', value: (r) => r.member.furigana },
+  { key: 'party', ja: '政党', value: (r) => r.member.party },
+  { key: 'party_id', ja: '政党ID', value: (r) => r.member.partyId },
+  { key: 'faction', ja: '会派', value: (r) => r.member.faction },
+  { key: 'election_count', ja: '当選回数', value: houseCount },
+  {
+    key: 'election_count_senate',
+    ja: '参議院当選回数',
+    value: (r) =>
+      typeof r.member.electionCount === 'object' ? r.member.electionCount.senate : undefined,
+  },
+  { key: 'term_end', ja: '任期満了日', value: (r) => r.member.termEnd },
+  { key: 'reelection_year', ja: '改選年', value: (r) => r.member.reelectionYear },
+  { key: 'profile_url', ja: 'プロフィールURL', value: (r) => r.member.profileUrl },
+  { key: 'birth_date', ja: '生年月日', value: (r) => hrProfile(r)?.birth?.date },
+  { key: 'birth_place', ja: '出身地', value: (r) => hrProfile(r)?.birthPlace },
+  { key: 'website', ja: 'ウェブサイト', value: (r) => r.member.profile?.website },
+  { key: 'email', ja: 'メールアドレス', value: (r) => hrProfile(r)?.email },
+  { key: 'profile_as_of', ja: 'プロフィール時点', value: (r) => hrProfile(r)?.asOf?.date },
+];
+
+export const ELECTION_COLUMNS: ExportColumn<MemberRow>[] = [
+  { key: 'member_id', ja: '議員ID', value: (r) => r.memberId },
+  { key: 'system', ja: '選挙制度', value: (r) => r.member.election.system },
+  { key: 'prefecture', ja: '都道府県', value: (r) => r.member.election.prefecture },
+  { key: 'district_number', ja: '区番号', value: (r) => r.member.election.number },
+  { key: 'area', ja: '比例ブロック・選挙区', value: (r) => r.member.election.area },
+  { key: 'district_id', ja: '小選挙区ID', value: (r) => r.member.election.districtId },
+  { key: 'block_id', ja: '比例ブロックID', value: (r) => r.member.election.blockId },
+  {
+    key: 'dual_candidacy_district',
+    ja: '重複立候補小選挙区ID',
+    value: (r) => r.member.election.dualCandidacyDistrict,
+  },
+  { key: 'election_count', ja: '当選回数', value: houseCount },
+];
+
+export const POSITION_COLUMNS: ExportColumn<PositionRow>[] = [
+  { key: 'member_id', ja: '議員ID', value: (r) => r.memberId },
+  { key: 'kind', ja: '現職・前職', value: (r) => r.kind },
+  { key: 'category', ja: '区分', value: (r) => r.category },
+  { key: 'title', ja: '役職', value: (r) => r.title },
+];
+
+export const EDUCATION_COLUMNS: ExportColumn<EducationRow>[] = [
+  { key: 'member_id', ja: '議員ID', value: (r) => r.memberId },
+  { key: 'institution', ja: '学校', value: (r) => r.institution },
+  { key: 'event', ja: '事項', value: (r) => r.event },
+  { key: 'date', ja: '年月日', value: (r) => r.date },
+  { key: 'raw', ja: '原文', value: (r) => r.raw },
+];
+
+// The single flat table: members with their election, positions and education in one row
+const positionsOf = (row: MemberRow, kind: string, category: string) =>
+  row.member.profile
+    ? profilePositions(row.member.profile)
+        .filter((position) => position.kind === kind && position.category === category)
+        .map((position) => position.title)
+        .join(LIST_SEPARATOR) || undefined
+    : undefined;
+
+export const FLAT_COLUMNS: ExportColumn<MemberRow>[] = [
+  ...MEMBER_COLUMNS,
+  ...ELECTION_COLUMNS.filter((column) => !['member_id', 'election_count'].includes(column.key)),
+  ...(['government', 'party', 'diet'] as const).flatMap((category) => [
+    {
+      key: `current_${category}_positions`,
+      ja: `現在の${CATEGORY_LABELS[category]}役職`,
+      value: (r: MemberRow) => positionsOf(r, 'current', category),
+    },
+    {
+      key: `previous_${category}_positions`,
+      ja: `過去の${CATEGORY_LABELS[category]}役職`,
+      value: (r: MemberRow) => positionsOf(r, 'previous', category),
+    },
+  ]),
+  {
+    key: 'committees',
+    ja: '所属委員会',
+    value: (r) =>
+      r.member.committees?.map((committee) => committee.name).join(LIST_SEPARATOR) || undefined,
+  },
+  {
+    key: 'education',
+    ja: '学歴',
+    value: (r) =>
+      educationRows(r)
+        .map((row) => row.raw)
+        .join(LIST_SEPARATOR) || undefined,
+  },
+];
+
+/**
+ * Members with the id every table refers to: the stable id, or the store's fallback key
+ */
+export function memberRows(result: ExportableResult): MemberRow[] {
+  const chamber = chamberOfSource(result.source);
+  return result.members.map((member) => ({
+    memberId: member.id ?? memberId(chamber, member.name),
+    chamber,
+    member,
+  }));
+}
+
+/**
+ * Normalized tables: members, elections, positions and education, joined on member_id
+ */
+export function buildTables(result: ExportableResult): ExportTable[] {
+  const rows = memberRows(result);
+  const positions = rows.flatMap((row): PositionRow[] =>
+    row.member.profile
+      ? profilePositions(row.member.profile).map((position) => ({
+          memberId: row.memberId,
+          ...position,
+        }))
+      : []
+  );
+
+  return [
+    { name: 'members', columns: MEMBER_COLUMNS, rows },
+    { name: 'elections', columns: ELECTION_COLUMNS, rows },
+    { name: 'positions', columns: POSITION_COLUMNS, rows: positions },
+    { name: 'education', columns: EDUCATION_COLUMNS, rows: rows.flatMap(educationRows) },
+  ];
+}
+
+/**
+ * CSV for spreadsheets: UTF-8 with a BOM so that Excel detects the encoding, CRLF line
+ * ends, and fields quoted where needed (RFC 4180)
+ */
+export function toCsv<T>(
+  columns: ExportColumn<T>[],
+  rows: readonly T[],
+  options: ExportOptions = {}
+): string {
+  const lines = [
+    columns.map((column) => headerOf(column, options)),
+    ...rows.map((row) => columns.map((column) => cellText(column.value(row)))),
+  ].map((cells) => cells.map(quoteCsv).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * One complete member record per line, for streaming
+ */
+export function toNdjson(result: ExportableResult): string {
+  return memberRows(result)
+    .map(
+      ({ memberId, chamber, member }) => `${JSON.stringify({ ...member, id: memberId, chamber })}\n`
+    )
+    .join('');
+}
+
+/**
+ * Writes a result in the given format
+ * @param name - Base name of the written files, e.g. "diet-members"
+ * @returns Paths of the written files
+ */
+export function exportResult(
+  result: ExportableResult,
+  format: ExportFormat,
+  dir: string,
+  name: string,
+  options: ExportOptions = {}
+): string[] {
+  mkdirSync(dir, { recursive: true });
+  const write = (file: string, content: string) => {
+    const path = join(dir, file);
+    writeFileSync(path, content, 'utf-8');
+    return path;
+  };
+
+  switch (format) {
+    case 'csv':
+      return [write(`${name}.csv`, toCsv(FLAT_COLUMNS, memberRows(result), options))];
+    case 'ndjson':
+      return [write(`${name}.ndjson`, toNdjson(result))];
+    case 'tables':
+      mkdirSync(join(dir, name), { recursive: true });
+      return buildTables(result).map((table) =>
+        write(join(name, `${table.name}.csv`), toCsv(table.columns, table.rows, options))
+      );
+  }
+}
+
+function educationRows(row: MemberRow): EducationRow[] {
+  const profile = hrProfile(row);
+  const timeline = profile?.careerTimeline?.filter((entry) => entry.category === 'education');
+  if (timeline && timeline.length > 0) {
+    return timeline.map((entry) => ({
+      memberId: row.memberId,
+      institution: entry.organization || undefined,
+      event: entry.role || undefined,
+      date: (entry.end ?? entry.start)?.date,
+      raw: entry.raw,
+    }));
+  }
+  // Profiles scraped before the timeline only have the matched school names
+  return (profile?.academicBackground ?? []).map((raw) => ({ memberId: row.memberId, raw }));
+}
+
+function headerOf<T>(column: ExportColumn<T>, options: ExportOptions): string {
+  return options.columnNames?.[column.key] ?? (options.headers === 'ja' ? column.ja : column.key);
+}
+
+function cellText(value: CellValue): string {
+  return value === undefined ? '' : String(value);
+}
+
+function quoteCsv(text: string): string {
+  return /[",\r\n]/.test(text) || /^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,397 @@
+import {
+  buildSchema,
+  type ExecutionResult,
+  GraphQLError,
+  type GraphQLFieldResolver,
+  type GraphQLSchema,
+  graphqlSync,
+  isObjectType,
+} from 'graphql';
+import type {
+  DatasetMember,
+  DistrictGroup,
+  MemberDataset,
+  MemberFilter,
+  PartyGroup,
+} from './dataset';
+import type {
+  CommitteeMembership,
+  Election,
+  MemberProfile,
+} from './scrapers/house-of-representatives/types';
+
+/**
+ * GraphQL schema over a result file. Member, Election and MemberProfile mirror
+ * HouseOfRepresentativesMember, Election and MemberProfile field for field (a test compares
+ * them with the published JSON Schemas); the extra fields link members to their party,
+ * district, block and committees for nested queries.
+ */
+export const TYPE_DEFS = /* GraphQL */ `
+  type Query {
+    "Members matching every given filter, in list order"
+    members(filter: MemberFilter, limit: Int, offset: Int): [Member!]!
+    member(id: ID!): Member
+    "Parties, largest first"
+    parties: [Party!]!
+    "A party by partyId or by name"
+    party(id: String!): Party
+    "All 289 小選挙区, including vacant ones"
+    districts: [District!]!
+    "A 小選挙区 by id (\\"okayama-1\\") or by prefecture and number (\\"岡山県\\", \\"1\\")"
+    district(id: ID, prefecture: String, number: String): District
+    "All 11 比例 blocks"
+    blocks: [Block!]!
+    "A 比例 block by id (\\"kinki\\") or name (\\"近畿\\")"
+    block(area: String!): Block
+    "Committees attached with --committees"
+    committees: [Committee!]!
+    committee(id: ID!): Committee
+  }
+
+  input MemberFilter {
+    party: String
+    partyId: String
+    faction: String
+    system: String
+    prefecture: String
+    area: String
+    "Part of the name or furigana"
+    name: String
+  }
+
+  type Member {
+    "Stable member ID, or the store's key for members without one"
+    id: ID!
+    chamber: String!
+    name: String!
+    furigana: String
+    party: String!
+    partyId: String
+    faction: String
+    profileUrl: String
+    electionCount: ElectionCount
+    election: Election!
+    committees: [CommitteeMembership!]
+    "衆議院 profile (null for 参議院 members)"
+    profile: MemberProfile
+    "The member's party with its other members"
+    affiliation: Party!
+  }
+
+  type ElectionCount {
+    house: Int!
+    senate: Int
+  }
+
+  type Election {
+    "single-seat or proportional-representation"
+    system: String!
+    prefecture: String
+    number: String
+    area: String
+    "Registry id of the 小選挙区, e.g. okayama-1"
+    districtId: String
+    "Registry id of the 比例 block (for single-seat members, the block of the prefecture)"
+    blockId: String
+    "Registry id of the 小選挙区 a proportional member also ran in (重複立候補), when known"
+    dualCandidacyDistrict: String
+    "The 小選挙区 of a single-seat member"
+    district: District
+    "The 比例 block of a proportional member"
+    block: Block
+    "The 小選挙区 a proportional member also ran in"
+    dualCandidacy: District
+  }
+
+  type CommitteeMembership {
+    id: ID!
+    name: String!
+    "chair, director or member"
+    role: String!
+    committee: Committee!
+  }
+
+  type PartialDate {
+    "YYYY, YYYY-MM or YYYY-MM-DD depending on precision"
+    date: String!
+    precision: String!
+    raw: String!
+  }
+
+  type CareerEntry {
+    start: PartialDate
+    end: PartialDate
+    role: String!
+    organization: String!
+    category: String!
+    current: Boolean
+    raw: String!
+  }
+
+  type Positions {
+    government: [String!]
+    party: [String!]
+    diet: [String!]
+  }
+
+  type Office {
+    address: String
+    phone: String
+    fax: String
+  }
+
+  type KeyValue {
+    key: String!
+    value: String!
+  }
+
+  type MemberProfile {
+    fullName: String
+    furigana: String
+    birthDate: String
+    birthPlace: String
+    birth: PartialDate
+    electionDistrict: String
+    partyAffiliation: String
+    partyId: String
+    electionHistory: String
+    electionCount: Int
+    termNumbers: [String!]
+    education: String
+    university: String
+    academicBackground: [String!]
+    occupation: String
+    previousOccupation: [String!]
+    careerHistory: String
+    careerTimeline: [CareerEntry!]
+    currentPositions: Positions
+    previousPositions: Positions
+    committees: [String!]
+    specialRoles: [String!]
+    website: String
+    email: String
+    office: Office
+    biography: String
+    personalInfo: String
+    achievements: [String!]
+    additionalInfo: [KeyValue!]
+    asOf: PartialDate
+  }
+
+  type Party {
+    "partyId, or the party name when it is not in the dictionary"
+    id: ID!
+    name: String!
+    partyId: String
+    memberCount: Int!
+    members(filter: MemberFilter, limit: Int, offset: Int): [Member!]!
+  }
+
+  "A 小選挙区; id, name and block are null for districts that are not in the registry"
+  type District {
+    id: ID
+    "e.g. 岡山1区"
+    name: String
+    prefecture: String!
+    number: String!
+    "The 比例 block of the prefecture"
+    block: Block
+    "The member elected in the district"
+    members: [Member!]!
+    "Proportional members who also ran in the district (比例復活)"
+    proportionalMembers: [Member!]!
+  }
+
+  "A 比例 block; id and seats are null for blocks that are not in the registry"
+  type Block {
+    id: ID
+    area: String!
+    seats: Int
+    members: [Member!]!
+  }
+
+  type Committee {
+    id: ID!
+    name: String!
+    members: [CommitteeMember!]!
+  }
+
+  type CommitteeMember {
+    role: String!
+    member: Member!
+  }
+`;
+
+export interface QueryOptions {
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+interface ListArgs {
+  filter?: MemberFilter | null;
+  limit?: number | null;
+  offset?: number | null;
+}
+
+type Resolver<TSource, TArgs = Record<string, never>> = GraphQLFieldResolver<
+  TSource,
+  MemberDataset,
+  TArgs
+>;
+
+// Lets the resolvers of every type share one map
+const resolver = <TSource, TArgs = Record<string, never>>(resolve: Resolver<TSource, TArgs>) =>
+  resolve as GraphQLFieldResolver<unknown, MemberDataset>;
+
+// Field resolvers by type; fields without one read the property of the same name
+const RESOLVERS: Record<string, Record<string, GraphQLFieldResolver<unknown, MemberDataset>>> = {
+  Query: {
+    members: resolver<unknown, ListArgs>((_, args, dataset) =>
+      page(dataset.filter(args.filter ?? {}), args)
+    ),
+    member: resolver<unknown, { id: string }>((_, { id }, dataset) => dataset.find(id) ?? null),
+    parties: resolver((_, __, dataset) => dataset.parties()),
+    party: resolver<unknown, { id: string }>((_, { id }, dataset) => dataset.party(id) ?? null),
+    districts: resolver((_, __, dataset) => dataset.districts()),
+    district: resolver<unknown, { id?: string; prefecture?: string; number?: string }>(
+      (_, { id, prefecture, number }, dataset) => {
+        if (id) return dataset.districtById(id) ?? null;
+        if (!prefecture || !number) {
+          throw new GraphQLError('district needs an id, or a prefecture and a number');
+        }
+        return known(dataset.district(prefecture, number));
+      }
+    ),
+    blocks: resolver((_, __, dataset) => dataset.blocks()),
+    block: resolver<unknown, { area: string }>((_, { area }, dataset) =>
+      known(dataset.block(area))
+    ),
+    committees: resolver((_, __, dataset) => dataset.committees()),
+    committee: resolver<unknown, { id: string }>(
+      (_, { id }, dataset) => dataset.committees().find((committee) => committee.id === id) ?? null
+    ),
+  },
+  Member: {
+    electionCount: resolver<DatasetMember>((member) =>
+      typeof member.electionCount === 'number'
+        ? { house: member.electionCount }
+        : (member.electionCount ?? null)
+    ),
+    // 参議院 profiles have a different shape (positions instead of currentPositions)
+    profile: resolver<DatasetMember>((member) =>
+      member.profile && !('positions' in member.profile) ? member.profile : null
+    ),
+    affiliation: resolver<DatasetMember>((member, _, dataset) =>
+      dataset.party(member.partyId ?? member.party)
+    ),
+  },
+  Election: {
+    district: resolver<Election>((election, _, dataset) =>
+      election.system === 'single-seat' && election.prefecture && election.number
+        ? known(dataset.district(election.prefecture, election.number))
+        : null
+    ),
+    block: resolver<Election>((election, _, dataset) =>
+      election.system === 'proportional-representation' && election.area
+        ? known(dataset.block(election.area))
+        : null
+    ),
+    dualCandidacy: resolver<Election>((election, _, dataset) =>
+      election.dualCandidacyDistrict
+        ? (dataset.districtById(election.dualCandidacyDistrict) ?? null)
+        : null
+    ),
+  },
+  CommitteeMembership: {
+    committee: resolver<CommitteeMembership>((membership, _, dataset) =>
+      dataset.committees().find((committee) => committee.id === membership.id)
+    ),
+  },
+  MemberProfile: {
+    additionalInfo: resolver<MemberProfile>((profile) =>
+      profile.additionalInfo
+        ? Object.entries(profile.additionalInfo).map(([key, value]) => ({ key, value }))
+        : null
+    ),
+  },
+  District: {
+    block: resolver<DistrictGroup>((district, _, dataset) =>
+      district.blockId ? dataset.block(district.blockId) : null
+    ),
+  },
+  Party: {
+    id: resolver<PartyGroup>((party) => party.key),
+    name: resolver<PartyGroup>((party) => party.party),
+    memberCount: resolver<PartyGroup>((party) => party.members.length),
+    members: resolver<PartyGroup, ListArgs>((party, args, dataset) => {
+      const ids = new Set(party.members.map((member) => member.id));
+      return page(
+        dataset.filter(args.filter ?? {}).filter((member) => ids.has(member.id)),
+        args
+      );
+    }),
+  },
+};
+
+let cachedSchema: GraphQLSchema | undefined;
+
+/**
+ * The executable schema: TYPE_DEFS with RESOLVERS attached
+ * @throws {Error} When a resolver names a type or field that is not in TYPE_DEFS
+ */
+export function buildMemberSchema(): GraphQLSchema {
+  if (cachedSchema) return cachedSchema;
+
+  const schema = buildSchema(TYPE_DEFS);
+  for (const [typeName, resolvers] of Object.entries(RESOLVERS)) {
+    const type = schema.getType(typeName);
+    if (!isObjectType(type)) {
+      throw new Error(`No object type ${typeName} in the GraphQL schema`);
+    }
+    const fields = type.getFields();
+    for (const [fieldName, resolve] of Object.entries(resolvers)) {
+      const field = fields[fieldName];
+      if (!field) {
+        throw new Error(`No field ${typeName}.${fieldName} in the GraphQL schema`);
+      }
+      field.resolve = resolve as GraphQLFieldResolver<unknown, unknown>;
+    }
+  }
+  cachedSchema = schema;
+  return schema;
+}
+
+/**
+ * Runs a GraphQL query against a dataset in-process, without HTTP
+ * @param source - The query document, e.g. "{ party(id: \"ldp\") { members { name } } }"
+ * @returns The data and any errors, as a GraphQL server would send them
+ */
+export function executeQuery(
+  dataset: MemberDataset,
+  source: string,
+  options: QueryOptions = {}
+): ExecutionResult {
+  return graphqlSync({
+    schema: buildMemberSchema(),
+    source,
+    contextValue: dataset,
+    variableValues: options.variables ?? null,
+    operationName: options.operationName ?? null,
+  });
+}
+
+function page(members: DatasetMember[], { limit, offset }: ListArgs): DatasetMember[] {
+  if (limit != null && limit < 0) {
+    throw new GraphQLError('limit must not be negative');
+  }
+  if (offset != null && offset < 0) {
+    throw new GraphQLError('offset must not be negative');
+  }
+  const start = offset ?? 0;
+  return members.slice(start, limit == null ? undefined : start + limit);
+}
+
+// Districts and blocks that are neither in the registry nor on any member resolve to null
+function known<T extends { id?: string; members: unknown[] }>(group: T): T | null {
+  return group.id || group.members.length > 0 ? group : null;
+}
@@ -1,8 +1,505 @@
-import { mkdirSync, writeFileSync } from 'node:fs';
-import { join } from 'node:path';
-import { getCacheInfo, shouldUseCachedData } from './cache';
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, join, resolve } from 'node:path';
+import { HtmlArchive } from './archive';
+import { getCacheInfo, loadCachedData, shouldUseCachedData } from './cache';
+import { SCHEMA_VERSION } from './constants';
+import { type DiffableResult, diffResults, formatDiff } from './diff';
+import { lookupElectionDistrict } from './districts';
+import {
+  type ExportableResult,
+  type ExportFormat,
+  type ExportOptions,
+  exportResult,
+} from './export';
+import { ProfileJournal } from './journal';
+import { MemberIdRegistry } from './member-id';
+import { assertValidResult, SchemaValidationError, validateResult } from './schema';
+import { migrateResult } from './schema/migrations';
 import { DietMemberScraper } from './scraper';
+import type { HouseOfCouncillorsResult } from './scrapers/house-of-councillors/types';
 import type { HouseOfRepresentativesResult } from './scrapers/house-of-representatives/types';
+import type { PageTransport } from './scrapers/types';
+import { MemberApi, startApiServer } from './server';
+import { SnapshotStore } from './snapshots';
+import { MemberStore, type StoreRunInput } from './store';
+import type { ScrapeResult } from './types';
+import { notifyChanges, startWebhookReceiver } from './webhook';
+
+// Profile pages load slowly, so several are fetched at once; the request rate is what
+// keeps the load on the sites low
+const PROFILE_CONCURRENCY = 4;
+const DEFAULT_REQUESTS_PER_SECOND = 2;
+
+interface RunOptions {
+  scriptName: string;
+  includeProfiles: boolean;
+  getAllProfiles: boolean;
+  maxProfiles: number;
+  forceRefresh: boolean;
+  includeCommittees: boolean;
+  resume: boolean;
+  requestsPerSecond: number;
+  transport: PageTransport;
+  store: MemberStore | null;
+  webhook: { url: string; secret: string | undefined } | null;
+}
+
+/**
+ * Checks a freshly scraped result against its schema, writes it to out/, keeps a
+ * timestamped snapshot of it for `diff`, records it in the SQLite store when one was
+ * requested, and notifies the webhook of changes since the previous snapshot
+ */
+async function saveResult(
+  filename: string,
+  result: StoreRunInput,
+  { store, webhook }: Pick<RunOptions, 'store' | 'webhook'>
+): Promise<void> {
+  // Nothing is overwritten with data consumers could not read; profile runs keep their
+  // journal, so --resume recovers them after a fix
+  assertValidResult(result, filename);
+
+  const outputPath = join(process.cwd(), 'out', filename);
+  writeFileSync(outputPath, JSON.stringify(result, null, 2), 'utf-8');
+  console.log(`Results saved to ${outputPath}`);
+
+  const snapshots = new SnapshotStore();
+  const previous = snapshots.latest(filename, result.scrapedAt);
+  const snapshot = snapshots.save(filename, result);
+  console.log(`📸 Snapshot kept at ${snapshot.path}`);
+
+  if (store) {
+    const runId = store.recordRun(result);
+    console.log(`🗄️  Stored run #${runId} (${result.members.length} members) in ${store.path}`);
+  }
+
+  if (webhook && previous) {
+    try {
+      const notification = await notifyChanges(
+        webhook.url,
+        snapshots.load<DiffableResult>(previous),
+        result as DiffableResult,
+        { secret: webhook.secret }
+      );
+      if (notification) {
+        const { added, removed, partyChanges, positionChanges } = notification.summary;
+        console.log(
+          `🔔 Webhook notified: +${added} -${removed}, ${partyChanges} party and ${positionChanges} position changes`
+        );
+      } else {
+        console.log('🔕 No membership, party or position changes to notify');
+      }
+    } catch (error) {
+      // The result is saved either way, and `diff` still shows what changed
+      console.error(`⚠️  Webhook notification failed: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Starts the browser unless every page of the run can be fetched over plain HTTP
+ */
+async function initializeBrowser(
+  scraper: DietMemberScraper,
+  { transport, includeCommittees }: Pick<RunOptions, 'transport' | 'includeCommittees'>
+): Promise<void> {
+  // The committee rosters are still read in the browser
+  if (transport === 'http' && !includeCommittees) {
+    console.log('Fetching pages over HTTP (no browser)...');
+    return;
+  }
+
+  console.log('Initializing browser...');
+  await scraper.initialize();
+}
+
+async function runHouseOfRepresentatives(
+  scraper: DietMemberScraper,
+  options: RunOptions
+): Promise<void> {
+  const {
+    scriptName,
+    includeProfiles,
+    getAllProfiles,
+    maxProfiles,
+    forceRefresh,
+    includeCommittees,
+    resume,
+    requestsPerSecond,
+  } = options;
+
+  if (includeProfiles) {
+    const filename = getAllProfiles
+      ? 'diet-members-with-all-profiles.json'
+      : 'diet-members-with-profiles.json';
+    // A resumed run has to finish scraping, so it never reads the cache
+    const cacheCheck = shouldUseCachedData(filename, { forceRefresh: forceRefresh || resume });
+
+    let result: HouseOfRepresentativesResult;
+    if (cacheCheck.useCache && cacheCheck.cachedData) {
+      console.log('Using cached data from previous scraping...');
+      const cacheAge = getCacheInfo(filename);
+      if (cacheAge) {
+        console.log(`Cache created: ${cacheAge}`);
+      }
+      result = cacheCheck.cachedData;
+
+      console.log(`Loaded ${result.members.length} members from cache`);
+      const membersWithProfiles = result.members.filter((m) => 'profile' in m && m.profile);
+      console.log(`${membersWithProfiles.length} members have profile data`);
+    } else {
+      if (forceRefresh) {
+        console.log('Force refresh requested - ignoring cache');
+      }
+
+      const journalPath = ProfileJournal.pathFor(filename);
+
+      await initializeBrowser(scraper, options);
+
+      console.log(`🚀 Running script: ${scriptName}`);
+      if (getAllProfiles) {
+        console.log(
+          '📋 Starting to scrape House of Representatives with profiles for ALL members...'
+        );
+      } else {
+        console.log(
+          `📋 Starting to scrape House of Representatives with profiles (max: ${maxProfiles})...`
+        );
+      }
+      result = await scraper.scrapeHouseOfRepresentativesWithProfiles({
+        includeProfiles: true,
+        maxProfiles,
+        maxConcurrentProfiles: PROFILE_CONCURRENCY,
+        requestsPerSecond,
+        includeCommittees,
+        journalPath,
+        resume,
+      });
+
+      console.log(`Scraped ${result.members.length} members`);
+      const membersWithProfiles = result.members.filter((m) => 'profile' in m && m.profile);
+      console.log(`${membersWithProfiles.length} members have profile data`);
+
+      await saveResult(filename, result, options);
+      // Everything in the journal is now in the output file
+      new ProfileJournal(journalPath).clear();
+    }
+
+    // Show sample profile data
+    const membersWithProfiles = result.members.filter((m) => 'profile' in m && m.profile);
+    const memberWithProfile = membersWithProfiles[0];
+    if (memberWithProfile?.profile) {
+      console.log('\nSample profile data:');
+      console.log(
+        JSON.stringify(
+          {
+            name: memberWithProfile.name,
+            party: memberWithProfile.party,
+            profile: memberWithProfile.profile,
+          },
+          null,
+          2
+        )
+      );
+    }
+  } else {
+    const filename = 'diet-members.json';
+    const cacheCheck = shouldUseCachedData(filename, { forceRefresh });
+
+    let result: HouseOfRepresentativesResult | ScrapeResult;
+    if (cacheCheck.useCache && cacheCheck.cachedData) {
+      console.log('Using cached data from previous scraping...');
+      const cacheAge = getCacheInfo(filename);
+      if (cacheAge) {
+        console.log(`Cache created: ${cacheAge}`);
+      }
+
+      // Convert to basic format for backward compatibility
+      const basicResult = {
+        schemaVersion: cacheCheck.cachedData.schemaVersion,
+        members: cacheCheck.cachedData.members.map((member) => ({
+          ...(member.id && { id: member.id }),
+          name: member.name,
+          party: member.party,
+          election: member.election,
+          ...(member.partyId && { partyId: member.partyId }),
+          ...(member.faction && { faction: member.faction }),
+          ...(member.furigana && { furigana: member.furigana }),
+          ...(member.profileUrl && { profileUrl: member.profileUrl }),
+          ...(member.electionCount && { electionCount: member.electionCount }),
+          ...(member.committees && { committees: member.committees }),
+        })),
+        scrapedAt: cacheCheck.cachedData.scrapedAt,
+        source: cacheCheck.cachedData.source,
+      };
+
+      result = basicResult;
+      console.log(`Loaded ${result.members.length} members from cache`);
+    } else {
+      if (forceRefresh) {
+        console.log('Force refresh requested - ignoring cache');
+      }
+
+      await initializeBrowser(scraper, options);
+
+      console.log(`🚀 Running script: ${scriptName}`);
+      console.log('📋 Starting to scrape House of Representatives (basic data only)...');
+      result = includeCommittees
+        ? await scraper.scrapeHouseOfRepresentativesWithProfiles({
+            includeProfiles: false,
+            includeCommittees,
+          })
+        : await scraper.scrapeHouseOfRepresentativesList();
+
+      console.log(`Scraped ${result.members.length} members`);
+
+      await saveResult(filename, result, options);
+    }
+
+    console.log('\nSample data:');
+    console.log(JSON.stringify(result.members.slice(0, 3), null, 2));
+  }
+}
+
+async function runHouseOfCouncillors(
+  scraper: DietMemberScraper,
+  options: RunOptions
+): Promise<void> {
+  const {
+    scriptName,
+    includeProfiles,
+    getAllProfiles,
+    maxProfiles,
+    forceRefresh,
+    resume,
+    requestsPerSecond,
+  } = options;
+
+  const filename = !includeProfiles
+    ? 'house-of-councillors.json'
+    : getAllProfiles
+      ? 'house-of-councillors-with-all-profiles.json'
+      : 'house-of-councillors-with-profiles.json';
+  const cacheCheck = shouldUseCachedData<HouseOfCouncillorsResult>(filename, {
+    forceRefresh: forceRefresh || (includeProfiles && resume),
+  });
+  const journalPath = ProfileJournal.pathFor(filename);
+
+  let result: HouseOfCouncillorsResult;
+  if (cacheCheck.useCache && cacheCheck.cachedData) {
+    console.log('Using cached House of Councillors data from previous scraping...');
+    const cacheAge = getCacheInfo(filename);
+    if (cacheAge) {
+      console.log(`Cache created: ${cacheAge}`);
+    }
+    result = cacheCheck.cachedData;
+    console.log(`Loaded ${result.members.length} members from cache`);
+  } else {
+    if (forceRefresh) {
+      console.log('Force refresh requested - ignoring cache');
+    }
+
+    console.log('Initializing browser...');
+    await scraper.initialize();
+
+    console.log(`🚀 Running script: ${scriptName}`);
+    console.log(
+      includeProfiles
+        ? `📋 Starting to scrape House of Councillors with profiles (max: ${getAllProfiles ? 'ALL' : maxProfiles})...`
+        : '📋 Starting to scrape House of Councillors (basic data only)...'
+    );
+    result = await scraper.scrapeHouseOfCouncillorsWithProfiles({
+      includeProfiles,
+      maxProfiles,
+      maxConcurrentProfiles: PROFILE_CONCURRENCY,
+      requestsPerSecond,
+      journalPath,
+      resume,
+    });
+
+    console.log(`Scraped ${result.members.length} members`);
+    if (includeProfiles) {
+      const membersWithProfiles = result.members.filter((m) => m.profile);
+      console.log(`${membersWithProfiles.length} members have profile data`);
+    }
+
+    await saveResult(filename, result, options);
+    new ProfileJournal(journalPath).clear();
+  }
+
+  console.log('\nSample House of Councillors data:');
+  console.log(JSON.stringify(result.members.slice(0, 3), null, 2));
+}
+
+/**
+ * Parses the archived House of Representatives pages again with the current extractors
+ */
+async function runReparse(scraper: DietMemberScraper, asOf: string | undefined): Promise<void> {
+  const archive = new HtmlArchive();
+
+  console.log('Initializing browser...');
+  await scraper.initialize();
+
+  console.log(
+    `📦 Reparsing archived House of Representatives pages${asOf ? ` fetched up to ${asOf}` : ''}...`
+  );
+  const result = await scraper.reparseHouseOfRepresentatives(archive, asOf ? { asOf } : {});
+
+  assertValidResult(result, 'Reparsed result');
+  const outputPath = join(process.cwd(), 'out', 'diet-members-reparsed.json');
+  writeFileSync(outputPath, JSON.stringify(result, null, 2), 'utf-8');
+  console.log(`Reparsed results saved to ${outputPath}`);
+}
+
+/**
+ * Prints the changes between two results: the given files, or else the two latest
+ * snapshots of a result file
+ * @param paths - Earlier and later result files (optional)
+ * @param snapshotName - Result file whose snapshots are compared, e.g. "diet-members"
+ */
+function runDiff(paths: string[], snapshotName: string, asJson: boolean): void {
+  let results: (DiffableResult | null)[];
+  if (paths.length === 2) {
+    results = paths.map((path) => loadCachedData<DiffableResult>(resolve(path)));
+  } else {
+    const snapshots = new SnapshotStore();
+    const entries = snapshots.list(snapshotName).slice(-2);
+    if (entries.length < 2) {
+      console.error(`❌ Need two snapshots of ${snapshotName} in ${snapshots.dir} to compare`);
+      process.exit(1);
+    }
+    results = entries.map((entry) => snapshots.load<DiffableResult>(entry));
+  }
+
+  const [before, after] = results;
+  if (!before || !after) {
+    console.error(`❌ Could not read both results: ${paths.join(', ')}`);
+    process.exit(1);
+  }
+
+  const diff = diffResults(before, after);
+  console.log(asJson ? JSON.stringify(diff, null, 2) : formatDiff(diff).join('\n'));
+}
+
+/**
+ * Writes a result file as CSV, NDJSON or normalized CSV tables to out/export/
+ * @param path - Result file (default: out/diet-members.json)
+ */
+function runExport(path: string | undefined, format: ExportFormat, options: ExportOptions): void {
+  const file = path ? resolve(path) : join(process.cwd(), 'out', 'diet-members.json');
+  const result = loadCachedData<ExportableResult>(file);
+  if (!result) {
+    console.error(`❌ Could not read a result from ${file}`);
+    process.exit(1);
+  }
+
+  const written = exportResult(
+    result,
+    format,
+    join(process.cwd(), 'out', 'export'),
+    basename(file, '.json'),
+    options
+  );
+  console.log(`📤 Exported ${result.members.length} members as ${format}:`);
+  for (const output of written) {
+    console.log(`   ${output}`);
+  }
+}
+
+/**
+ * Serves a result over a read-only JSON API until the process is stopped
+ * @param path - Result file (default: out/diet-members.json)
+ * @param snapshotName - Serve the latest snapshot of this result file instead
+ */
+async function runServe(
+  path: string | undefined,
+  snapshotName: string | undefined,
+  options: { port: number; corsOrigin: string }
+): Promise<void> {
+  let file = path ? resolve(path) : join(process.cwd(), 'out', 'diet-members.json');
+  if (snapshotName) {
+    const snapshots = new SnapshotStore();
+    const entry = snapshots.latest(snapshotName);
+    if (!entry) {
+      console.error(`❌ No snapshots of ${snapshotName} in ${snapshots.dir}`);
+      process.exit(1);
+    }
+    file = entry.path;
+  }
+
+  const result = loadCachedData<ExportableResult>(file);
+  if (!result) {
+    console.error(`❌ Could not read a result from ${file}`);
+    process.exit(1);
+  }
+
+  const server = await startApiServer(new MemberApi(result), options);
+  console.log(`🌐 Serving ${result.members.length} members from ${file}`);
+  console.log(`   ${server.url}/members, GraphQL at ${server.url}/graphql (Ctrl+C to stop)`);
+}
+
+/**
+ * 衆議院 members whose election is not in the district registry, as "name: reason"
+ */
+function findUnknownDistricts(result: unknown): string[] {
+  const { source, members } = result as HouseOfRepresentativesResult;
+  if (source !== 'house-of-representatives-list') return [];
+  return members.flatMap((member) => {
+    const district = lookupElectionDistrict(member.election);
+    return 'error' in district ? [`${member.name}: ${district.error}`] : [];
+  });
+}
+
+/**
+ * Checks result files against the published schemas: the given files, or else every
+ * result file in out/
+ */
+function runValidate(paths: string[]): void {
+  const outputDir = join(process.cwd(), 'out');
+  const files =
+    paths.length > 0
+      ? paths.map((path) => resolve(path))
+      : readdirSync(outputDir)
+          .filter((file) => file.endsWith('.json') && file !== 'member-ids.json')
+          .map((file) => join(outputDir, file));
+
+  let invalid = 0;
+  for (const file of files) {
+    let errors: string[];
+    let unknownDistricts: string[] = [];
+    let from = SCHEMA_VERSION;
+    try {
+      // Older files are checked as they load: after upgrading
+      const migration = migrateResult(JSON.parse(readFileSync(file, 'utf-8')));
+      from = migration.from;
+      errors = validateResult(migration.result);
+      unknownDistricts = errors.length === 0 ? findUnknownDistricts(migration.result) : [];
+    } catch (error) {
+      errors = error instanceof SchemaValidationError ? error.errors : [(error as Error).message];
+    }
+
+    const version = from === SCHEMA_VERSION ? '' : ` (schema v${from}, upgraded on load)`;
+    if (errors.length === 0) {
+      console.log(`✅ ${file}${version}`);
+      if (unknownDistricts.length > 0) {
+        console.log(`   ⚠️  ${unknownDistricts.length} districts are not in the registry:`);
+        for (const district of unknownDistricts.slice(0, 20)) {
+          console.log(`   ${district}`);
+        }
+      }
+      continue;
+    }
+    invalid++;
+    console.log(`❌ ${file}${version} (${errors.length} errors)`);
+    for (const error of errors.slice(0, 20)) {
+      console.log(`   ${error}`);
+    }
+  }
+
+  console.log(`\n${files.length - invalid}/${files.length} files match their schema`);
+  if (invalid > 0) {
+    process.exit(1);
+  }
+}
 
 async function main() {
   const scraper = new DietMemberScraper();
@@ -11,9 +508,109 @@ async function main() {
   const args = process.argv.slice(2);
   const scriptName = args[0] || 'basic';
   const forceRefresh = args.includes('--force-refresh');
+  const includeCommittees = args.includes('--committees');
+  const resume = args.includes('--resume');
+  const requestsPerSecond = args.includes('--requests-per-second')
+    ? Number(args[args.indexOf('--requests-per-second') + 1]) || DEFAULT_REQUESTS_PER_SECOND
+    : DEFAULT_REQUESTS_PER_SECOND;
+  const transport: PageTransport =
+    args.includes('--transport') && args[args.indexOf('--transport') + 1] === 'http'
+      ? 'http'
+      : 'browser';
+  const archivePages = !args.includes('--no-archive');
+  const useStore = args.includes('--sqlite');
+  const webhookUrl = args.includes('--webhook')
+    ? args[args.indexOf('--webhook') + 1]
+    : process.env['WEBHOOK_URL'];
+  // Kept out of the command line so that it does not end up in shell history
+  const webhookSecret = process.env['WEBHOOK_SECRET'] || undefined;
+  const asOfArg = args.includes('--as-of') ? args[args.indexOf('--as-of') + 1] : undefined;
   const maxProfilesArg = args.includes('--max-profiles')
     ? parseInt(args[args.indexOf('--max-profiles') + 1] ?? '10') || 10
     : 10;
+  const chamber = args.includes('--chamber')
+    ? (args[args.indexOf('--chamber') + 1] ?? 'representatives').toLowerCase()
+    : 'representatives';
+
+  if (!['representatives', 'councillors', 'both'].includes(chamber)) {
+    console.error(`❌ Unknown chamber: ${chamber}`);
+    console.log('  --chamber representatives|councillors|both');
+    process.exit(1);
+  }
+
+  // Comparing results needs neither the browser nor the network
+  if (scriptName.toLowerCase() === 'diff') {
+    const paths = args.slice(1).filter((arg) => arg.endsWith('.json'));
+    const snapshotName = args.includes('--snapshot')
+      ? (args[args.indexOf('--snapshot') + 1] ?? 'diet-members')
+      : 'diet-members';
+    runDiff(paths, snapshotName, args.includes('--json'));
+    return;
+  }
+
+  if (scriptName.toLowerCase() === 'export') {
+    const format = args.includes('--format') ? args[args.indexOf('--format') + 1] : 'csv';
+    if (format !== 'csv' && format !== 'ndjson' && format !== 'tables') {
+      console.error(`❌ Unknown export format: ${format}`);
+      console.log('  --format csv|ndjson|tables');
+      process.exit(1);
+    }
+    const columnNamesPath = args.includes('--column-names')
+      ? args[args.indexOf('--column-names') + 1]
+      : undefined;
+    runExport(
+      args.slice(1).find((arg) => arg.endsWith('.json') && arg !== columnNamesPath),
+      format,
+      {
+        headers:
+          args.includes('--headers') && args[args.indexOf('--headers') + 1] === 'ja' ? 'ja' : 'en',
+        ...(columnNamesPath && {
+          columnNames: JSON.parse(readFileSync(columnNamesPath, 'utf-8')) as Record<string, string>,
+        }),
+      }
+    );
+    return;
+  }
+
+  if (scriptName.toLowerCase() === 'serve') {
+    await runServe(
+      args.slice(1).find((arg) => arg.endsWith('.json')),
+      args.includes('--snapshot') ? args[args.indexOf('--snapshot') + 1] : undefined,
+      {
+        port: args.includes('--port') ? Number(args[args.indexOf('--port') + 1]) || 3000 : 3000,
+        corsOrigin: args.includes('--cors-origin')
+          ? (args[args.indexOf('--cors-origin') + 1] ?? '*')
+          : '*',
+      }
+    );
+    return;
+  }
+
+  if (scriptName.toLowerCase() === 'validate') {
+    runValidate(args.slice(1).filter((arg) => arg.endsWith('.json')));
+    return;
+  }
+
+  // Local endpoint for trying out webhook notifications
+  if (scriptName.toLowerCase() === 'webhook-receiver') {
+    const port = args.includes('--port') ? Number(args[args.indexOf('--port') + 1]) || 8787 : 8787;
+    const receiver = await startWebhookReceiver({
+      port,
+      secret: webhookSecret,
+      onReceive: (webhook) => {
+        const signature =
+          webhook.verified === null
+            ? 'unsigned'
+            : webhook.verified
+              ? '✅ signature ok'
+              : '❌ bad signature';
+        console.log(`🔔 ${new Date().toISOString()} (${signature})`);
+        console.log(JSON.stringify(webhook.payload, null, 2));
+      },
+    });
+    console.log(`👂 Listening for webhooks at ${receiver.url} (Ctrl+C to stop)`);
+    return;
+  }
 
   // Determine scraping mode based on script name
   let includeProfiles = false;
@@ -21,6 +618,8 @@ async function main() {
   let maxProfiles = 10;
 
   switch (scriptName.toLowerCase()) {
+    case 'reparse':
+      break;
     case 'basic':
       includeProfiles = false;
       break;
@@ -41,135 +640,75 @@ async function main() {
       console.log('  basic        - Scrape basic member data only');
       console.log('  profiles     - Scrape with profiles (default: 10, use --max-profiles N)');
       console.log('  all-profiles - Scrape ALL members with profiles');
+      console.log('  reparse      - Parse the archived pages again without network access');
+      console.log('  diff         - Compare the two latest snapshots (or two given result files)');
+      console.log('  export       - Write a result as CSV, NDJSON or tables to out/export');
+      console.log('  serve        - Serve a result over a local read-only JSON API');
+      console.log('  validate     - Check out/*.json (or the given files) against schema/');
+      console.log('  webhook-receiver - Print webhook notifications sent to a local port');
       console.log('\n🔧 Options:');
       console.log('  --force-refresh  - Ignore cache and fetch fresh data');
       console.log('  --max-profiles N - Limit profile scraping to N members (profiles only)');
+      console.log('  --chamber C      - representatives (default), councillors or both');
+      console.log('  --committees     - Attach 衆議院 committee memberships');
+      console.log('  --resume         - Continue an interrupted profile run from its journal');
+      console.log('  --requests-per-second N - Profile request rate (default: 2)');
+      console.log('  --no-archive     - Do not save fetched pages to out/archive');
+      console.log('  --transport T    - browser (default) or http (衆議院 pages without Chromium)');
+      console.log('  --sqlite         - Also store results in out/diet-members.sqlite');
+      console.log('  --as-of T        - Reparse the pages fetched up to T (reparse only)');
+      console.log('  --snapshot NAME  - Result file to diff, e.g. diet-members-with-all-profiles');
+      console.log('  --json           - Print the diff as JSON (diff only)');
+      console.log('  --webhook URL    - POST changes since the previous snapshot (or WEBHOOK_URL)');
+      console.log('  --format F       - csv (default), ndjson or tables (export only)');
+      console.log('  --headers L      - en (default) or ja column headers (export only)');
+      console.log('  --column-names F - JSON file mapping column keys to headers (export only)');
+      console.log('  --port N         - Port for serve (3000) or webhook-receiver (8787)');
+      console.log('  --cors-origin O  - Access-Control-Allow-Origin for serve (default: *)');
       process.exit(1);
   }
 
+  const runOptions: RunOptions = {
+    scriptName,
+    includeProfiles,
+    getAllProfiles,
+    maxProfiles,
+    forceRefresh,
+    includeCommittees,
+    resume,
+    requestsPerSecond,
+    transport,
+    store: null,
+    webhook: webhookUrl ? { url: webhookUrl, secret: webhookSecret } : null,
+  };
+
+  // Stable member IDs; new names, readings and birth dates are added as aliases
+  const memberIds = new MemberIdRegistry();
+  scraper.useMemberIds(memberIds);
+
   try {
     // Ensure output directory exists
     const outputDir = join(process.cwd(), 'out');
     mkdirSync(outputDir, { recursive: true });
 
-    if (includeProfiles) {
-      const filename = getAllProfiles
-        ? 'diet-members-with-all-profiles.json'
-        : 'diet-members-with-profiles.json';
-      const cacheCheck = shouldUseCachedData(filename, { forceRefresh });
-
-      let result: HouseOfRepresentativesResult;
-      if (cacheCheck.useCache && cacheCheck.cachedData) {
-        console.log('Using cached data from previous scraping...');
-        const cacheAge = getCacheInfo(filename);
-        if (cacheAge) {
-          console.log(`Cache created: ${cacheAge}`);
-        }
-        result = cacheCheck.cachedData;
-
-        console.log(`Loaded ${result.members.length} members from cache`);
-        const membersWithProfiles = result.members.filter((m) => 'profile' in m && m.profile);
-        console.log(`${membersWithProfiles.length} members have profile data`);
-      } else {
-        if (forceRefresh) {
-          console.log('Force refresh requested - ignoring cache');
-        }
-
-        console.log('Initializing browser...');
-        await scraper.initialize();
-
-        console.log(`🚀 Running script: ${scriptName}`);
-        if (getAllProfiles) {
-          console.log(
-            '📋 Starting to scrape House of Representatives with profiles for ALL members...'
-          );
-        } else {
-          console.log(
-            `📋 Starting to scrape House of Representatives with profiles (max: ${maxProfiles})...`
-          );
-        }
-        result = await scraper.scrapeHouseOfRepresentativesWithProfiles({
-          includeProfiles: true,
-          maxProfiles,
-          maxConcurrentProfiles: 2,
-          profileDelay: 1500,
-        });
-
-        console.log(`Scraped ${result.members.length} members`);
-        const membersWithProfiles = result.members.filter((m) => 'profile' in m && m.profile);
-        console.log(`${membersWithProfiles.length} members have profile data`);
-
-        const outputPath = join(process.cwd(), 'out', filename);
-        writeFileSync(outputPath, JSON.stringify(result, null, 2), 'utf-8');
-        console.log(`Results with profiles saved to ${outputPath}`);
-      }
-
-      // Show sample profile data
-      const membersWithProfiles = result.members.filter((m) => 'profile' in m && m.profile);
-      const memberWithProfile = membersWithProfiles[0];
-      if (memberWithProfile?.profile) {
-        console.log('\nSample profile data:');
-        console.log(
-          JSON.stringify(
-            {
-              name: memberWithProfile.name,
-              party: memberWithProfile.party,
-              profile: memberWithProfile.profile,
-            },
-            null,
-            2
-          )
-        );
-      }
-    } else {
-      const filename = 'diet-members.json';
-      const cacheCheck = shouldUseCachedData(filename, { forceRefresh });
-
-      let result: HouseOfRepresentativesResult;
-      if (cacheCheck.useCache && cacheCheck.cachedData) {
-        console.log('Using cached data from previous scraping...');
-        const cacheAge = getCacheInfo(filename);
-        if (cacheAge) {
-          console.log(`Cache created: ${cacheAge}`);
-        }
-
-        // Convert to basic format for backward compatibility
-        const basicResult = {
-          members: cacheCheck.cachedData.members.map((member) => ({
-            name: member.name,
-            party: member.party,
-            election: member.election,
-            ...(member.furigana && { furigana: member.furigana }),
-            ...(member.profileUrl && { profileUrl: member.profileUrl }),
-            ...(member.electionCount && { electionCount: member.electionCount }),
-          })),
-          scrapedAt: cacheCheck.cachedData.scrapedAt,
-          source: cacheCheck.cachedData.source,
-        };
-
-        result = basicResult;
-        console.log(`Loaded ${result.members.length} members from cache`);
-      } else {
-        if (forceRefresh) {
-          console.log('Force refresh requested - ignoring cache');
-        }
-
-        console.log('Initializing browser...');
-        await scraper.initialize();
-
-        console.log(`🚀 Running script: ${scriptName}`);
-        console.log('📋 Starting to scrape House of Representatives (basic data only)...');
-        result = await scraper.scrapeHouseOfRepresentativesList();
-
-        console.log(`Scraped ${result.members.length} members`);
+    if (scriptName.toLowerCase() === 'reparse') {
+      await runReparse(scraper, asOfArg);
+      return;
+    }
 
-        const outputPath = join(process.cwd(), 'out', filename);
-        writeFileSync(outputPath, JSON.stringify(result, null, 2), 'utf-8');
-        console.log(`Results saved to ${outputPath}`);
-      }
+    if (archivePages) {
+      scraper.useArchive(new HtmlArchive());
+    }
+    scraper.useTransport(transport);
+    if (useStore) {
+      runOptions.store = new MemberStore();
+    }
 
-      console.log('\nSample data:');
-      console.log(JSON.stringify(result.members.slice(0, 3), null, 2));
+    if (chamber === 'representatives' || chamber === 'both') {
+      await runHouseOfRepresentatives(scraper, runOptions);
+    }
+    if (chamber === 'councillors' || chamber === 'both') {
+      await runHouseOfCouncillors(scraper, runOptions);
     }
 
     console.log('\n📖 Usage:');
@@ -177,14 +716,29 @@ async function main() {
     console.log('  npm run dev profiles                # Include profile data (default: 10)');
     console.log('  npm run dev profiles --max-profiles 25  # Include up to 25 profiles');
     console.log("  npm run dev all-profiles            # Include ALL members' profiles");
+    console.log('  npm run dev reparse                 # Rebuild from out/archive, no network');
+    console.log('  npm run dev diff                    # Changes since the previous snapshot');
+    console.log('  npm run dev export --format tables  # CSV tables for spreadsheets and pandas');
+    console.log('  npm run dev serve                   # JSON API at http://127.0.0.1:3000');
+    console.log('  npm run dev validate                # Check result files against schema/');
     console.log('\n🔧 Options:');
     console.log('  --force-refresh                     # Force refresh, ignore cache');
     console.log('  --max-profiles N                    # Limit profiles to N members');
+    console.log('  --chamber both                      # representatives, councillors or both');
+    console.log('  --committees                        # Attach 衆議院 committee memberships');
+    console.log('  --resume                            # Continue an interrupted profile run');
+    console.log('  --requests-per-second N             # Profile request rate (default: 2)');
+    console.log('  --no-archive                        # Do not archive fetched pages');
+    console.log('  --transport http                    # Fetch 衆議院 pages without a browser');
+    console.log('  --sqlite                            # Also store results in SQLite');
+    console.log('  --webhook URL                       # Notify a webhook of member changes');
     console.log('\n💡 Script aliases:');
     console.log('  all-profiles = profiles-all = all');
   } catch (error) {
     console.error('Error:', error);
   } finally {
+    memberIds.save();
+    runOptions.store?.close();
     console.log('Closing browser...');
     await scraper.close();
   }
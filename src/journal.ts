@@ -0,0 +1,88 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+export interface JournalRecord<TProfile> {
+  profileUrl: string;
+  name: string;
+  status: 'completed' | 'failed';
+  recordedAt: string; // ISO 8601
+  profile?: TProfile;
+}
+
+/**
+ * Append-only checkpoint of profile scraping: one NDJSON line per finished profile,
+ * written as soon as it completes, so that an interrupted run can be resumed
+ */
+export class ProfileJournal<TProfile = unknown> {
+  readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Journal kept next to an output file in out/, e.g.
+   * diet-members-with-all-profiles.json → diet-members-with-all-profiles.journal.ndjson
+   */
+  static pathFor(filename: string): string {
+    return join(process.cwd(), 'out', filename.replace(/\.json$/, '.journal.ndjson'));
+  }
+
+  /**
+   * Records the outcome for one member; a null profile records a failure
+   */
+  record(profileUrl: string, name: string, profile: TProfile | null): void {
+    const record: JournalRecord<TProfile> = {
+      profileUrl,
+      name,
+      status: profile ? 'completed' : 'failed',
+      recordedAt: new Date().toISOString(),
+      ...(profile && { profile }),
+    };
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, `${JSON.stringify(record)}\n`, 'utf-8');
+  }
+
+  /**
+   * The latest record for each profile URL, so a later success overrides an earlier failure
+   */
+  load(): Map<string, JournalRecord<TProfile>> {
+    const records = new Map<string, JournalRecord<TProfile>>();
+    if (!existsSync(this.path)) {
+      return records;
+    }
+
+    for (const line of readFileSync(this.path, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as JournalRecord<TProfile>;
+        records.set(record.profileUrl, record);
+      } catch (_error) {
+        // The last line is cut short when the process is killed mid-write
+        console.warn(`Skipping unreadable journal line in ${this.path}`);
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Profiles collected so far, keyed by profile URL
+   */
+  completedProfiles(): Map<string, TProfile> {
+    const profiles = new Map<string, TProfile>();
+    for (const [profileUrl, record] of this.load()) {
+      if (record.status === 'completed' && record.profile) {
+        profiles.set(profileUrl, record.profile);
+      }
+    }
+    return profiles;
+  }
+
+  /**
+   * Starts over; called for a fresh run and once the merged output has been written
+   */
+  clear(): void {
+    rmSync(this.path, { force: true });
+  }
+}
@@ -0,0 +1,205 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { normalizeMemberFurigana, normalizeMemberName } from './utils/member-name';
+
+// What identifies a person: the listed name and furigana, and the birth date once a
+// profile has been scraped
+export interface MemberIdentity {
+  name: string;
+  furigana?: string | undefined;
+  birth?: string | undefined; // ISO 8601 (YYYY, YYYY-MM or YYYY-MM-DD)
+}
+
+export interface MemberIdRecord {
+  name: string; // Normalized, as first seen
+  furigana?: string;
+  birth?: string;
+}
+
+// Persisted form of the alias table (out/member-ids.json)
+export interface MemberIdTable {
+  members: Record<string, MemberIdRecord>;
+  aliases: Record<string, string>; // Alias key → member id
+}
+
+/**
+ * ID derived from the normalized attributes; the birth date is only included to keep
+ * namesakes (same name and furigana) apart
+ */
+export function deriveMemberId(identity: MemberIdentity, withBirth = false): string {
+  const parts = [
+    normalizeMemberName(identity.name),
+    normalizeMemberFurigana(identity.furigana ?? ''),
+    ...(withBirth && identity.birth ? [identity.birth] : []),
+  ];
+  return `m-${createHash('sha256').update(parts.join('|'), 'utf-8').digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Alias keys a member can be found by: any two of name, furigana and birth date, so that
+ * a change in one of them (a new 通称, a corrected reading) still resolves to the same ID
+ */
+export function aliasKeys(identity: MemberIdentity): string[] {
+  const name = normalizeMemberName(identity.name);
+  const furigana = identity.furigana ? normalizeMemberFurigana(identity.furigana) : '';
+  const { birth } = identity;
+  return [
+    ...(furigana ? [`name+furigana:${name}|${furigana}`] : [`name:${name}`]),
+    ...(birth ? [`name+birth:${name}|${birth}`] : []),
+    ...(furigana && birth ? [`furigana+birth:${furigana}|${birth}`] : []),
+  ];
+}
+
+/**
+ * Hands out stable member IDs and remembers every name / furigana / birth date
+ * combination seen for them in a persisted alias table
+ */
+export class MemberIdRegistry {
+  readonly path: string;
+  private table: MemberIdTable = { members: {}, aliases: {} };
+
+  constructor(path: string = join(process.cwd(), 'out', 'member-ids.json')) {
+    this.path = path;
+    if (existsSync(path)) {
+      this.table = JSON.parse(readFileSync(path, 'utf-8')) as MemberIdTable;
+    }
+  }
+
+  /**
+   * The member's ID: an existing one when any alias key matches, else a new derived one.
+   * All of the member's alias keys are recorded for the ID.
+   */
+  resolve(identity: MemberIdentity): string {
+    const keys = aliasKeys(identity);
+    const matches = [
+      ...new Set(
+        keys.flatMap((key) => {
+          const id = this.table.aliases[key];
+          return id ? [id] : [];
+        })
+      ),
+    ];
+    const candidates = matches.filter((candidate) => !this.isNamesake(candidate, identity));
+
+    // The list pass has no birth date, so a renamed member first gets a provisional ID.
+    // Once the profile pass links it to an ID with a birth date, the older ID wins.
+    let id =
+      (identity.birth && candidates.find((candidate) => this.table.members[candidate]?.birth)) ||
+      candidates[0];
+    if (id && identity.birth && this.table.members[id]?.birth) {
+      for (const candidate of candidates) {
+        if (candidate !== id && !this.table.members[candidate]?.birth) {
+          this.merge(candidate, id);
+        }
+      }
+    }
+    if (!id) {
+      id = deriveMemberId(identity);
+      if (this.table.members[id] && this.isNamesake(id, identity)) {
+        id = deriveMemberId(identity, true);
+      }
+    }
+    const conflicts = matches.filter((candidate) => this.table.members[candidate]);
+    if (conflicts.length > 1) {
+      console.warn(`⚠️  ${identity.name} matches several member IDs (${conflicts.join(', ')})`);
+    }
+
+    const record = this.table.members[id];
+    if (record) {
+      if (!record.birth && identity.birth) record.birth = identity.birth;
+    } else {
+      this.table.members[id] = {
+        name: normalizeMemberName(identity.name),
+        ...(identity.furigana && { furigana: normalizeMemberFurigana(identity.furigana) }),
+        ...(identity.birth && { birth: identity.birth }),
+      };
+    }
+    for (const key of keys) {
+      // Keys already held by a namesake stay with them
+      const current = this.table.aliases[key];
+      if (!current || !this.isNamesake(current, identity)) {
+        this.table.aliases[key] = id;
+      }
+    }
+    return id;
+  }
+
+  /**
+   * Sets `id` on each member from its name, furigana and profile birth date. Members of
+   * the same list never share an ID, even when nothing tells them apart yet.
+   */
+  assign<T extends { id?: string; name: string; furigana?: string; profile?: unknown }>(
+    members: T[]
+  ): void {
+    const taken = new Set<string>();
+    for (const member of members) {
+      const profile = member.profile as { birth?: { date: string } } | undefined;
+      const identity = {
+        name: member.name,
+        furigana: member.furigana,
+        birth: profile?.birth?.date,
+      };
+      let id = this.resolve(identity);
+      if (taken.has(id)) {
+        id = this.namesakeId(identity, taken);
+        console.warn(`⚠️  ${member.name} is listed more than once; given the separate ID ${id}`);
+      }
+      taken.add(id);
+      member.id = id;
+    }
+  }
+
+  get size(): number {
+    return Object.keys(this.table.members).length;
+  }
+
+  save(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(this.table, null, 2), 'utf-8');
+  }
+
+  /**
+   * ID for a namesake whose aliases are held by another member of the same list: a known
+   * namesake with the same name and furigana (one with a birth date first), else one
+   * derived from the member's place among the namesakes, so that list-only runs agree
+   */
+  private namesakeId(identity: MemberIdentity, taken: Set<string>): string {
+    const name = normalizeMemberName(identity.name);
+    const furigana = identity.furigana ? normalizeMemberFurigana(identity.furigana) : undefined;
+    const known = Object.entries(this.table.members)
+      .filter(
+        ([id, record]) =>
+          !taken.has(id) &&
+          record.name === name &&
+          record.furigana === furigana &&
+          !this.isNamesake(id, identity)
+      )
+      .sort(([, a], [, b]) => Number(b.birth !== undefined) - Number(a.birth !== undefined));
+    if (known[0]) return known[0][0];
+
+    for (let place = 2; ; place++) {
+      const id = deriveMemberId({ ...identity, name: `${identity.name}#${place}` });
+      if (!taken.has(id)) return id;
+    }
+  }
+
+  // Points the aliases of a provisional ID at the ID it turned out to be
+  private merge(provisional: string, id: string): void {
+    for (const [key, target] of Object.entries(this.table.aliases)) {
+      if (target === provisional) this.table.aliases[key] = id;
+    }
+    delete this.table.members[provisional];
+  }
+
+  // Known birth dates that contradict each other mean two different people
+  private isNamesake(id: string, identity: MemberIdentity): boolean {
+    const birth = this.table.members[id]?.birth;
+    return (
+      birth !== undefined &&
+      identity.birth !== undefined &&
+      !birth.startsWith(identity.birth) &&
+      !identity.birth.startsWith(birth)
+    );
+  }
+}
@@ -0,0 +1,266 @@
+// Party / 会派 dictionary shared by every scraper.
+// The member lists use abbreviated 会派 names (「自民」「立憲」), profiles use the full
+// 会派 name (「自由民主党・無所属の会」), and older data uses party names that no longer
+// exist. All of them resolve to a stable party ID here.
+
+export type PartyId =
+  | 'ldp'
+  | 'cdp'
+  | 'ishin'
+  | 'komeito'
+  | 'dpfp'
+  | 'jcp'
+  | 'reiwa'
+  | 'sdp'
+  | 'sanseito'
+  | 'hoshuto'
+  | 'yushi'
+  | 'genzei-yukoku'
+  | 'kyoiku-mushoka'
+  | 'okinawa-no-kaze'
+  | 'minna-de-tsukuru'
+  | 'independent'
+  // Historical parties
+  | 'dpj'
+  | 'dp'
+  | 'kibo'
+  | 'ishin-no-to'
+  | 'your-party'
+  | 'liberal'
+  | 'kokoro';
+
+export interface PartyDefinition {
+  id: PartyId;
+  name: string; // 正式名称
+  shortName: string; // 略称
+  aliases: readonly string[]; // 会派名・旧称・別表記
+  historical?: boolean;
+}
+
+export const PARTIES: readonly PartyDefinition[] = [
+  {
+    id: 'ldp',
+    name: '自由民主党',
+    shortName: '自民',
+    aliases: [
+      '自民党',
+      '自由民主党・無所属の会',
+      '自由民主党・国民の声',
+      '自由民主党・国民の声・無所属の会',
+    ],
+  },
+  {
+    id: 'cdp',
+    name: '立憲民主党',
+    shortName: '立憲',
+    aliases: [
+      '立民',
+      '立憲民主党・無所属',
+      '立憲民主党・市民クラブ',
+      '立憲民主党・無所属フォーラム',
+      '立憲民主・社民・無所属',
+      '立憲民主・社民',
+      '立憲民主党・社民党・無所属',
+    ],
+  },
+  {
+    id: 'ishin',
+    name: '日本維新の会',
+    shortName: '維新',
+    aliases: [
+      '日本維新の会・無所属の会',
+      '日本維新の会・教育無償化を実現する会',
+      'おおさか維新の会',
+      '維新の会',
+    ],
+  },
+  {
+    id: 'komeito',
+    name: '公明党',
+    shortName: '公明',
+    aliases: ['公明党・改革クラブ'],
+  },
+  {
+    id: 'dpfp',
+    name: '国民民主党',
+    shortName: '国民',
+    // 「民主」 is the 参議院 abbreviation of 国民民主党・新緑風会
+    aliases: ['国民民主党・無所属クラブ', '国民民主党・新緑風会', '民主'],
+  },
+  {
+    id: 'jcp',
+    name: '日本共産党',
+    shortName: '共産',
+    aliases: ['共産党'],
+  },
+  {
+    id: 'reiwa',
+    name: 'れいわ新選組',
+    shortName: 'れ新',
+    aliases: ['れいわ'],
+  },
+  {
+    id: 'sdp',
+    name: '社会民主党',
+    shortName: '社民',
+    aliases: ['社民党', '社会民主党・市民連合'],
+  },
+  {
+    id: 'sanseito',
+    name: '参政党',
+    shortName: '参政',
+    aliases: [],
+  },
+  {
+    id: 'hoshuto',
+    name: '日本保守党',
+    shortName: '保守',
+    aliases: [],
+  },
+  {
+    id: 'yushi',
+    name: '有志の会',
+    shortName: '有志',
+    aliases: [],
+  },
+  {
+    id: 'genzei-yukoku',
+    name: '減税日本・ゆうこく連合',
+    shortName: '減ゆ',
+    aliases: ['減税日本'],
+  },
+  {
+    id: 'kyoiku-mushoka',
+    name: '教育無償化を実現する会',
+    shortName: '教育',
+    aliases: [],
+  },
+  {
+    id: 'okinawa-no-kaze',
+    name: '沖縄の風',
+    shortName: '沖縄',
+    aliases: [],
+  },
+  {
+    id: 'minna-de-tsukuru',
+    name: 'みんなでつくる党',
+    shortName: 'みんな',
+    aliases: ['NHK党', 'NHKから国民を守る党', '政治家女子48党', 'N国'],
+  },
+  {
+    id: 'independent',
+    name: '無所属',
+    shortName: '無',
+    aliases: ['無会派', '各派に属しない議員', '各派に属しない議員（無所属）'],
+  },
+  {
+    id: 'dpj',
+    name: '民主党',
+    shortName: '民主党',
+    aliases: ['民主党・無所属クラブ', '民主党・新緑風会'],
+    historical: true,
+  },
+  {
+    id: 'dp',
+    name: '民進党',
+    shortName: '民進',
+    aliases: ['民進党・無所属クラブ', '民進党・新緑風会'],
+    historical: true,
+  },
+  {
+    id: 'kibo',
+    name: '希望の党',
+    shortName: '希望',
+    aliases: ['希望の党・無所属クラブ'],
+    historical: true,
+  },
+  {
+    id: 'ishin-no-to',
+    name: '維新の党',
+    shortName: '維新の党',
+    aliases: [],
+    historical: true,
+  },
+  {
+    id: 'your-party',
+    name: 'みんなの党',
+    shortName: 'みんなの党',
+    aliases: [],
+    historical: true,
+  },
+  {
+    id: 'liberal',
+    name: '自由党',
+    shortName: '自由',
+    aliases: ['生活の党', '生活の党と山本太郎となかまたち'],
+    historical: true,
+  },
+  {
+    id: 'kokoro',
+    name: '日本のこころ',
+    shortName: 'こころ',
+    aliases: ['次世代の党', '日本のこころを大切にする党'],
+    historical: true,
+  },
+];
+
+// Aliases shorter than this only match a whole cell, never a substring,
+// so that e.g. 「沖縄」 in 「沖縄1」 is not mistaken for a 会派
+const MIN_SUBSTRING_ALIAS_LENGTH = 3;
+
+const normalizeKey = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .replace(/\s+/g, '')
+    .replace(/^[（(](.*)[）)]$/, '$1');
+
+const exactIndex = new Map<string, PartyDefinition>();
+for (const party of PARTIES) {
+  for (const key of [party.name, party.shortName, ...party.aliases]) {
+    exactIndex.set(normalizeKey(key), party);
+  }
+}
+
+// Longest names first so that 「自由民主党・無所属の会」 resolves to 自民, not 無所属
+const substringIndex = Array.from(exactIndex.entries())
+  .filter(([key]) => key.length >= MIN_SUBSTRING_ALIAS_LENGTH)
+  .sort(([a], [b]) => b.length - a.length);
+
+/**
+ * Resolves an abbreviated, full or historical 会派/party name to its definition
+ * @param raw - Text as it appears on a member list or profile page
+ * @returns The matching party, or undefined when the text names no known party
+ */
+export function findParty(raw: string | null | undefined): PartyDefinition | undefined {
+  if (!raw) return undefined;
+  const key = normalizeKey(raw);
+  if (!key) return undefined;
+
+  const exact = exactIndex.get(key);
+  if (exact) return exact;
+
+  for (const [alias, party] of substringIndex) {
+    if (key.includes(alias)) return party;
+  }
+  return undefined;
+}
+
+export function getPartyById(id: PartyId): PartyDefinition | undefined {
+  return PARTIES.find((party) => party.id === id);
+}
+
+/**
+ * Normalized party fields attached to a member record
+ * @param faction - Raw 会派 string from the source page
+ */
+export function normalizeParty(faction: string): {
+  party: string;
+  partyId?: PartyId;
+  faction: string;
+} {
+  const definition = findParty(faction);
+  if (!definition) {
+    return { party: faction, faction };
+  }
+  return { party: definition.name, partyId: definition.id, faction };
+}
@@ -0,0 +1,39 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createGenerator } from 'ts-json-schema-generator';
+import { SCHEMA_DIR, SCHEMA_FILES, type SchemaType } from './index';
+
+/**
+ * JSON Schemas of the published types in src/schema/types.ts, by file name
+ */
+export function buildSchemas(): Record<string, unknown> {
+  const generator = createGenerator({
+    path: join(__dirname, 'types.ts'),
+    tsconfig: join(__dirname, '..', '..', 'tsconfig.json'),
+    expose: 'export',
+    topRef: true,
+    additionalProperties: false,
+  });
+
+  const schemas: Record<string, unknown> = {};
+  for (const [type, file] of Object.entries(SCHEMA_FILES) as [SchemaType, string][]) {
+    schemas[file] = { $id: file, ...generator.createSchema(type) };
+  }
+  return schemas;
+}
+
+/**
+ * Writes schema/<type>.schema.json for every published type. Run after changing any of
+ * the types and commit the result.
+ */
+function generateSchemas(): void {
+  mkdirSync(SCHEMA_DIR, { recursive: true });
+  for (const [file, schema] of Object.entries(buildSchemas())) {
+    writeFileSync(join(SCHEMA_DIR, file), `${JSON.stringify(schema, null, 2)}\n`, 'utf-8');
+    console.log(`📐 schema/${file}`);
+  }
+}
+
+if (require.main === module) {
+  generateSchemas();
+}
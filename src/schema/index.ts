@@ -0,0 +1,89 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+
+// Generated schemas, published with the dataset (see src/schema/generate.ts)
+export const SCHEMA_DIR = join(__dirname, '..', '..', 'schema');
+
+export const SCHEMA_FILES = {
+  DietMember: 'diet-member.schema.json',
+  ScrapeResult: 'scrape-result.schema.json',
+  HouseOfRepresentativesMember: 'house-of-representatives-member.schema.json',
+  HouseOfRepresentativesResult: 'house-of-representatives-result.schema.json',
+  MemberProfile: 'member-profile.schema.json',
+  HouseOfCouncillorsResult: 'house-of-councillors-result.schema.json',
+} as const;
+
+export type SchemaType = keyof typeof SCHEMA_FILES;
+
+// The schema a result file is checked against, by its `source`
+const RESULT_SCHEMAS: Record<string, SchemaType> = {
+  'house-of-representatives-list': 'HouseOfRepresentativesResult',
+  'house-of-councillors-list': 'HouseOfCouncillorsResult',
+};
+
+/**
+ * A result that does not match its published schema
+ */
+export class SchemaValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(subject: string, errors: string[]) {
+    super(`${subject} does not match its schema: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.errors = errors;
+  }
+}
+
+const validators = new Map<SchemaType, ValidateFunction>();
+
+function validatorFor(type: SchemaType): ValidateFunction {
+  let validate = validators.get(type);
+  if (!validate) {
+    const schema = JSON.parse(readFileSync(join(SCHEMA_DIR, SCHEMA_FILES[type]), 'utf-8'));
+    validate = new Ajv({ allErrors: true }).compile(schema);
+    validators.set(type, validate);
+  }
+  return validate;
+}
+
+/**
+ * Checks a value against one of the published schemas
+ * @returns Readable errors such as "/members/3/election/system must be equal to one of
+ * the allowed values", empty when the value is valid
+ */
+export function validateSchema(type: SchemaType, data: unknown): string[] {
+  const validate = validatorFor(type);
+  return validate(data) ? [] : (validate.errors ?? []).map(formatError);
+}
+
+/**
+ * Checks a result file's content against the schema for its `source`
+ */
+export function validateResult(data: unknown): string[] {
+  const source = (data as { source?: unknown } | null)?.source;
+  const type = typeof source === 'string' ? RESULT_SCHEMAS[source] : undefined;
+  if (!type) {
+    return [`unknown source: ${JSON.stringify(source)}`];
+  }
+  return validateSchema(type, data);
+}
+
+/**
+ * @throws SchemaValidationError - When the result does not match its schema
+ */
+export function assertValidResult(data: unknown, subject = 'Result'): void {
+  const errors = validateResult(data);
+  if (errors.length > 0) {
+    throw new SchemaValidationError(subject, errors);
+  }
+}
+
+function formatError(error: ErrorObject): string {
+  const path = error.instancePath || '/';
+  const detail =
+    error.keyword === 'additionalProperties'
+      ? `${error.message} (${(error.params as { additionalProperty: string }).additionalProperty})`
+      : error.message;
+  return `${path} ${detail}`;
+}
@@ -0,0 +1,141 @@
+import { SCHEMA_VERSION } from '../constants';
+import { lookupElectionDistrict } from '../districts';
+import { findParty, normalizeParty } from '../parties';
+import { parseCareerTimeline } from '../scrapers/house-of-representatives/career';
+import { parseDualCandidacyDistrict } from '../scrapers/house-of-representatives/dual-candidacy';
+import type { Election, MemberProfile } from '../scrapers/house-of-representatives/types';
+import { parseWarekiDate } from '../utils/wareki';
+import { SchemaValidationError } from './index';
+
+// A result file as read from disk, before it is known to match the current types
+export interface VersionedResult {
+  schemaVersion?: number;
+  members?: unknown;
+  [key: string]: unknown;
+}
+
+interface Migration {
+  from: number; // Upgrades files of this version to the next one
+  description: string;
+  migrate: (result: VersionedResult) => void; // Changes the result in place
+}
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Upgrade steps in version order. Files written before versioning count as version 1;
+ * they span several releases, so each step only fills in what a file still lacks.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    from: 1,
+    description: 'Split 会派 into party, partyId and faction; parse birth and careerTimeline',
+    migrate: (result) => {
+      for (const member of membersOf(result)) {
+        // The list used to carry the 会派 as `party`
+        if (typeof member['party'] === 'string' && member['faction'] === undefined) {
+          Object.assign(member, normalizeParty(member['party']));
+        }
+
+        const profile = member['profile'] as Fields | undefined;
+        if (!profile) continue;
+        const { birthDate, careerHistory, partyAffiliation } = profile;
+        if (typeof birthDate === 'string' && profile['birth'] === undefined) {
+          const birth = parseWarekiDate(birthDate);
+          if (birth) profile['birth'] = birth;
+        }
+        if (typeof partyAffiliation === 'string' && profile['partyId'] === undefined) {
+          const partyId = findParty(partyAffiliation)?.id;
+          if (partyId) profile['partyId'] = partyId;
+        }
+        if (typeof careerHistory === 'string' && profile['careerTimeline'] === undefined) {
+          profile['careerTimeline'] = parseCareerTimeline(careerHistory, {
+            ...(typeof partyAffiliation === 'string' && { partyAffiliation }),
+          });
+        }
+      }
+    },
+  },
+  {
+    from: 2,
+    description:
+      'Add the registry districtId and blockId; record the 重複立候補 district of 比例 members',
+    migrate: (result) => {
+      for (const { election, profile } of representativesMembers(result)) {
+        const lookup = lookupElectionDistrict(election);
+        if (!('error' in lookup)) {
+          Object.assign(election, { ...lookup, ...election });
+        }
+
+        if (
+          profile &&
+          election.system === 'proportional-representation' &&
+          election.dualCandidacyDistrict === undefined
+        ) {
+          const districtId = parseDualCandidacyDistrict(profile as MemberProfile, election.area);
+          if (districtId) election.dualCandidacyDistrict = districtId;
+        }
+      }
+    },
+  },
+];
+
+/**
+ * Format version of a result file; files without one predate versioning
+ */
+export function schemaVersionOf(data: unknown): number {
+  const version = (data as VersionedResult | null)?.schemaVersion;
+  return typeof version === 'number' ? version : 1;
+}
+
+/**
+ * Upgrades a result file of any earlier version to SCHEMA_VERSION. The input is left
+ * unchanged; a current file is returned as is.
+ * @returns The upgraded result, the version it was read as and the steps applied
+ * @throws SchemaValidationError - For files written by a newer release, or a version
+ * without a migration
+ */
+export function migrateResult<T = unknown>(
+  data: unknown
+): { result: T; from: number; applied: string[] } {
+  const from = schemaVersionOf(data);
+  if (from === SCHEMA_VERSION) {
+    return { result: data as T, from, applied: [] };
+  }
+  if (from > SCHEMA_VERSION) {
+    throw new SchemaValidationError('Result', [
+      `schemaVersion ${from} is newer than this release reads (${SCHEMA_VERSION})`,
+    ]);
+  }
+
+  const result = structuredClone(data) as VersionedResult;
+  const applied: string[] = [];
+  for (let version = from; version < SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS.find((candidate) => candidate.from === version);
+    if (!migration) {
+      throw new SchemaValidationError('Result', [`no migration from schemaVersion ${version}`]);
+    }
+    migration.migrate(result);
+    applied.push(`v${version} → v${version + 1}: ${migration.description}`);
+  }
+
+  // Keep the version next to the other header fields, ahead of the members
+  const { schemaVersion: _previous, ...rest } = result;
+  return { result: { schemaVersion: SCHEMA_VERSION, ...rest } as T, from, applied };
+}
+
+// 衆議院 members, by the election systems only they have
+function representativesMembers(result: VersionedResult): (Fields & { election: Election })[] {
+  return membersOf(result).filter((member): member is Fields & { election: Election } => {
+    const system = (member['election'] as Election | undefined)?.system;
+    return system === 'single-seat' || system === 'proportional-representation';
+  });
+}
+
+function membersOf(result: VersionedResult): Fields[] {
+  return Array.isArray(result.members)
+    ? result.members.filter(
+        (member): member is Fields => typeof member === 'object' && member !== null
+      )
+    : [];
+}
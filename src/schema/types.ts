@@ -0,0 +1,8 @@
+// Types published as JSON Schema under schema/ (regenerate with `npm run schema`)
+export type { HouseOfCouncillorsResult } from '../scrapers/house-of-councillors/types';
+export type {
+  HouseOfRepresentativesMember,
+  HouseOfRepresentativesResult,
+  MemberProfile,
+} from '../scrapers/house-of-representatives/types';
+export type { DietMember, ScrapeResult } from '../types';
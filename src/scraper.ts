@@ -1,50 +1,106 @@
-import { type Browser, chromium, type Page } from 'playwright';
-import { HouseOfRepresentativesScraper } from './scrapers/house-of-representatives';
+import type { Browser } from 'playwright';
+import type { ArchiveQuery, HtmlArchive } from './archive';
+import type { MemberIdRegistry } from './member-id';
+import { BrowserScraper } from './scrapers/base';
+import type { HouseOfCouncillorsScraper } from './scrapers/house-of-councillors';
+import type { HouseOfCouncillorsResult } from './scrapers/house-of-councillors/types';
+import type { HouseOfRepresentativesScraper } from './scrapers/house-of-representatives';
+import type { HouseOfRepresentativesResult } from './scrapers/house-of-representatives/types';
+import { createDefaultRegistry, type ScraperRegistry } from './scrapers/registry';
+import type {
+  ChamberResult,
+  ChamberScrapeOptions,
+  ChamberScraper,
+  PageTransport,
+} from './scrapers/types';
 import type { DietMember, ScrapeResult } from './types';
 
-export class DietMemberScraper {
-  private browser: Browser | null = null;
-  private houseOfRepresentativesScraper: HouseOfRepresentativesScraper;
+export class DietMemberScraper extends BrowserScraper {
+  private registry: ScraperRegistry;
+  private transport: PageTransport = 'browser';
 
-  constructor() {
-    this.houseOfRepresentativesScraper = new HouseOfRepresentativesScraper();
+  constructor(registry: ScraperRegistry = createDefaultRegistry()) {
+    super();
+    this.registry = registry;
   }
 
-  async initialize(): Promise<void> {
-    this.browser = await chromium.launch({
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-    });
-    // Share the same browser
-    this.houseOfRepresentativesScraper.useBrowser(this.browser);
+  override async initialize(): Promise<void> {
+    await super.initialize();
+    this.shareBrowser();
+  }
+
+  override useBrowser(browser: Browser): void {
+    super.useBrowser(browser);
+    this.shareBrowser();
+  }
+
+  override async close(): Promise<void> {
+    await super.close();
+    for (const scraper of this.registry.list()) {
+      await scraper.close();
+    }
   }
 
-  async close(): Promise<void> {
+  /**
+   * Adds a scraper to the registry, sharing the browser and member IDs if already in use
+   */
+  registerScraper(scraper: ChamberScraper): void {
+    this.registry.register(scraper);
     if (this.browser) {
-      await this.browser.close();
+      scraper.useBrowser(this.browser);
+    }
+    if (this.memberIds) {
+      scraper.useMemberIds?.(this.memberIds);
     }
-    await this.houseOfRepresentativesScraper.close();
   }
 
   /**
-   * Create a new Playwright page using the internal browser instance.
-   * Throws if initialize() hasn't been called.
+   * Looks up a registered scraper by id
+   */
+  getScraper<T extends ChamberScraper = ChamberScraper>(id: string): T {
+    return this.registry.get<T>(id);
+  }
+
+  getScraperIds(): string[] {
+    return this.registry.ids();
+  }
+
+  /**
+   * Runs the given scrapers (all registered scrapers by default) one after another
+   * on the shared browser
+   * @returns Results keyed by scraper id
    */
-  public async newPage(): Promise<Page> {
+  async scrape(
+    ids: string[] = this.registry.ids(),
+    options: ChamberScrapeOptions = {}
+  ): Promise<Record<string, ChamberResult>> {
     if (!this.browser) {
       throw new Error('Browser not initialized. Call initialize() first.');
     }
-    return this.browser.newPage();
+
+    // Resolve every id up front so a typo fails before any network access
+    const scrapers = ids.map((id) => this.registry.get(id));
+    const results: Record<string, ChamberResult> = {};
+    for (const scraper of scrapers) {
+      console.log(`\n=== ${scraper.displayName} (${scraper.id}) ===`);
+      results[scraper.id] = await scraper.scrape(options);
+    }
+    return results;
   }
 
-  /**
-   * For tests: force-close the underlying browser without changing public API.
-   */
-  public async forceCloseBrowserForTest(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
+  private shareBrowser(): void {
+    if (!this.browser) return;
+    for (const scraper of this.registry.list()) {
+      scraper.useBrowser(this.browser);
     }
-    // Note: houseOfRepresentativesScraper uses shared browser, so no need to close it separately
+  }
+
+  private get houseOfRepresentativesScraper(): HouseOfRepresentativesScraper {
+    return this.registry.get<HouseOfRepresentativesScraper>('house-of-representatives');
+  }
+
+  private get houseOfCouncillorsScraper(): HouseOfCouncillorsScraper {
+    return this.registry.get<HouseOfCouncillorsScraper>('house-of-councillors');
   }
 
   /**
@@ -56,6 +112,7 @@ export class DietMemberScraper {
     // Convert to generic DietMember format for backward compatibility
     const members: DietMember[] = result.members.map((member) => {
       const dietMember: DietMember = {
+        ...(member.id && { id: member.id }),
         name: member.name,
         party: member.party,
         election: member.election,
@@ -65,6 +122,14 @@ export class DietMemberScraper {
         dietMember.furigana = member.furigana;
       }
 
+      if (member.partyId) {
+        dietMember.partyId = member.partyId;
+      }
+
+      if (member.faction) {
+        dietMember.faction = member.faction;
+      }
+
       if (member.profileUrl) {
         dietMember.profileUrl = member.profileUrl;
       }
@@ -77,6 +142,7 @@ export class DietMemberScraper {
     });
 
     return {
+      schemaVersion: result.schemaVersion,
       members,
       scrapedAt: result.scrapedAt,
       source: result.source,
@@ -89,17 +155,121 @@ export class DietMemberScraper {
    * @returns Promise<HouseOfRepresentativesResult> - Complete data with profiles
    */
   async scrapeHouseOfRepresentativesWithProfiles(
-    options: {
-      includeProfiles?: boolean;
-      maxConcurrentProfiles?: number;
-      profileDelay?: number;
-      maxProfiles?: number;
-    } = {}
-  ): Promise<import('./scrapers/house-of-representatives/types').HouseOfRepresentativesResult> {
-    if (!this.browser) {
+    options: ChamberScrapeOptions = {}
+  ): Promise<HouseOfRepresentativesResult> {
+    if (this.transport === 'browser' && !this.browser) {
       throw new Error('Browser not initialized. Call initialize() first.');
     }
 
     return this.houseOfRepresentativesScraper.scrapeHouseOfRepresentativesWithProfiles(options);
   }
+
+  /**
+   * Fetches House of Representatives pages over plain HTTP (`http`) or in the browser.
+   * With `http`, initialize() is only needed for committees or as a fallback.
+   */
+  useTransport(transport: PageTransport): void {
+    this.transport = transport;
+    this.houseOfRepresentativesScraper.useTransport(transport);
+  }
+
+  /**
+   * Gives the members of every registered scraper stable IDs, recording new aliases in
+   * the registry
+   */
+  override useMemberIds(registry: MemberIdRegistry | null): void {
+    super.useMemberIds(registry);
+    for (const scraper of this.registry.list()) {
+      scraper.useMemberIds?.(registry);
+    }
+  }
+
+  /**
+   * Archives the raw HTML of House of Representatives pages fetched from now on
+   */
+  useArchive(archive: HtmlArchive | null): void {
+    this.houseOfRepresentativesScraper.useArchive(archive);
+  }
+
+  /**
+   * Rebuilds House of Representatives members and profiles from archived HTML
+   * @param archive - Archive written by earlier runs
+   * @param options - `asOf` selects an earlier run (default: latest pages)
+   * @returns Promise<HouseOfRepresentativesResult> - Members parsed with the current extractors
+   */
+  async reparseHouseOfRepresentatives(
+    archive: HtmlArchive,
+    options: Pick<ArchiveQuery, 'asOf'> = {}
+  ): Promise<HouseOfRepresentativesResult> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized. Call initialize() first.');
+    }
+
+    return this.houseOfRepresentativesScraper.reparseArchive(archive, options);
+  }
+
+  /**
+   * Main method to scrape House of Councillors members from the member list
+   */
+  async scrapeHouseOfCouncillorsList(): Promise<ScrapeResult> {
+    const result = await this.houseOfCouncillorsScraper.scrapeAllPages();
+
+    // Convert to generic DietMember format shared with the House of Representatives
+    const members: DietMember[] = result.members.map((member) => {
+      const dietMember: DietMember = {
+        ...(member.id && { id: member.id }),
+        name: member.name,
+        party: member.party,
+        election: member.election,
+      };
+
+      if (member.furigana) {
+        dietMember.furigana = member.furigana;
+      }
+
+      if (member.partyId) {
+        dietMember.partyId = member.partyId;
+      }
+
+      if (member.faction) {
+        dietMember.faction = member.faction;
+      }
+
+      if (member.profileUrl) {
+        dietMember.profileUrl = member.profileUrl;
+      }
+
+      if (member.termEnd) {
+        dietMember.termEnd = member.termEnd;
+      }
+
+      if (member.reelectionYear) {
+        dietMember.reelectionYear = member.reelectionYear;
+      }
+
+      return dietMember;
+    });
+
+    return {
+      schemaVersion: result.schemaVersion,
+      members,
+      scrapedAt: result.scrapedAt,
+      source: result.source,
+    };
+  }
+
+  /**
+   * Scrapes House of Councillors members with detailed profiles
+   * @param options - Options for profile scraping
+   * @returns Promise<HouseOfCouncillorsResult> - Complete data with profiles
+   */
+  async scrapeHouseOfCouncillorsWithProfiles(
+    options: ChamberScrapeOptions = {}
+  ): Promise<HouseOfCouncillorsResult> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized. Call initialize() first.');
+    }
+
+    return this.houseOfCouncillorsScraper.scrapeHouseOfCouncillorsWithProfiles(options);
+  }
 }
@@ -0,0 +1,173 @@
+import { type Browser, chromium, type Page } from 'playwright';
+import type { MemberIdRegistry } from '../member-id';
+import { AdaptiveRateLimiter } from '../utils/worker-pool';
+import { type FetchPageOptions, fetchPage, PageFetchError, type RetryOptions } from './fetch';
+import { fetchStaticPage, type StaticFetchOptions } from './http';
+import type { FetchFailure, MemberDiagnostic } from './types';
+
+/**
+ * Browser lifecycle shared by every scraper: either launches its own Chromium
+ * or borrows one injected by the caller via useBrowser().
+ */
+export abstract class BrowserScraper {
+  protected browser: Browser | null = null;
+  private ownsBrowser = false;
+  // Last failure per URL; cleared when the URL is fetched successfully
+  protected readonly fetchFailures = new Map<string, FetchFailure>();
+  // Attempts the last fetch of each URL took, successful or not
+  protected readonly fetchAttempts = new Map<string, number>();
+  protected memberIds: MemberIdRegistry | null = null;
+
+  async initialize(): Promise<void> {
+    if (this.browser) return; // already injected
+    this.browser = await chromium.launch({
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    });
+    this.ownsBrowser = true;
+  }
+
+  async close(): Promise<void> {
+    if (this.browser && this.ownsBrowser) {
+      await this.browser.close();
+    }
+    this.browser = null;
+  }
+
+  // Share external browser (owned by caller)
+  public useBrowser(browser: Browser): void {
+    this.browser = browser;
+    this.ownsBrowser = false;
+  }
+
+  /**
+   * Gives scraped members a stable `id` from this registry
+   */
+  useMemberIds(registry: MemberIdRegistry | null): void {
+    this.memberIds = registry;
+  }
+
+  /**
+   * Sets `id` on the members when a registry is in use; call again once profiles are
+   * attached so that birth dates are recorded as aliases
+   */
+  protected assignMemberIds(
+    members: { id?: string; name: string; furigana?: string; profile?: unknown }[]
+  ): void {
+    this.memberIds?.assign(members);
+  }
+
+  /**
+   * Create a new Playwright page using the internal browser instance.
+   * Throws if initialize() hasn't been called.
+   */
+  public async newPage(): Promise<Page> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized. Call initialize() or useBrowser() first.');
+    }
+    return this.browser.newPage();
+  }
+
+  /**
+   * Loads and parses a page through the shared retry policy, recording the failure reason
+   * for the URL when it still fails after retrying
+   * @throws PageFetchError
+   */
+  protected async loadPage<T>(page: Page, url: string, options: FetchPageOptions<T>): Promise<T> {
+    return this.recordFailure(url, (onRetry) => fetchPage(page, url, { onRetry, ...options }));
+  }
+
+  /**
+   * Like loadPage, but fetches the page with Node's fetch and parses it without a browser
+   * @throws PageFetchError
+   */
+  protected async loadStaticPage<T>(url: string, options: StaticFetchOptions<T>): Promise<T> {
+    return this.recordFailure(url, (onRetry) => fetchStaticPage(url, { onRetry, ...options }));
+  }
+
+  private async recordFailure<T>(
+    url: string,
+    load: (onRetry: NonNullable<RetryOptions['onRetry']>) => Promise<T>
+  ): Promise<T> {
+    let attempts = 1;
+    try {
+      const data = await load((error, attempt, delayMs) => {
+        attempts = attempt + 1;
+        console.warn(
+          `Retrying ${url} in ${delayMs}ms after ${error.kind} (attempt ${attempt}): ${error.message}`
+        );
+      });
+      this.fetchFailures.delete(url);
+      this.fetchAttempts.set(url, attempts);
+      return data;
+    } catch (error) {
+      this.fetchAttempts.set(url, attempts);
+      if (error instanceof PageFetchError) {
+        this.fetchFailures.set(url, error.toFailure());
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Recorded failures for the given URLs, in their order
+   */
+  protected collectFailures(urls: readonly (string | undefined)[]): FetchFailure[] {
+    return urls.flatMap((url) => {
+      const failure = url ? this.fetchFailures.get(url) : undefined;
+      return failure ? [failure] : [];
+    });
+  }
+
+  /**
+   * Diagnostic entry for a member whose profile was just fetched, with the error class
+   * and attempts recorded by loadPage / loadStaticPage
+   */
+  protected diagnoseProfile(
+    member: { name: string; profileUrl: string },
+    ok: boolean,
+    durationMs: number
+  ): MemberDiagnostic {
+    const { name, profileUrl } = member;
+    const failure = ok ? undefined : this.fetchFailures.get(profileUrl);
+    const attempts = this.fetchAttempts.get(profileUrl);
+    return {
+      name,
+      profileUrl,
+      status: ok ? 'ok' : 'failed',
+      ...(failure && { errorKind: failure.kind, message: failure.message }),
+      ...(attempts !== undefined && { attempts }),
+      durationMs,
+    };
+  }
+
+  /**
+   * Shared limiter for one run of page requests; `requestsPerSecond` takes precedence,
+   * otherwise request starts are spaced `delay` ms apart
+   */
+  protected createRateLimiter(options: {
+    requestsPerSecond?: number | undefined;
+    delay: number;
+  }): AdaptiveRateLimiter {
+    const onBackoffChange = (backoffMs: number) =>
+      console.log(
+        backoffMs > 0
+          ? `⏳ Slow or failing responses - waiting an extra ${backoffMs}ms between requests`
+          : '✓ Response times back to normal'
+      );
+
+    return options.requestsPerSecond
+      ? AdaptiveRateLimiter.perSecond(options.requestsPerSecond, { onBackoffChange })
+      : new AdaptiveRateLimiter({ minIntervalMs: options.delay, onBackoffChange });
+  }
+
+  /**
+   * For tests: force-close the underlying browser without changing public API.
+   */
+  public async forceCloseBrowserForTest(): Promise<void> {
+    if (this.browser && this.ownsBrowser) {
+      await this.browser.close();
+    }
+    this.browser = null;
+  }
+}
@@ -0,0 +1,35 @@
+import type { MemberDiagnostic, ProfileStatus, ScrapeDiagnostics } from './types';
+
+/**
+ * Builds the diagnostics section of a result from the per-member outcomes
+ * @param members - One entry per member of the result, in member order
+ * @param startedAt - When profile scraping started
+ * @param finishedAt - When it ended (default: now)
+ */
+export function summarizeDiagnostics(
+  members: MemberDiagnostic[],
+  startedAt: Date,
+  finishedAt: Date = new Date()
+): ScrapeDiagnostics {
+  const counts: Record<ProfileStatus, number> = { ok: 0, failed: 0, skipped: 0, 'no-url': 0 };
+  for (const member of members) {
+    counts[member.status]++;
+  }
+
+  return {
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    counts,
+    members,
+  };
+}
+
+/**
+ * One-line summary for the console, e.g. "ok 10, failed 2, skipped 453, no-url 0"
+ */
+export function formatDiagnosticCounts(diagnostics: ScrapeDiagnostics): string {
+  return Object.entries(diagnostics.counts)
+    .map(([status, count]) => `${status} ${count}`)
+    .join(', ');
+}
@@ -0,0 +1,183 @@
+import { errors, type Page } from 'playwright';
+import type { FetchErrorKind, FetchFailure } from './types';
+
+export interface RetryOptions {
+  retries?: number; // Retries after the first attempt (default: 2)
+  baseDelayMs?: number; // Backoff before the first retry (default: 1000)
+  maxDelayMs?: number; // Upper bound for a single backoff (default: 10000)
+  random?: () => number; // For tests
+  onRetry?: (error: PageFetchError, attempt: number, delayMs: number) => void;
+}
+
+export interface FetchPageOptions<T> extends RetryOptions {
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle';
+  timeout?: number;
+  // Extracts the data once the page has loaded; throw (or return null) if the page is unusable
+  parse: (page: Page) => Promise<T | null>;
+}
+
+/**
+ * A failed page fetch, classified so that callers can tell transient problems from permanent ones
+ */
+export class PageFetchError extends Error {
+  readonly kind: FetchErrorKind;
+  readonly url: string;
+  readonly status: number | undefined;
+  attempts = 1;
+
+  constructor(
+    kind: FetchErrorKind,
+    url: string,
+    message: string,
+    options: { status?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'PageFetchError';
+    this.kind = kind;
+    this.url = url;
+    this.status = options.status;
+  }
+
+  /**
+   * Timeouts, 5xx, dropped connections, 408 and 429 are worth another try; other 4xx and
+   * pages that load but cannot be parsed will fail the same way again
+   */
+  get retryable(): boolean {
+    if (this.kind === 'http-4xx') {
+      return this.status === 408 || this.status === 429;
+    }
+    return this.kind !== 'parse';
+  }
+
+  toFailure(): FetchFailure {
+    return {
+      url: this.url,
+      kind: this.kind,
+      message: this.message,
+      attempts: this.attempts,
+      ...(this.status !== undefined && { status: this.status }),
+    };
+  }
+}
+
+/**
+ * Maps an error thrown while loading a page to a PageFetchError
+ * @param error - Error from page.goto or from waiting for the page
+ * @param url - Requested URL
+ * @param stage - `parse` for errors thrown while extracting data from a loaded page
+ */
+export function classifyFetchError(
+  error: unknown,
+  url: string,
+  stage: 'navigation' | 'parse' = 'navigation'
+): PageFetchError {
+  if (error instanceof PageFetchError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof errors.TimeoutError) {
+    return new PageFetchError('timeout', url, message, { cause: error });
+  }
+  return new PageFetchError(stage, url, message, { cause: error });
+}
+
+/**
+ * Exponential backoff with jitter: half of the delay is fixed, the other half random,
+ * so that concurrent workers do not retry in lock-step
+ * @param attempt - 1 for the first retry
+ */
+export function backoffDelay(attempt: number, options: RetryOptions = {}): number {
+  const { baseDelayMs = 1000, maxDelayMs = 10000, random = Math.random } = options;
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Runs one fetch attempt after another until it succeeds, fails permanently or runs out
+ * of retries, waiting a jittered backoff in between
+ * @throws PageFetchError - After the last attempt, with `attempts` set
+ */
+export async function withRetry<T>(
+  url: string,
+  attemptFetch: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { onRetry, retries = 2 } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await attemptFetch();
+    } catch (error) {
+      const fetchError = classifyFetchError(error, url);
+      fetchError.attempts = attempt;
+      if (!fetchError.retryable || attempt > retries) {
+        throw fetchError;
+      }
+
+      const delayMs = backoffDelay(attempt, options);
+      onRetry?.(fetchError, attempt, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Fails for HTTP error statuses, classified as http-4xx or http-5xx
+ */
+export function checkHttpStatus(url: string, status: number | undefined): void {
+  if (status !== undefined && status >= 400) {
+    throw new PageFetchError(status >= 500 ? 'http-5xx' : 'http-4xx', url, `HTTP ${status}`, {
+      status,
+    });
+  }
+}
+
+/**
+ * Runs the caller's extraction on a loaded page; errors and empty results are parse failures
+ */
+export async function parseDocument<TDocument, T>(
+  url: string,
+  document: TDocument,
+  parse: (document: TDocument) => Promise<T | null>
+): Promise<T> {
+  let data: T | null;
+  try {
+    data = await parse(document);
+  } catch (error) {
+    throw classifyFetchError(error, url, 'parse');
+  }
+  if (data === null) {
+    throw new PageFetchError('parse', url, 'No data could be extracted from the page');
+  }
+  return data;
+}
+
+/**
+ * Loads a page in the browser and parses it, retrying transient failures with jittered backoff
+ * @returns The parsed data
+ * @throws PageFetchError - After the last attempt, with `attempts` set
+ */
+export async function fetchPage<T>(
+  page: Page,
+  url: string,
+  options: FetchPageOptions<T>
+): Promise<T> {
+  const { waitUntil = 'domcontentloaded', timeout, parse } = options;
+
+  return withRetry(
+    url,
+    async () => {
+      let response: Awaited<ReturnType<Page['goto']>>;
+      try {
+        response = await page.goto(url, { waitUntil, ...(timeout !== undefined && { timeout }) });
+      } catch (error) {
+        throw classifyFetchError(error, url);
+      }
+
+      checkHttpStatus(url, response?.status());
+      return parseDocument(url, page, parse);
+    },
+    options
+  );
+}
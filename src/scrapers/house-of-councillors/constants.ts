@@ -0,0 +1,13 @@
+// Configuration constants for House of Councillors scraping
+export const HOUSE_OF_COUNCILLORS_CONFIG = {
+  URLS: {
+    // The member list is published per Diet session; update the session number after each 召集
+    BASE_URL: 'https://www.sangiin.go.jp/japanese/joho1/kousei/giin/217/giin.htm',
+  },
+  TIMEOUTS: {
+    PAGE_LOAD: 3000,
+  },
+  // 定数 248 (選挙区 148 + 比例 100), half of which is elected every three years
+  TOTAL_SEATS: 248,
+  PROPORTIONAL_LABEL: '比例',
+} as const;
@@ -0,0 +1,3 @@
+export { HOUSE_OF_COUNCILLORS_CONFIG } from './constants';
+export { HouseOfCouncillorsScraper } from './scraper';
+export type * from './types';
@@ -0,0 +1,516 @@
+import type { Page } from 'playwright';
+import { PREFECTURES, SCHEMA_VERSION } from '../../constants';
+import { ProfileJournal } from '../../journal';
+import { normalizeParty } from '../../parties';
+import { parseJapaneseNumber } from '../../utils/japanese-number';
+import { parseWarekiDate } from '../../utils/wareki';
+import { runWorkerPool } from '../../utils/worker-pool';
+import { BrowserScraper } from '../base';
+import type { ChamberScrapeOptions, ChamberScraper } from '../types';
+import { HOUSE_OF_COUNCILLORS_CONFIG } from './constants';
+import type {
+  CouncillorElection,
+  CouncillorProfile,
+  HouseOfCouncillorsMember,
+  HouseOfCouncillorsResult,
+  RawCouncillorData,
+} from './types';
+
+export class HouseOfCouncillorsScraper
+  extends BrowserScraper
+  implements ChamberScraper<HouseOfCouncillorsResult>
+{
+  readonly id = 'house-of-councillors';
+  readonly displayName = '参議院';
+
+  /**
+   * ChamberScraper entry point; see scrapeHouseOfCouncillorsWithProfiles
+   */
+  async scrape(options: ChamberScrapeOptions = {}): Promise<HouseOfCouncillorsResult> {
+    return this.scrapeHouseOfCouncillorsWithProfiles(options);
+  }
+
+  /**
+   * Main method to scrape House of Councillors members from the member list
+   */
+  async scrapeAllPages(): Promise<HouseOfCouncillorsResult> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized. Call initialize() or useBrowser() first.');
+    }
+
+    const page = await this.browser.newPage();
+    const processedMembers: HouseOfCouncillorsMember[] = [];
+
+    try {
+      console.log('Scraping House of Councillors list...');
+
+      const rawMemberData = await this.loadPage(page, HOUSE_OF_COUNCILLORS_CONFIG.URLS.BASE_URL, {
+        parse: async (loadedPage) => {
+          await loadedPage.waitForSelector('table', {
+            timeout: HOUSE_OF_COUNCILLORS_CONFIG.TIMEOUTS.PAGE_LOAD,
+          });
+          const rows = await this.extractMembersFromPage(loadedPage);
+          return rows.length > 0 ? rows : null;
+        },
+      });
+      console.log(`Found ${rawMemberData.length} raw members`);
+
+      for (const member of rawMemberData) {
+        if (!this.validateMemberData(member)) {
+          continue;
+        }
+
+        try {
+          const processedMember: HouseOfCouncillorsMember = {
+            name: member.name,
+            ...normalizeParty(member.party),
+            election: this.parseElectionInfo(member.district),
+            ...(member.furigana && { furigana: this.normalizeFurigana(member.furigana) }),
+            ...(member.profileUrl && { profileUrl: member.profileUrl }),
+            ...this.parseTermEnd(member.termEnd),
+          };
+
+          processedMembers.push(processedMember);
+        } catch (error) {
+          console.warn(`Failed to process member: ${member.name}`, error);
+        }
+      }
+
+      console.log(`\n=== Summary ===`);
+      console.log(`Total raw members found: ${rawMemberData.length}`);
+      console.log(
+        `Successfully processed: ${processedMembers.length}/${HOUSE_OF_COUNCILLORS_CONFIG.TOTAL_SEATS} members`
+      );
+
+      if (processedMembers.length === 0) {
+        throw new Error('No valid members were scraped. The website structure may have changed.');
+      }
+    } catch (error) {
+      console.error('Error scraping House of Councillors list:', error);
+      throw error;
+    } finally {
+      await page.close();
+    }
+
+    this.assignMemberIds(processedMembers);
+    return {
+      schemaVersion: SCHEMA_VERSION,
+      members: processedMembers,
+      scrapedAt: new Date().toISOString(),
+      source: 'house-of-councillors-list',
+    };
+  }
+
+  /**
+   * Scrapes House of Councillors members with their detailed profiles
+   * @param options - Scraping options for profile collection
+   * @returns Promise<HouseOfCouncillorsResult> - Complete member data with profiles
+   */
+  async scrapeHouseOfCouncillorsWithProfiles(
+    options: ChamberScrapeOptions = {}
+  ): Promise<HouseOfCouncillorsResult> {
+    const {
+      includeProfiles = true,
+      maxConcurrentProfiles = 2,
+      profileDelay = 2000,
+      requestsPerSecond,
+      maxProfiles = 10,
+      journalPath,
+      resume = false,
+    } = options;
+
+    console.log('Starting House of Councillors scraping...');
+    const result = await this.scrapeAllPages();
+
+    if (!includeProfiles) {
+      console.log('Profile scraping disabled. Returning basic member data only.');
+      return result;
+    }
+
+    const membersWithUrls = result.members.filter((m) => m.profileUrl);
+    console.log(`Found ${membersWithUrls.length} members with profile URLs`);
+
+    const membersToScrape =
+      maxProfiles === Number.MAX_SAFE_INTEGER
+        ? membersWithUrls
+        : membersWithUrls.slice(0, maxProfiles);
+
+    let pendingMembers = membersToScrape;
+    const journal = journalPath ? new ProfileJournal<CouncillorProfile>(journalPath) : undefined;
+    if (journal && resume) {
+      const completed = journal.completedProfiles();
+      pendingMembers = membersToScrape.filter((member) => {
+        const profile = member.profileUrl ? completed.get(member.profileUrl) : undefined;
+        if (profile) {
+          member.profile = profile;
+        }
+        return !profile;
+      });
+      console.log(
+        `Resuming from ${journal.path}: ${membersToScrape.length - pendingMembers.length} profiles already collected, ${pendingMembers.length} left`
+      );
+    } else {
+      journal?.clear();
+    }
+
+    try {
+      await this.scrapeMultipleProfiles(pendingMembers, {
+        maxConcurrent: maxConcurrentProfiles,
+        delay: profileDelay,
+        ...(requestsPerSecond && { requestsPerSecond }),
+        ...(journal && { journal }),
+      });
+    } catch (error) {
+      console.error('Error during profile scraping:', error);
+      // Continue with partial results rather than failing completely
+    }
+
+    const profileFailures = this.collectFailures(pendingMembers.map((m) => m.profileUrl));
+    if (profileFailures.length > 0) {
+      result.failures = [...(result.failures ?? []), ...profileFailures];
+    }
+
+    return result;
+  }
+
+  private async extractMembersFromPage(page: Page): Promise<RawCouncillorData[]> {
+    const rows = await page.locator('table tr').all();
+    const members: RawCouncillorData[] = [];
+    const seenMembers = new Set<string>();
+
+    // Default column order of the 議員一覧: 氏名 / 読み方 / 会派 / 選挙区 / 任期満了
+    const columns = { furigana: 1, party: 2, district: 3, termEnd: 4 };
+
+    for (const row of rows) {
+      const headerCells = await row.locator('th').allTextContents();
+      if (headerCells.length > 0) {
+        // Re-map columns when the page declares its own header order
+        headerCells.forEach((text, index) => {
+          const t = text.trim();
+          if (t.includes('読み')) columns.furigana = index;
+          else if (t.includes('会派')) columns.party = index;
+          else if (t.includes('選挙区')) columns.district = index;
+          else if (t.includes('任期')) columns.termEnd = index;
+        });
+        continue;
+      }
+
+      const cells = await row.locator('td').all();
+      if (cells.length < 4) continue;
+
+      const nameCell = cells[0];
+      if (!nameCell) continue;
+
+      const link = nameCell.locator('a').first();
+      let name = '';
+      let href = '';
+
+      if ((await link.count()) > 0) {
+        name = (await link.textContent())?.trim() || '';
+        href = (await link.getAttribute('href'))?.trim() || '';
+      } else {
+        name = (await nameCell.textContent())?.trim() || '';
+      }
+
+      const cleanName = name.replace(/\[.*?\]$/, '').trim();
+      if (!cleanName || cleanName === '氏名' || seenMembers.has(cleanName)) continue;
+      seenMembers.add(cleanName);
+
+      const allCells: string[] = [];
+      for (const cell of cells) {
+        allCells.push((await cell.textContent())?.trim() || '');
+      }
+
+      const memberData: RawCouncillorData = {
+        name: cleanName,
+        party: allCells[columns.party] || '不明',
+        district: allCells[columns.district] || '不明',
+      };
+
+      const furigana = allCells[columns.furigana];
+      if (furigana) {
+        memberData.furigana = furigana;
+      }
+
+      const termEnd = allCells[columns.termEnd];
+      if (termEnd) {
+        memberData.termEnd = termEnd;
+      }
+
+      const profileUrl = href ? this.buildAbsoluteUrl(href) : '';
+      if (profileUrl) {
+        memberData.profileUrl = profileUrl;
+      }
+
+      members.push(memberData);
+    }
+
+    return members;
+  }
+
+  private buildAbsoluteUrl(relativeUrl: string): string {
+    // Accept absolute http(s) and reject unsafe schemes
+    if (/^https?:\/\//i.test(relativeUrl)) return relativeUrl;
+    if (/^(javascript|data):/i.test(relativeUrl)) return '';
+    try {
+      return new URL(relativeUrl, HOUSE_OF_COUNCILLORS_CONFIG.URLS.BASE_URL).toString();
+    } catch (_error) {
+      return '';
+    }
+  }
+
+  private validateMemberData(member: RawCouncillorData): boolean {
+    return !!(
+      member?.name &&
+      typeof member.name === 'string' &&
+      member.name.trim().length >= 2 &&
+      member.party &&
+      typeof member.party === 'string' &&
+      member.district &&
+      typeof member.district === 'string'
+    );
+  }
+
+  private normalizeFurigana(furigana: string): string {
+    return furigana.replace(/\n/g, ' ').replace(/　/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private parseElectionInfo(rawDistrict: string): CouncillorElection {
+    const district = rawDistrict.replace(/\s+/g, '');
+
+    if (district.startsWith(HOUSE_OF_COUNCILLORS_CONFIG.PROPORTIONAL_LABEL)) {
+      return { system: 'national-proportional' };
+    }
+
+    // 合区 (e.g. 鳥取・島根) spans several prefectures, so only the area is kept
+    const prefecture = (PREFECTURES as readonly string[]).find(
+      (pref) => district === pref || district === `${pref}選挙区`
+    );
+
+    return {
+      system: 'prefectural-district',
+      ...(prefecture && { prefecture }),
+      area: district.replace(/選挙区$/, ''),
+    };
+  }
+
+  /**
+   * Converts the 任期満了 cell (e.g. "令和7年7月28日") into an ISO date and its 改選 year
+   */
+  private parseTermEnd(rawTermEnd: string | undefined): {
+    termEnd?: string;
+    reelectionYear?: number;
+  } {
+    const parsed = parseWarekiDate(rawTermEnd);
+    if (parsed?.precision !== 'day') return {};
+
+    return {
+      termEnd: parsed.date,
+      reelectionYear: Number(parsed.date.slice(0, 4)),
+    };
+  }
+
+  /**
+   * Scrapes detailed profile information from a member's profile page
+   * @param profileUrl - The URL of the member's profile page
+   * @returns Promise<CouncillorProfile | null> - The member's profile data or null if scraping fails
+   */
+  async scrapeProfile(profileUrl: string): Promise<CouncillorProfile | null> {
+    if (!profileUrl || !this.browser) {
+      return null;
+    }
+
+    // Validate URL scheme for security
+    try {
+      const url = new URL(profileUrl);
+      if (!['http:', 'https:'].includes(url.protocol)) {
+        console.warn(`Skipping non-http(s) profile URL: ${profileUrl}`);
+        return null;
+      }
+    } catch (_error) {
+      console.warn(`Invalid profile URL: ${profileUrl}`);
+      return null;
+    }
+
+    const page = await this.newPage();
+
+    try {
+      console.log(`Scraping profile: ${profileUrl}`);
+      return await this.loadPage(page, profileUrl, {
+        waitUntil: 'networkidle',
+        timeout: 10000,
+        parse: (loadedPage) => this.extractProfileFromPage(loadedPage),
+      });
+    } catch (error) {
+      // The reason is kept in fetchFailures and reported in the result
+      console.error(`Failed to scrape profile ${profileUrl}:`, error);
+      return null;
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Extracts profile information from the current page
+   * @param page - The Playwright page object
+   * @returns Promise<CouncillorProfile | null> - Extracted profile data
+   */
+  private async extractProfileFromPage(page: Page): Promise<CouncillorProfile | null> {
+    const profile: CouncillorProfile = {};
+
+    const cleanText = (text: string | null | undefined): string => {
+      return (
+        text
+          ?.replace(/\u3000/g, ' ')
+          .replace(/\s+/g, ' ')
+          .trim() || ''
+      );
+    };
+
+    try {
+      // Heading like "青木 一彦（あおき かずひこ）"
+      const heading = page.locator('h1, h2').first();
+      if ((await heading.count()) > 0) {
+        const headingText = cleanText(await heading.textContent());
+        const nameMatch = headingText.match(/^([^(（]+)[（(]([^)）]+)[）)]$/);
+        if (nameMatch?.[1] && nameMatch[2]) {
+          profile.fullName = nameMatch[1].trim();
+          profile.furigana = nameMatch[2].trim();
+        } else if (headingText) {
+          profile.fullName = headingText;
+        }
+      }
+
+      // Label/value pairs are laid out either as table rows or as definition lists
+      const fields: Record<string, string> = {};
+      for (const row of await page.locator('tr').all()) {
+        const label = cleanText(await row.locator('th, td').first().textContent());
+        const value = cleanText(await row.locator('td').last().textContent());
+        if (label && value && label !== value) {
+          fields[label] = value;
+        }
+      }
+      const terms = await page.locator('dt').allTextContents();
+      const descriptions = await page.locator('dd').allTextContents();
+      terms.forEach((term, index) => {
+        const label = cleanText(term);
+        const value = cleanText(descriptions[index]);
+        if (label && value) {
+          fields[label] = value;
+        }
+      });
+
+      const additionalInfo: Record<string, string> = {};
+      for (const [label, value] of Object.entries(fields)) {
+        if (label.includes('会派')) {
+          profile.faction = value;
+        } else if (label.includes('選挙区')) {
+          profile.electionDistrict = value;
+        } else if (label.includes('当選年')) {
+          profile.electionYears = value.split(/[、，,\s]+/).filter((y) => y);
+        } else if (label.includes('当選回数')) {
+          const electionCount = parseJapaneseNumber(value.replace(/回.*$/, ''));
+          if (electionCount !== null) {
+            profile.electionCount = electionCount;
+          } else {
+            console.warn(`Could not parse election count: ${value}`);
+          }
+        } else if (label.includes('任期満了')) {
+          profile.termEnd = this.parseTermEnd(value).termEnd ?? value;
+        } else if (label.includes('役職')) {
+          profile.positions = value.split(/[、，]/).map((p) => p.trim());
+        } else if (label.includes('経歴')) {
+          profile.biography = value;
+        } else {
+          additionalInfo[label] = value;
+        }
+      }
+
+      // Fall back to the free-text 経歴 paragraph when it is not part of a table
+      if (!profile.biography) {
+        const paragraphs = (await page.locator('p').allTextContents())
+          .map((text) => cleanText(text))
+          .filter((text) => text.length > 50);
+        if (paragraphs.length > 0) {
+          profile.biography = paragraphs.join('\n');
+        }
+      }
+
+      const websiteLink = page.locator('a[href^="http"]:not([href*="sangiin.go.jp"])').first();
+      if ((await websiteLink.count()) > 0) {
+        const href = await websiteLink.getAttribute('href');
+        if (href && !href.includes('readspeaker')) {
+          profile.website = href;
+        }
+      }
+
+      if (Object.keys(additionalInfo).length > 0) {
+        profile.additionalInfo = additionalInfo;
+      }
+
+      return Object.keys(profile).length > 0 ? profile : null;
+    } catch (error) {
+      console.error('Error extracting profile from page:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Scrapes profiles for multiple members with rate limiting
+   * @param members - Array of members with profileUrl
+   * @param options - Scraping options
+   * @returns Promise<void>
+   */
+  async scrapeMultipleProfiles(
+    members: HouseOfCouncillorsMember[],
+    options: {
+      maxConcurrent?: number;
+      delay?: number;
+      requestsPerSecond?: number;
+      journal?: ProfileJournal<CouncillorProfile>;
+    } = {}
+  ): Promise<void> {
+    let { maxConcurrent = 3, delay = 1000 } = options;
+    const { requestsPerSecond, journal } = options;
+
+    // Normalize inputs to prevent infinite loops and negative delays
+    maxConcurrent = Math.max(1, Math.floor(Number(maxConcurrent) || 1));
+    delay = Math.max(0, Math.floor(Number(delay) || 0));
+
+    if (!this.browser) {
+      throw new Error('Browser not initialized');
+    }
+
+    const membersWithProfiles = members.filter((m) => m.profileUrl);
+    console.log(`Scraping profiles for ${membersWithProfiles.length} members...`);
+
+    const limiter = this.createRateLimiter({ requestsPerSecond, delay });
+    let completedCount = 0;
+    let successCount = 0;
+
+    await runWorkerPool(
+      membersWithProfiles,
+      async (member) => {
+        if (!member.profileUrl) return true;
+
+        const profile = await this.scrapeProfile(member.profileUrl);
+        completedCount++;
+        journal?.record(member.profileUrl, member.name, profile);
+        if (profile) {
+          member.profile = profile;
+          successCount++;
+          console.log(`✓ [${completedCount}/${membersWithProfiles.length}] ${member.name}`);
+        } else {
+          console.log(
+            `✗ [${completedCount}/${membersWithProfiles.length}] ${member.name} - Failed`
+          );
+        }
+        return profile !== null;
+      },
+      { concurrency: maxConcurrent, limiter }
+    );
+
+    console.log(`\n🎉 Profile scraping completed!`);
+    console.log(`📊 Success rate: ${successCount}/${membersWithProfiles.length}`);
+  }
+}
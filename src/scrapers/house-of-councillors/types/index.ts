@@ -0,0 +1,65 @@
+import type { PartyId } from '../../../parties';
+import type { FetchFailure } from '../../types';
+
+export type CouncillorElectionSystem = 'prefectural-district' | 'national-proportional';
+
+export interface CouncillorElection {
+  system: CouncillorElectionSystem;
+  prefecture?: string | undefined; // 単独選挙区の都道府県
+  area?: string | undefined; // 選挙区の表記 (合区は「鳥取・島根」など)
+}
+
+export interface HouseOfCouncillorsMember {
+  id?: string; // Stable member ID (see src/member-id.ts)
+  name: string;
+  furigana?: string;
+  party: string; // 正規化した政党名 (辞書にない場合は会派名のまま)
+  partyId?: PartyId;
+  faction?: string; // 議員一覧に記載された会派 (「自民」など)
+  profileUrl?: string;
+  election: CouncillorElection;
+  termEnd?: string; // 任期満了日 (YYYY-MM-DD)
+  reelectionYear?: number; // 改選年 (任期満了の年に行われる通常選挙)
+  profile?: CouncillorProfile;
+}
+
+export interface CouncillorProfile {
+  // 基本情報
+  fullName?: string;
+  furigana?: string;
+
+  // 選挙・政治情報
+  faction?: string; // 所属会派
+  electionDistrict?: string; // 選挙区・比例区
+  electionYears?: string[]; // 当選年
+  electionCount?: number;
+  termEnd?: string;
+
+  // 役職・経歴
+  positions?: string[]; // 参議院における役職等
+  biography?: string;
+
+  // 連絡先情報
+  website?: string;
+
+  // その他
+  additionalInfo?: Record<string, string>;
+}
+
+export interface HouseOfCouncillorsResult {
+  schemaVersion: number; // SCHEMA_VERSION of the release that wrote the file
+  members: HouseOfCouncillorsMember[];
+  scrapedAt: string;
+  source: 'house-of-councillors-list';
+  failures?: FetchFailure[]; // Pages that still failed after retrying
+}
+
+// Raw member data from table extraction
+export interface RawCouncillorData {
+  name: string;
+  furigana?: string;
+  party: string;
+  profileUrl?: string;
+  district: string;
+  termEnd?: string;
+}
@@ -0,0 +1,504 @@
+// Parser for the 「○」-delimited biography on 衆議院 profile pages, e.g.
+// 「…慶應義塾大学工学部卒業○通商産業政務次官、外務副大臣○自民党商工部会長、幹事長代理○衆議院外務委員長…」.
+// Each 「○」 segment usually groups one kind of career (government, party, Diet), so items
+// that only name a generic title (「幹事長代理」「予算委員長」) take the category of their segment.
+
+import { findParty } from '../../parties';
+import { getEraName, type PartialDate, parseWarekiDate } from '../../utils/wareki';
+import type { CareerCategory, CareerEntry, MemberProfile } from './types';
+
+type Positions = NonNullable<MemberProfile['currentPositions']>;
+
+export interface BiographySections {
+  heading: string; // 会派と生年月日の間に書かれた現職 (「総務副大臣」など)
+  body: string; // 生年月日以降の経歴欄
+}
+
+const BIRTH_CLAUSE_REGEX =
+  /(?:明治|大正|昭和|平成|令和|[0-9０-９〇一二三四五六七八九]{4}年)[^。○]{0,40}?(?:生まれる|生まれ|生る|出身|生)(?=[。、○\s]|$)/;
+// 「当選十三回（…）」 or the 「（令和7年3月現在）」 stamp closes the biography
+const BIOGRAPHY_END_REGEX = /○?当選[^回○、]{1,4}回|[（(](?:令和|平成)[^（）()]{1,15}現在[）)]/;
+
+// Items that describe the member rather than a position held
+const SKIP_PATTERN =
+  /(^[「『]|生まれ|出身|在住|表彰|著書|訳書|共著|共訳|編著|趣味|座右の銘|当選$|後$|には$|では$|にて$|過ごす$|する$|した$|に至る$)/;
+// Longer items are narrative sentences, not career entries
+const MAX_ITEM_LENGTH = 40;
+
+const EDUCATION_PATTERN =
+  /(?:卒業|修了|中退|退学|入学|留学|卒|修士|博士)$|(?:大学|大学院|高等学校|高校|学部|学科|研究科)$/;
+const PRIVATE_ROLE_PATTERN = /(?:秘書|秘書官|職員|社員|会社員|記者)$/;
+const PRIVATE_ORGANIZATION_PATTERN = /事務所|株式会社|（株）|有限会社|法人|協会|財団|銀行|新聞社/;
+const DIET_PATTERN = /^(?:衆議院|参議院)|審査会|訴追委員|弾劾裁判/;
+const PARTY_PATTERN = /党|[都道府県]連|ネクスト|次の内閣|影の内閣|^NC/;
+const PARTY_ROLE_PATTERN =
+  /幹事長|総裁|政務調査会|政調|部会|総務会|国会対策|選挙対策|代議士会|役員室|支部長|常任幹事|常任顧問/;
+const GOVERNMENT_PATTERN =
+  /大臣|国家公安委員|政務官|政務次官|長官|補佐官|知事|[市町村区]長$|(?:議会|市会|区会)(?:副)?議[員長]|[県市町村区]議$/;
+// Titles that exist in several kinds of organization and so follow their segment
+const GENERIC_ROLE_PATTERN =
+  /(?:委員長|委員|理事|会長|幹事|議長|本部長|局長|代表|顧問|代理|室長)(?:代理|代行)?$/;
+// A committee title outside of any segment context is most likely a Diet committee
+const DIET_ROLE_FALLBACK_PATTERN =
+  /^(?!.*(?:組合|協会|法人|会社|団体|連合)).*(?:委員長|委員|議長|委員会理事)$/;
+
+// Suffixes are tried longest first
+const ROLE_SUFFIXES: Record<CareerCategory, readonly string[]> = {
+  government: [
+    '総理大臣',
+    '大臣政務官',
+    '政務次官',
+    '副大臣',
+    '大臣',
+    '副長官',
+    '長官',
+    '補佐官',
+    '政務官',
+    '委員長',
+    '副知事',
+    '知事',
+    '副市長',
+    '市長',
+    '町長',
+    '村長',
+    '区長',
+    '副議長',
+    '議長',
+    '議員',
+  ],
+  diet: [
+    '委員長代理',
+    '副委員長',
+    '小委員長',
+    '委員長',
+    '筆頭理事',
+    '理事',
+    '委員',
+    '副議長',
+    '議長',
+    '副会長',
+    '会長',
+    '筆頭幹事',
+    '幹事',
+    '議員',
+    '裁判長',
+  ],
+  // Party titles are the whole text after the party name; see splitRole
+  party: [],
+  education: ['卒業', '修了', '中退', '退学', '入学', '留学', '卒塾', '卒'],
+  private: [
+    '代表取締役社長',
+    '代表取締役',
+    '取締役',
+    '副社長',
+    '社長',
+    '理事長',
+    '副理事長',
+    '代表理事',
+    '専務理事',
+    '常務理事',
+    '理事',
+    '副会長',
+    '会長',
+    '顧問',
+    '代表',
+    '支店長',
+    '部長',
+    '課長',
+    '所長',
+    '局長',
+    '准教授',
+    '非常勤講師',
+    '教授',
+    '講師',
+    '研究員',
+    '秘書官',
+    '秘書',
+    '職員',
+    '社員',
+    '記者',
+    '入社',
+    '入行',
+    '入省',
+    '入庁',
+    '入所',
+    '勤務',
+  ],
+};
+
+const COMMITTEE_ROLES = new Set(['委員長代理', '副委員長', '委員長', '筆頭理事', '理事', '委員']);
+
+/**
+ * Splits text at separators outside of brackets, so that 「（経済財政政策担当、科学技術政策担当）」 stays whole
+ */
+function splitOutsideBrackets(text: string, separators: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if ('（(「『'.includes(char)) depth++;
+    if ('）)」』'.includes(char)) depth = Math.max(0, depth - 1);
+
+    if (depth === 0 && separators.includes(char)) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items.map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+/**
+ * Reads a leading date or date range such as 「平成十一年一月～十二年一月」 or 「平成十四年より」
+ * @returns The dates, whether the range is open-ended (「平成二十年～」「平成二十年～現在」), and the remaining text
+ */
+function parseLeadingDates(text: string): {
+  start?: PartialDate;
+  end?: PartialDate;
+  open?: boolean;
+  rest: string;
+} {
+  const start = parseWarekiDate(text);
+  if (!start || !text.startsWith(start.raw)) {
+    return { rest: text };
+  }
+
+  let rest = text.slice(start.raw.length).replace(/^\s*(?:より|から)/, '');
+  const rangeMatch = rest.match(/^\s*[～〜~－]\s*/);
+  if (!rangeMatch) {
+    return { start, rest: rest.replace(/^[\s、]+/, '') };
+  }
+
+  rest = rest.slice(rangeMatch[0].length);
+  const era = getEraName(start);
+  const end = parseWarekiDate(rest, era ? { defaultEra: era } : {});
+  if (end && rest.startsWith(end.raw)) {
+    rest = rest.slice(end.raw.length).replace(/^\s*(?:まで)/, '');
+    return { start, end, rest: rest.replace(/^[\s、]+/, '') };
+  }
+  return { start, open: true, rest: rest.replace(/^現在/, '').replace(/^[\s、]+/, '') };
+}
+
+/**
+ * Strips markers and verbs around the title, e.g. 「現自由民主党政務調査会長（三期）等を歴任」
+ */
+function normalizeItem(text: string): string {
+  let normalized = text
+    .replace(/^(?:現在|現|元)\s*/, '')
+    .replace(/^第[^代]{1,6}代/, '')
+    .replace(/[一二三四五六七八九十]+期$/, '')
+    .replace(/[野与]党(筆頭理事|理事)$/, '$1')
+    .replace(/(卒業|修了|退職|退社)後$/, '$1')
+    .replace(/に(入社|入行|入省|入庁|入所|入学)$/, '$1')
+    .replace(
+      /(?:等|など)?(?:を歴任|歴任|に就任|に就く|となる|を務め(?:る|た)?|を経て|である|として活動|に(?:最年少|初)?当選)$/,
+      ''
+    );
+
+  // Notes such as 「（三期）」「（経済財政政策担当）」
+  while (/[（(][^（）()]*[）)]$/.test(normalized)) {
+    normalized = normalized.replace(/\s*[（(][^（）()]*[）)]$/, '');
+  }
+  return normalized.trim();
+}
+
+/**
+ * Category from the text alone, or undefined when only a generic title is given
+ */
+function classifyExplicit(text: string): CareerCategory | undefined {
+  if (EDUCATION_PATTERN.test(text)) return 'education';
+  if (PRIVATE_ROLE_PATTERN.test(text)) return 'private';
+  if (DIET_PATTERN.test(text)) return 'diet';
+  if (findParty(text) || PARTY_PATTERN.test(text) || PARTY_ROLE_PATTERN.test(text)) return 'party';
+  if (PRIVATE_ORGANIZATION_PATTERN.test(text)) return 'private';
+  if (GOVERNMENT_PATTERN.test(text)) return 'government';
+  return undefined;
+}
+
+function splitBySuffix(
+  text: string,
+  suffixes: readonly string[]
+): { role: string; organization: string } | null {
+  const suffix = [...suffixes]
+    .sort((a, b) => b.length - a.length)
+    .find((candidate) => text.endsWith(candidate));
+  if (!suffix) return null;
+  return { role: suffix, organization: text.slice(0, -suffix.length).replace(/[・\s]+$/, '') };
+}
+
+/**
+ * Splits an item into the title and the organization it was held in
+ */
+function splitRole(
+  text: string,
+  category: CareerCategory,
+  partyName: string | undefined
+): { role: string; organization: string } {
+  if (category === 'party') {
+    const party = findParty(text);
+    if (party) {
+      // Strip the longest spelling of the party that appears in the text
+      const spelling = [party.name, party.shortName, ...party.aliases]
+        .filter((name) => text.includes(name))
+        .sort((a, b) => b.length - a.length)[0];
+      const role = spelling ? text.replace(spelling, '').replace(/^[・―ー－\s]+/, '') : text;
+      // The party name alone records membership
+      return { role: role || '党員', organization: party.name };
+    }
+
+    // 「日本新党常任幹事」, or 「党国会対策委員長」 for the member's own party
+    const namedParty = text.match(/^(.+?党)(.+)$/);
+    if (namedParty?.[1] && namedParty[2] && !['党', '同党'].includes(namedParty[1])) {
+      return { role: namedParty[2], organization: namedParty[1] };
+    }
+    return { role: text.replace(/^同?党/, '') || text, organization: partyName ?? '' };
+  }
+
+  const split = splitBySuffix(text, ROLE_SUFFIXES[category]);
+  if (!split) {
+    return { role: text, organization: '' };
+  }
+
+  // 「予算委員長」 is the chair of 予算委員会, 「政治倫理審査会長」 of 政治倫理審査会
+  if (category === 'diet' && split.organization && !/[会院所]$/.test(split.organization)) {
+    if (COMMITTEE_ROLES.has(split.role)) {
+      const committee = split.organization.endsWith('委')
+        ? `${split.organization}員会`
+        : `${split.organization}委員会`;
+      return { role: split.role, organization: committee };
+    }
+    if (split.role.endsWith('会長')) {
+      return { role: split.role, organization: `${split.organization}会` };
+    }
+  }
+  return split;
+}
+
+/**
+ * Separates the biography from the page text around it
+ * @param text - Profile page text, e.g. 「小選挙区（岡山県第一区）選出、自由民主党・無所属の会 昭和二十九年六月…（令和7年3月現在）」
+ * @param partyAffiliation - 会派 name that precedes the biography
+ * @returns The current titles listed before the birth date, and the biography after it
+ */
+export function extractBiographySections(
+  text: string,
+  partyAffiliation?: string
+): BiographySections {
+  let biography = text;
+
+  const electedIndex = biography.indexOf('選出、');
+  if (electedIndex >= 0) {
+    biography = biography.slice(electedIndex + '選出、'.length);
+  }
+  if (partyAffiliation && biography.startsWith(partyAffiliation)) {
+    biography = biography.slice(partyAffiliation.length);
+  }
+
+  const endMatch = biography.match(BIOGRAPHY_END_REGEX);
+  if (endMatch?.index !== undefined) {
+    biography = biography.slice(0, endMatch.index);
+  }
+  biography = biography.trim();
+
+  // The birth clause is always in the first segment
+  const firstSegmentEnd = biography.indexOf('○');
+  const firstSegment = firstSegmentEnd >= 0 ? biography.slice(0, firstSegmentEnd) : biography;
+  const birthMatch = firstSegment.match(BIRTH_CLAUSE_REGEX);
+  if (birthMatch?.index === undefined) {
+    return { heading: '', body: biography };
+  }
+
+  return {
+    heading: biography.slice(0, birthMatch.index).trim(),
+    body: biography
+      .slice(birthMatch.index + birthMatch[0].length)
+      .replace(/^[\s、。]+/, '')
+      .trim(),
+  };
+}
+
+/**
+ * Parses a 「○」-delimited biography into career entries, in the order they are listed
+ * @param biography - Biography text, e.g. 「○通商産業政務次官、外務副大臣○平成二十九年四月、経済産業大臣政務官に就任」
+ * @param options.partyAffiliation - The member's 会派, used for titles written as 「党…」
+ * @param options.current - Marks every entry as currently held, for the titles listed before the birth date
+ */
+export function parseCareerTimeline(
+  biography: string,
+  options: { partyAffiliation?: string; current?: boolean } = {}
+): CareerEntry[] {
+  const entries: CareerEntry[] = [];
+  const ownParty = findParty(options.partyAffiliation)?.name;
+
+  for (const segment of biography.split('○')) {
+    let segmentCategory: CareerCategory | undefined;
+    let segmentParty = ownParty;
+    let pending: { start?: PartialDate; end?: PartialDate; open?: boolean } = {};
+    let previousItemEntries: CareerEntry[] = [];
+    const items = splitOutsideBrackets(segment, '。').flatMap((sentence) =>
+      splitOutsideBrackets(sentence, '、，').map((item, index) => ({
+        item,
+        startsSentence: index === 0,
+      }))
+    );
+    let current = options.current ?? false;
+
+    for (const { item, startsSentence } of items) {
+      // 「現在、」 applies until the end of its sentence
+      if (startsSentence) current = options.current ?? false;
+
+      // 「…大臣政務官、現在に至る」: the previous item is still held
+      if (/^現在に至る/.test(item)) {
+        for (const entry of previousItemEntries) entry.current = true;
+        continue;
+      }
+      // 「現在、衆議院内閣委員、議院運営委員」: the rest of the sentence is held now
+      const currentMarker = item.match(/^現在(?:は|も)?[、\s]*/);
+      if (currentMarker) current = true;
+      const text = currentMarker ? item.slice(currentMarker[0].length) : item;
+      if (!text) continue;
+
+      const { start, end, open, rest } = parseLeadingDates(text);
+      // A date on its own applies to the next item: 「平成二十九年四月、経済産業大臣政務官に就任」
+      if (!rest) {
+        pending = { ...(start && { start }), ...(end && { end }), ...(open && { open }) };
+        continue;
+      }
+      const { open: pendingOpen, ...pendingDates } = pending;
+      const dates = start ? { start, ...(end && { end }) } : pendingDates;
+      const isOpen = start ? open === true : pendingOpen === true;
+      pending = {};
+
+      const held = current || isOpen || /^現(?!在)/.test(rest) || /[（(]現職?[）)]$/.test(rest);
+
+      const party = findParty(rest);
+      if (party && party.id !== 'independent') {
+        segmentParty = party.name;
+      }
+      if (SKIP_PATTERN.test(rest) || rest.length > MAX_ITEM_LENGTH) continue;
+
+      // 「経済産業副大臣兼内閣府副大臣」 is two positions held together,
+      // 「参議院議員秘書を経て衆議院議員となる」 two held one after the other
+      const parts = rest.split(/を経て/).flatMap((step) => normalizeItem(step).split('兼'));
+      previousItemEntries = [];
+      for (const part of parts) {
+        const title = part.trim();
+        // Titles end in a noun; a trailing kana is the end of a sentence such as 「…の専従となり」
+        if (!title || /[ぁ-ゖ]$/.test(title)) continue;
+
+        const explicit = classifyExplicit(title);
+        if (explicit && explicit !== 'education' && explicit !== 'private') {
+          segmentCategory = explicit;
+        }
+        const category =
+          explicit ??
+          (GENERIC_ROLE_PATTERN.test(title)
+            ? (segmentCategory ?? (DIET_ROLE_FALLBACK_PATTERN.test(title) ? 'diet' : 'private'))
+            : 'private');
+
+        const entry: CareerEntry = {
+          ...dates,
+          ...splitRole(title, category, segmentParty),
+          category,
+          ...(held && { current: true }),
+          raw: item,
+        };
+        entries.push(entry);
+        previousItemEntries.push(entry);
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Compares ISO dates of any precision; a year is treated as its first day
+ */
+function isOnOrAfter(date: string, since: string): boolean {
+  return date >= since || since.startsWith(date);
+}
+
+/**
+ * Filters a career timeline, e.g. everyone who has served as 副大臣 since 2020
+ * @param timeline - Parsed career entries
+ * @param filter.role - Exact title, e.g. 副大臣
+ * @param filter.since - ISO date; keeps current entries and those that ended, or started without a known end, on or after it
+ */
+export function filterCareerTimeline(
+  timeline: readonly CareerEntry[],
+  filter: { role?: string; category?: CareerCategory; since?: string }
+): CareerEntry[] {
+  return timeline.filter((entry) => {
+    if (filter.role && entry.role !== filter.role) return false;
+    if (filter.category && entry.category !== filter.category) return false;
+    if (filter.since && !entry.current) {
+      const lastKnown = entry.end ?? entry.start;
+      if (!lastKnown || !isOnOrAfter(lastKnown.date, filter.since)) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Title as written in the biography, e.g. 「外務副大臣」「予算委員会委員長」「自由民主党幹事長代理」
+ */
+function formatPosition(entry: CareerEntry): string {
+  return entry.organization ? `${entry.organization}${entry.role}` : entry.role;
+}
+
+/**
+ * Sorts the government, party and Diet posts of a career timeline into current and previous positions
+ * @param timeline - Parsed career entries
+ * @param asOf - The page's 「現在」 stamp; a post whose end date is on or after it is still held
+ */
+export function groupPositions(
+  timeline: readonly CareerEntry[],
+  asOf?: PartialDate
+): { currentPositions?: Positions; previousPositions?: Positions } {
+  const current: Positions = {};
+  const previous: Positions = {};
+
+  for (const entry of timeline) {
+    if (
+      entry.category !== 'government' &&
+      entry.category !== 'party' &&
+      entry.category !== 'diet'
+    ) {
+      continue;
+    }
+    // Party membership alone is not a position
+    if (entry.role === '党員') continue;
+
+    const isCurrent =
+      entry.current === true ||
+      (asOf !== undefined && entry.end !== undefined && isOnOrAfter(entry.end.date, asOf.date));
+    const target = isCurrent ? current : previous;
+    const positions = target[entry.category] ?? [];
+    const position = formatPosition(entry);
+    if (!positions.includes(position)) {
+      positions.push(position);
+    }
+    target[entry.category] = positions;
+  }
+
+  // A post held now is not also a previous one
+  for (const category of ['government', 'party', 'diet'] as const) {
+    const held = current[category];
+    const past = previous[category]?.filter((position) => !held?.includes(position));
+    if (past && past.length > 0) {
+      previous[category] = past;
+    } else {
+      delete previous[category];
+    }
+  }
+
+  return {
+    ...(Object.keys(current).length > 0 && { currentPositions: current }),
+    ...(Object.keys(previous).length > 0 && { previousPositions: previous }),
+  };
+}
@@ -0,0 +1,269 @@
+import type { Page } from 'playwright';
+import { normalizeMemberFurigana, normalizeMemberName } from '../../utils/member-name';
+import { BrowserScraper } from '../base';
+import { HOUSE_OF_REPRESENTATIVES_CONFIG } from './constants';
+import type {
+  CommitteeRole,
+  CommitteeRoster,
+  CommitteeRosterResult,
+  HouseOfRepresentativesMember,
+  RawCommitteeMember,
+} from './types';
+
+/**
+ * Maps the 役職 column of a 委員名簿 to a committee role; an empty cell means an ordinary member
+ */
+export function parseCommitteeRole(text: string | undefined): CommitteeRole {
+  const role = text?.replace(/\s+/g, '') ?? '';
+  if (role.includes('委員長')) return 'chair';
+  if (role.includes('理事')) return 'director';
+  return 'member';
+}
+
+/**
+ * Stable ID for a committee: a fixed slug for 常任委員会, the page code (e.g. "iin_t0010") otherwise
+ */
+export function getCommitteeId(name: string, url: string): string {
+  const standingIds: Record<string, string> =
+    HOUSE_OF_REPRESENTATIVES_CONFIG.STANDING_COMMITTEE_IDS;
+  const standingId = standingIds[name];
+  if (standingId) return standingId;
+
+  const pageCode = url
+    .split('/')
+    .pop()
+    ?.replace(/\.html?$/, '');
+  return pageCode || name;
+}
+
+/**
+ * Attaches committee memberships to members, matched by name and, for namesakes or
+ * differently spelled names, by furigana
+ * @param members - Members from the 議員一覧; `committees` is (re)set on each matched member
+ * @param rosters - Scraped 委員名簿
+ * @returns Roster rows that matched no member, so that they can be reported
+ */
+export function attachCommittees(
+  members: HouseOfRepresentativesMember[],
+  rosters: CommitteeRoster[]
+): { committee: string; member: RawCommitteeMember }[] {
+  const byName = new Map<string, HouseOfRepresentativesMember[]>();
+  const byFurigana = new Map<string, HouseOfRepresentativesMember[]>();
+  for (const member of members) {
+    const nameKey = normalizeMemberName(member.name);
+    byName.set(nameKey, [...(byName.get(nameKey) ?? []), member]);
+    if (member.furigana) {
+      const furiganaKey = normalizeMemberFurigana(member.furigana);
+      byFurigana.set(furiganaKey, [...(byFurigana.get(furiganaKey) ?? []), member]);
+    }
+    delete member.committees;
+  }
+
+  const unmatched: { committee: string; member: RawCommitteeMember }[] = [];
+  for (const roster of rosters) {
+    for (const rosterMember of roster.members) {
+      const furiganaKey = rosterMember.furigana
+        ? normalizeMemberFurigana(rosterMember.furigana)
+        : undefined;
+      const sameName = byName.get(normalizeMemberName(rosterMember.name)) ?? [];
+      const sameFurigana = furiganaKey ? (byFurigana.get(furiganaKey) ?? []) : [];
+
+      let match: HouseOfRepresentativesMember | undefined;
+      if (sameName.length === 1) {
+        match = sameName[0];
+      } else if (sameName.length > 1) {
+        // Namesakes: the reading decides
+        const candidates = sameName.filter((member) => sameFurigana.includes(member));
+        match = candidates.length === 1 ? candidates[0] : undefined;
+      } else if (sameFurigana.length === 1) {
+        // Spelled differently on the two pages, e.g. 「髙」 and 「高」 outside the variant table
+        match = sameFurigana[0];
+      }
+
+      if (!match) {
+        unmatched.push({ committee: roster.name, member: rosterMember });
+        continue;
+      }
+
+      match.committees = [
+        ...(match.committees ?? []),
+        { id: roster.id, name: roster.name, role: rosterMember.role },
+      ];
+    }
+  }
+
+  return unmatched;
+}
+
+export class HouseOfRepresentativesCommitteeScraper extends BrowserScraper {
+  /**
+   * Scrapes the 委員名簿 of every standing and special committee listed on the 委員会一覧
+   * @returns Promise<CommitteeRosterResult> - One roster per committee
+   */
+  async scrapeAllCommittees(): Promise<CommitteeRosterResult> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized. Call initialize() or useBrowser() first.');
+    }
+
+    const page = await this.newPage();
+    const committees: CommitteeRoster[] = [];
+
+    try {
+      console.log('Scraping House of Representatives committee list...');
+      await page.goto(HOUSE_OF_REPRESENTATIVES_CONFIG.URLS.COMMITTEE_LIST, {
+        waitUntil: 'domcontentloaded',
+      });
+      const links = await this.extractCommitteeLinks(page);
+      console.log(`Found ${links.length} committees`);
+
+      for (const link of links) {
+        const roster = await this.scrapeCommittee(link.url, link.name);
+        if (roster) {
+          committees.push(roster);
+          console.log(`✓ ${roster.name}: ${roster.members.length} members`);
+        } else {
+          console.log(`✗ ${link.name} - Failed`);
+        }
+      }
+    } finally {
+      await page.close();
+    }
+
+    if (committees.length === 0) {
+      throw new Error('No committee rosters were scraped. The website structure may have changed.');
+    }
+
+    return {
+      committees,
+      scrapedAt: new Date().toISOString(),
+      source: 'house-of-representatives-committees',
+    };
+  }
+
+  /**
+   * Scrapes one committee's 委員名簿
+   * @param url - Roster page, or the committee page that links to it
+   * @param name - Committee name from the 委員会一覧
+   * @returns Promise<CommitteeRoster | null> - The roster, or null if the page could not be read
+   */
+  async scrapeCommittee(url: string, name: string): Promise<CommitteeRoster | null> {
+    if (!this.browser) {
+      return null;
+    }
+
+    const page = await this.newPage();
+
+    try {
+      await page.goto(url, { waitUntil: 'domcontentloaded' });
+      let rosterUrl = url;
+      let members = await this.extractRosterFromPage(page);
+
+      // Some committee pages link to a separate 委員名簿 page
+      if (members.length === 0) {
+        const rosterLink = page.locator('a', { hasText: '名簿' }).first();
+        const href = (await rosterLink.count()) > 0 ? await rosterLink.getAttribute('href') : null;
+        if (href) {
+          rosterUrl = new URL(href, url).toString();
+          await page.goto(rosterUrl, { waitUntil: 'domcontentloaded' });
+          members = await this.extractRosterFromPage(page);
+        }
+      }
+
+      if (members.length === 0) {
+        console.warn(`No roster found for ${name} (${url})`);
+        return null;
+      }
+
+      return {
+        id: getCommitteeId(name, rosterUrl),
+        name,
+        type: name.includes('特別委員会') ? 'special' : 'standing',
+        url: rosterUrl,
+        members,
+      };
+    } catch (error) {
+      console.error(`Failed to scrape committee ${name} (${url}):`, error);
+      return null;
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Collects links to each committee from the 委員会一覧
+   */
+  private async extractCommitteeLinks(page: Page): Promise<{ name: string; url: string }[]> {
+    const anchors = await page.locator('a').all();
+    const links: { name: string; url: string }[] = [];
+    const seenUrls = new Set<string>();
+
+    for (const anchor of anchors) {
+      const name = (await anchor.textContent())?.replace(/\s+/g, '') ?? '';
+      const href = (await anchor.getAttribute('href'))?.trim();
+      if (!href || !/委員会$/.test(name)) continue;
+
+      const url = new URL(href, page.url()).toString();
+      if (seenUrls.has(url)) continue;
+      seenUrls.add(url);
+      links.push({ name, url });
+    }
+
+    return links;
+  }
+
+  /**
+   * Reads the roster table: 役職 / 氏名 / ふりがな / 会派
+   */
+  private async extractRosterFromPage(page: Page): Promise<RawCommitteeMember[]> {
+    const rows = await page.locator('table tr').all();
+    const members: RawCommitteeMember[] = [];
+    const seenMembers = new Set<string>();
+
+    // Default column order of the 委員名簿
+    const columns = { role: 0, name: 1, furigana: 2, faction: 3 };
+    let hasHeader = false;
+
+    for (const row of rows) {
+      const headerCells = await row.locator('th').allTextContents();
+      if (headerCells.length > 1) {
+        headerCells.forEach((text, index) => {
+          const t = text.replace(/\s+/g, '');
+          if (t.includes('役職') || t.includes('職名')) columns.role = index;
+          else if (t.includes('氏名')) columns.name = index;
+          else if (t.includes('ふりがな') || t.includes('読み')) columns.furigana = index;
+          else if (t.includes('会派')) columns.faction = index;
+        });
+        hasHeader = true;
+        continue;
+      }
+
+      const cells = (await row.locator('td').allTextContents()).map((text) =>
+        text.replace(/[\s　]+/g, ' ').trim()
+      );
+      if (cells.length < 2) continue;
+
+      let name = cells[columns.name] ?? '';
+      let furigana = cells[columns.furigana];
+      // 「大岡 敏孝（おおおか としたか）」 in a single cell
+      const combined = name.match(/^([^（(]+)[（(]([^）)]+)[）)]$/);
+      if (combined?.[1] && combined[2]) {
+        name = combined[1].trim();
+        furigana = combined[2].trim();
+      }
+      // Skip a header written with td cells, and repeated rows
+      if (!name || name.replace(/\s/g, '') === '氏名' || seenMembers.has(name)) continue;
+      if (!hasHeader && !/[一-龯々ぁ-んァ-ヶ]/.test(name)) continue;
+      seenMembers.add(name);
+
+      const faction = cells[columns.faction];
+      members.push({
+        name,
+        role: parseCommitteeRole(cells[columns.role]),
+        ...(furigana && { furigana }),
+        ...(faction && { faction }),
+      });
+    }
+
+    return members;
+  }
+}
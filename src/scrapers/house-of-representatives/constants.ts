@@ -15,9 +15,31 @@ export const HOUSE_OF_REPRESENTATIVES_CONFIG = {
       'https://www.shugiin.go.jp/internet/itdb_annai.nsf/html/statics/syu/9giin.htm', // ら行
       'https://www.shugiin.go.jp/internet/itdb_annai.nsf/html/statics/syu/10giin.htm', // わ行
     ],
+    // 委員会一覧; each committee links to its 委員名簿
+    COMMITTEE_LIST: 'https://www.shugiin.go.jp/internet/itdb_iinkai.nsf/html/iinkai/list.htm',
   },
   TIMEOUTS: {
     PAGE_LOAD: 3000,
   },
+  // Stable IDs for the 常任委員会; 特別委員会 change between sessions and use their page code
+  STANDING_COMMITTEE_IDS: {
+    内閣委員会: 'cabinet',
+    総務委員会: 'internal-affairs',
+    法務委員会: 'judicial-affairs',
+    外務委員会: 'foreign-affairs',
+    財務金融委員会: 'financial-affairs',
+    文部科学委員会: 'education-science',
+    厚生労働委員会: 'health-labour-welfare',
+    農林水産委員会: 'agriculture-forestry-fisheries',
+    経済産業委員会: 'economy-trade-industry',
+    国土交通委員会: 'land-infrastructure-transport-tourism',
+    環境委員会: 'environment',
+    安全保障委員会: 'security',
+    国家基本政策委員会: 'fundamental-national-policies',
+    予算委員会: 'budget',
+    決算行政監視委員会: 'audit-oversight',
+    議院運営委員会: 'rules-administration',
+    懲罰委員会: 'discipline',
+  },
   SYLLABARY_NAMES: ['あ行', 'か行', 'さ行', 'た行', 'な行', 'は行', 'ま行', 'や行', 'ら行', 'わ行'],
 } as const;
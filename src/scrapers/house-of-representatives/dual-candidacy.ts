@@ -0,0 +1,52 @@
+// Finds the 小選挙区 a 比例 member also stood in (重複立候補). The 選出 line only names the
+// block (「比例代表（中国）選出」), so the district is read from the biography that follows it:
+// members name it through the party branch they head (「立憲民主党広島県第三区総支部長」,
+// 「神奈川十九区総支部長として」) or their candidacy (「東京都第五区から立候補」).
+// The profile pages do not publish the 惜敗率, so it is not recorded.
+
+import { PREFECTURES } from '../../constants';
+import { getDistrict, getPrefectureBlock } from '../../districts';
+import { JAPANESE_NUMERAL_CHARS, parseJapaneseNumber } from '../../utils/japanese-number';
+import type { MemberProfile } from './types';
+
+// A district followed by what ties the member to it; 「（沖縄一区選出）」 names someone else's seat
+const DISTRICT_MENTION_REGEX = new RegExp(
+  `(${PREFECTURES.join('|')})[都道府県]?第?([${JAPANESE_NUMERAL_CHARS}]+)区(?:総支部|選挙区支部|支部|から|より)`,
+  'g'
+);
+
+type DualCandidacyText = Pick<
+  MemberProfile,
+  'electionDistrict' | 'biography' | 'careerHistory' | 'electionHistory'
+>;
+
+/**
+ * Registry id of the 小選挙区 a 比例 member also ran in
+ * @param profile - Profile with the 選出 line, biography and election history
+ * @param area - The member's 比例 block (「中国」); districts outside it are ignored
+ * @returns The district id (「hiroshima-3」) of the latest mention, or undefined when the
+ * profile names none
+ */
+export function parseDualCandidacyDistrict(
+  profile: DualCandidacyText,
+  area?: string
+): string | undefined {
+  const biography = profile.biography ?? profile.careerHistory ?? '';
+  const selected = profile.electionDistrict ? biography.indexOf(profile.electionDistrict) : -1;
+  const text = [
+    selected >= 0 ? biography.slice(selected) : biography,
+    profile.electionHistory ?? '',
+  ].join('\n');
+
+  let districtId: string | undefined;
+  for (const match of text.matchAll(DISTRICT_MENTION_REGEX)) {
+    const [, prefecture = '', numeral] = match;
+    const number = parseJapaneseNumber(numeral);
+    const district = number === null ? undefined : getDistrict(prefecture, number);
+    if (district && (!area || getPrefectureBlock(prefecture)?.name === area)) {
+      // Biographies run in time order, so the last branch named is the current one
+      districtId = district.id;
+    }
+  }
+  return districtId;
+}
@@ -1,3 +1,12 @@
+export {
+  extractBiographySections,
+  filterCareerTimeline,
+  parseCareerTimeline,
+} from './career';
+export {
+  attachCommittees,
+  HouseOfRepresentativesCommitteeScraper,
+} from './committees';
 export { HOUSE_OF_REPRESENTATIVES_CONFIG } from './constants';
 export { HouseOfRepresentativesScraper } from './scraper';
 export type * from './types';
@@ -1,77 +1,85 @@
-import { type Browser, chromium, type Page } from 'playwright';
-import { PREFECTURES } from '../../constants';
+import type { ArchiveQuery, HtmlArchive } from '../../archive';
+import { PREFECTURES, SCHEMA_VERSION } from '../../constants';
+import { lookupElectionDistrict } from '../../districts';
+import { ProfileJournal } from '../../journal';
+import { findParty, normalizeParty } from '../../parties';
+import { parseJapaneseNumber } from '../../utils/japanese-number';
+import { type PartialDate, parseWarekiDate } from '../../utils/wareki';
+import { runWorkerPool } from '../../utils/worker-pool';
+import { BrowserScraper } from '../base';
+import { formatDiagnosticCounts, summarizeDiagnostics } from '../diagnostics';
+import type {
+  ChamberScrapeOptions,
+  ChamberScraper,
+  FetchFailure,
+  HtmlDocument,
+  MemberDiagnostic,
+  PageTransport,
+  ScrapeDiagnostics,
+} from '../types';
+import { extractBiographySections, groupPositions, parseCareerTimeline } from './career';
+import { attachCommittees, HouseOfRepresentativesCommitteeScraper } from './committees';
 import { HOUSE_OF_REPRESENTATIVES_CONFIG } from './constants';
+import { parseDualCandidacyDistrict } from './dual-candidacy';
 import type {
+  CommitteeRosterResult,
+  Election,
   HouseOfRepresentativesMember,
   HouseOfRepresentativesResult,
   MemberProfile,
   RawMemberData,
+  UnknownDistrict,
 } from './types';
 
-export class HouseOfRepresentativesScraper {
-  private browser: Browser | null = null;
-  private ownsBrowser = false;
-
-  async initialize(): Promise<void> {
-    if (this.browser) return; // already injected
-    this.browser = await chromium.launch({
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-    });
-    this.ownsBrowser = true;
-  }
-
-  async close(): Promise<void> {
-    if (this.browser && this.ownsBrowser) {
-      await this.browser.close();
-    }
-    this.browser = null;
-  }
+export class HouseOfRepresentativesScraper
+  extends BrowserScraper
+  implements ChamberScraper<HouseOfRepresentativesResult>
+{
+  readonly id = 'house-of-representatives';
+  readonly displayName = '衆議院';
+  private archive: HtmlArchive | null = null;
+  private transport: PageTransport = 'browser';
 
-  // Share external browser (owned by caller)
-  public useBrowser(browser: Browser): void {
-    this.browser = browser;
-    this.ownsBrowser = false;
+  /**
+   * Selects how member list and profile pages are fetched. With `http` no browser is
+   * needed; if one is available it is used as a fallback for pages that fail over HTTP.
+   */
+  useTransport(transport: PageTransport): void {
+    this.transport = transport;
   }
 
   /**
-   * Create a new Playwright page using the internal browser instance.
-   * Throws if initialize() hasn't been called.
+   * Saves the raw HTML of every member list and profile page fetched from now on
    */
-  public async newPage(): Promise<Page> {
-    if (!this.browser) {
-      throw new Error('Browser not initialized. Call initialize() or useBrowser() first.');
-    }
-    return this.browser.newPage();
+  useArchive(archive: HtmlArchive | null): void {
+    this.archive = archive;
   }
 
   /**
-   * For tests: force-close the underlying browser without changing public API.
+   * ChamberScraper entry point; see scrapeHouseOfRepresentativesWithProfiles
    */
-  public async forceCloseBrowserForTest(): Promise<void> {
-    if (this.browser && this.ownsBrowser) {
-      await this.browser.close();
-    }
-    this.browser = null;
+  async scrape(options: ChamberScrapeOptions = {}): Promise<HouseOfRepresentativesResult> {
+    return this.scrapeHouseOfRepresentativesWithProfiles(options);
   }
 
   /**
    * Main method to scrape House of Representatives members from all pages
    */
   async scrapeAllPages(): Promise<HouseOfRepresentativesResult> {
-    if (!this.browser) {
+    if (this.transport === 'browser' && !this.browser) {
       throw new Error('Browser not initialized. Call initialize() or useBrowser() first.');
     }
 
-    const page = await this.browser.newPage();
     const processedMembers: HouseOfRepresentativesMember[] = [];
+    const unknownDistricts: UnknownDistrict[] = [];
+    const pages = HOUSE_OF_REPRESENTATIVES_CONFIG.URLS.ALL_PAGES;
+    let failures: FetchFailure[] = [];
     let totalRawMembers = 0;
 
     try {
       console.log('Scraping House of Representatives list from all pages...');
 
       // Scrape all pages (あ行 through わ行)
-      const pages = HOUSE_OF_REPRESENTATIVES_CONFIG.URLS.ALL_PAGES;
       const syllabaryNames = HOUSE_OF_REPRESENTATIVES_CONFIG.SYLLABARY_NAMES;
 
       for (const [pageIndex, pageUrl] of pages.entries()) {
@@ -80,49 +88,53 @@ export class HouseOfRepresentativesScraper {
 --- Scraping page ${pageIndex + 1}/${pages.length}: ${syllabaryNames[pageIndex]} ---`
         );
 
-        await page.goto(pageUrl, {
-          waitUntil: 'domcontentloaded',
-        });
-        await page.waitForSelector('table', {
-          timeout: HOUSE_OF_REPRESENTATIVES_CONFIG.TIMEOUTS.PAGE_LOAD,
-        });
+        let rawMemberData: RawMemberData[];
+        try {
+          rawMemberData = await this.loadDocument(pageUrl, {
+            waitForSelector: 'table',
+            parse: async (document) => {
+              if (this.archive) {
+                this.archive.save(pageUrl, await document.content(), 'member-list');
+              }
+              const rows = await this.extractMembersFromPage(document);
+              return rows.length > 0 ? rows : null;
+            },
+          });
+        } catch (error) {
+          // Keep the other pages; the failure is reported in the result
+          console.error(
+            `✗ Failed to scrape ${syllabaryNames[pageIndex]} page (${pageUrl}):`,
+            error
+          );
+          continue;
+        }
 
-        const rawMemberData = await this.extractMembersFromPage(page);
         console.log(
           `Found ${rawMemberData.length} raw members on ${syllabaryNames[pageIndex]} page`
         );
         totalRawMembers += rawMemberData.length;
-
-        for (const member of rawMemberData) {
-          if (!this.validateMemberData(member)) {
-            continue;
-          }
-
-          try {
-            console.log(
-              `Processing member ${processedMembers.length + 1}: ${member.name.full} (${syllabaryNames[pageIndex]})`
-            );
-
-            const electionInfo = this.parseElectionInfo(member.prefecture);
-            const processedMember: HouseOfRepresentativesMember = {
-              name: member.name.full,
-              party: member.party,
-              ...electionInfo,
-              ...(member.furigana && { furigana: this.normalizeFurigana(member.furigana) }),
-              ...(member.profileUrl && { profileUrl: member.profileUrl }),
-              ...(member.electionCount && { electionCount: member.electionCount }),
-            };
-
-            processedMembers.push(processedMember);
-          } catch (error) {
-            console.warn(`Failed to process member: ${member.name?.full}`, error);
-          }
-        }
+        processedMembers.push(
+          ...this.processRawMembers(
+            rawMemberData,
+            syllabaryNames[pageIndex],
+            processedMembers.length,
+            unknownDistricts
+          )
+        );
       }
 
+      failures = this.collectFailures(pages);
       console.log(`\n=== Summary ===`);
       console.log(`Total raw members found across all pages: ${totalRawMembers}`);
       console.log(`Successfully processed: ${processedMembers.length} members`);
+      if (failures.length > 0) {
+        console.log(`⚠️  ${failures.length}/${pages.length} pages failed`);
+      }
+      if (unknownDistricts.length > 0) {
+        console.log(
+          `⚠️  ${unknownDistricts.length} members have a district that is not in the registry`
+        );
+      }
 
       if (processedMembers.length === 0) {
         throw new Error('No valid members were scraped. The website structure may have changed.');
@@ -130,14 +142,146 @@ export class HouseOfRepresentativesScraper {
     } catch (error) {
       console.error('Error scraping House of Representatives list:', error);
       throw error;
-    } finally {
-      await page.close();
     }
 
+    this.assignMemberIds(processedMembers);
     return {
+      schemaVersion: SCHEMA_VERSION,
       members: processedMembers,
       scrapedAt: new Date().toISOString(),
       source: 'house-of-representatives-list',
+      ...(failures.length > 0 && { failures }),
+      ...(unknownDistricts.length > 0 && { unknownDistricts }),
+    };
+  }
+
+  /**
+   * Converts the rows of one member list page into member records, skipping invalid rows
+   * @param rawMemberData - Rows from extractMembersFromPage
+   * @param pageLabel - Syllabary name of the page, for logging
+   * @param offset - Number of members processed before this page, for logging
+   * @param unknownDistricts - Collects the members whose 選挙区 is not in the registry
+   */
+  private processRawMembers(
+    rawMemberData: RawMemberData[],
+    pageLabel: string | undefined,
+    offset: number,
+    unknownDistricts: UnknownDistrict[]
+  ): HouseOfRepresentativesMember[] {
+    const processedMembers: HouseOfRepresentativesMember[] = [];
+
+    for (const member of rawMemberData) {
+      if (!this.validateMemberData(member)) {
+        continue;
+      }
+
+      try {
+        console.log(
+          `Processing member ${offset + processedMembers.length + 1}: ${member.name.full} (${pageLabel})`
+        );
+
+        const electionInfo = this.parseElectionInfo(member.prefecture);
+        const processedMember: HouseOfRepresentativesMember = {
+          name: member.name.full,
+          ...normalizeParty(member.party),
+          ...electionInfo,
+          election: {
+            ...electionInfo.election,
+            ...this.lookupDistrict(member, electionInfo.election, unknownDistricts),
+          },
+          ...(member.furigana && { furigana: this.normalizeFurigana(member.furigana) }),
+          ...(member.profileUrl && { profileUrl: member.profileUrl }),
+          ...(member.electionCount && { electionCount: member.electionCount }),
+        };
+
+        processedMembers.push(processedMember);
+      } catch (error) {
+        console.warn(`Failed to process member: ${member.name?.full}`, error);
+      }
+    }
+
+    return processedMembers;
+  }
+
+  /**
+   * Rebuilds the member list and profiles from archived HTML without network access,
+   * so that parser fixes can be applied to earlier runs
+   * @param archive - Archive written by earlier runs
+   * @param options - `asOf` picks the latest pages fetched at or before that time (default: latest)
+   * @returns Promise<HouseOfRepresentativesResult> - Members as of the archived pages
+   */
+  async reparseArchive(
+    archive: HtmlArchive,
+    options: Pick<ArchiveQuery, 'asOf'> = {}
+  ): Promise<HouseOfRepresentativesResult> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized. Call initialize() or useBrowser() first.');
+    }
+
+    const listEntries = archive.latest({ ...options, kind: 'member-list' });
+    if (listEntries.length === 0) {
+      throw new Error(`No archived member list pages found in ${archive.dir}`);
+    }
+
+    // Archived HTML is loaded with setContent, so block every request the pages make
+    const context = await this.browser.newContext({ offline: true, javaScriptEnabled: false });
+    const page = await context.newPage();
+    const members: HouseOfRepresentativesMember[] = [];
+    const unknownDistricts: UnknownDistrict[] = [];
+    let scrapedAt = '';
+
+    try {
+      const syllabaryNames = HOUSE_OF_REPRESENTATIVES_CONFIG.SYLLABARY_NAMES;
+      const pages: readonly string[] = HOUSE_OF_REPRESENTATIVES_CONFIG.URLS.ALL_PAGES;
+      for (const entry of listEntries) {
+        console.log(`Reparsing ${entry.url} (fetched ${entry.fetchedAt})`);
+        await page.setContent(archive.load(entry.hash));
+        const rawMemberData = await this.extractMembersFromPage(page);
+        members.push(
+          ...this.processRawMembers(
+            rawMemberData,
+            syllabaryNames[pages.indexOf(entry.url)] ?? entry.url,
+            members.length,
+            unknownDistricts
+          )
+        );
+        scrapedAt = entry.fetchedAt > scrapedAt ? entry.fetchedAt : scrapedAt;
+      }
+
+      const profileEntries = new Map(
+        archive.latest({ ...options, kind: 'profile' }).map((entry) => [entry.url, entry])
+      );
+      let profileCount = 0;
+      for (const member of members) {
+        const entry = member.profileUrl ? profileEntries.get(member.profileUrl) : undefined;
+        if (!entry) continue;
+
+        await page.setContent(archive.load(entry.hash));
+        const profile = await this.extractProfileFromPage(page);
+        if (profile) {
+          this.attachProfile(member, profile);
+          profileCount++;
+        }
+      }
+
+      console.log(`Reparsed ${members.length} members and ${profileCount} profiles`);
+      if (unknownDistricts.length > 0) {
+        console.log(
+          `⚠️  ${unknownDistricts.length} members have a district that is not in the registry`
+        );
+      }
+    } finally {
+      await context.close();
+    }
+
+    this.assignMemberIds(members);
+
+    return {
+      schemaVersion: SCHEMA_VERSION,
+      members,
+      scrapedAt,
+      source: 'house-of-representatives-list',
+      ...(unknownDistricts.length > 0 && { unknownDistricts }),
     };
   }
 
@@ -147,67 +291,184 @@ export class HouseOfRepresentativesScraper {
    * @returns Promise<HouseOfRepresentativesResult> - Complete member data with profiles
    */
   async scrapeHouseOfRepresentativesWithProfiles(
-    options: {
-      includeProfiles?: boolean;
-      maxConcurrentProfiles?: number;
-      profileDelay?: number;
-      maxProfiles?: number;
-    } = {}
+    options: ChamberScrapeOptions = {}
   ): Promise<HouseOfRepresentativesResult> {
     const {
       includeProfiles = true,
       maxConcurrentProfiles = 2,
       profileDelay = 2000,
+      requestsPerSecond,
       maxProfiles = 10,
+      includeCommittees = false,
+      journalPath,
+      resume = false,
     } = options;
 
     // First, get the basic member data
     console.log('Starting House of Representatives scraping...');
     const result = await this.scrapeAllPages();
 
+    if (includeCommittees) {
+      await this.scrapeCommittees(result.members);
+    }
+
     if (!includeProfiles) {
       console.log('Profile scraping disabled. Returning basic member data only.');
       return result;
     }
 
+    const startedAt = new Date();
+
     // Filter members with profile URLs
     const membersWithUrls = result.members.filter((m) => m.profileUrl);
     console.log(`Found ${membersWithUrls.length} members with profile URLs`);
 
-    if (membersWithUrls.length === 0) {
-      console.log('No members with profile URLs found. Returning basic data.');
-      return result;
-    }
-
     // Limit the number of profiles to scrape (configurable)
     const membersToScrape =
       maxProfiles === Number.MAX_SAFE_INTEGER
         ? membersWithUrls // No limit - scrape all members
         : membersWithUrls.slice(0, maxProfiles);
 
-    if (maxProfiles === Number.MAX_SAFE_INTEGER) {
+    if (membersWithUrls.length === 0) {
+      console.log('No members with profile URLs found. Returning basic data.');
+    } else if (maxProfiles === Number.MAX_SAFE_INTEGER) {
       console.log(`Scraping profiles for ALL ${membersToScrape.length} members`);
     } else if (membersToScrape.length < membersWithUrls.length) {
       console.log(`Limiting profile scraping to first ${maxProfiles} members (configurable)`);
     }
 
+    let pendingMembers = membersToScrape;
+    const journal = journalPath ? new ProfileJournal<MemberProfile>(journalPath) : undefined;
+    if (journal && resume) {
+      const completed = journal.completedProfiles();
+      pendingMembers = membersToScrape.filter((member) => {
+        const profile = member.profileUrl ? completed.get(member.profileUrl) : undefined;
+        if (profile) {
+          this.attachProfile(member, profile);
+        }
+        return !profile;
+      });
+      console.log(
+        `Resuming from ${journal.path}: ${membersToScrape.length - pendingMembers.length} profiles already collected, ${pendingMembers.length} left`
+      );
+    } else {
+      journal?.clear();
+    }
+
     // Scrape profiles with enhanced error handling
+    let scraped: MemberDiagnostic[] = [];
     try {
-      await this.scrapeMultipleProfiles(membersToScrape, {
-        maxConcurrent: maxConcurrentProfiles,
-        delay: profileDelay,
-      });
+      if (pendingMembers.length > 0) {
+        scraped = await this.scrapeMultipleProfiles(pendingMembers, {
+          maxConcurrent: maxConcurrentProfiles,
+          delay: profileDelay,
+          ...(requestsPerSecond && { requestsPerSecond }),
+          ...(journal && { journal }),
+        });
+      }
     } catch (error) {
       console.error('Error during profile scraping:', error);
       // Continue with partial results rather than failing completely
     }
 
+    const profileFailures = this.collectFailures(pendingMembers.map((m) => m.profileUrl));
+    if (profileFailures.length > 0) {
+      result.failures = [...(result.failures ?? []), ...profileFailures];
+    }
+
+    result.diagnostics = this.buildDiagnostics(result.members, {
+      scraped,
+      selected: new Set(membersToScrape),
+      pending: new Set(pendingMembers),
+      startedAt,
+    });
+    console.log(`🩺 Profile diagnostics: ${formatDiagnosticCounts(result.diagnostics)}`);
+    this.assignMemberIds(result.members);
+
     // Profiles are already attached to member objects by reference during scraping
     // No need to remap - membersToScrape are references from result.members
     return result;
   }
 
-  private async extractMembersFromPage(page: Page): Promise<RawMemberData[]> {
+  /**
+   * Scrapes the 委員名簿 of every committee and attaches the memberships to the given members
+   * @param members - Members to update in place
+   * @returns Promise<CommitteeRosterResult | null> - The rosters, or null if they could not be scraped
+   */
+  async scrapeCommittees(
+    members: HouseOfRepresentativesMember[]
+  ): Promise<CommitteeRosterResult | null> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized. Call initialize() or useBrowser() first.');
+    }
+
+    const committeeScraper = new HouseOfRepresentativesCommitteeScraper();
+    committeeScraper.useBrowser(this.browser);
+
+    try {
+      const rosters = await committeeScraper.scrapeAllCommittees();
+      const unmatched = attachCommittees(members, rosters.committees);
+      for (const { committee, member } of unmatched) {
+        console.warn(`No member matched ${member.name} on the ${committee} roster`);
+      }
+
+      const membersWithCommittees = members.filter((m) => m.committees).length;
+      console.log(`Attached committees to ${membersWithCommittees} members`);
+      return rosters;
+    } catch (error) {
+      console.error('Error during committee scraping:', error);
+      // Members are still useful without committees
+      return null;
+    } finally {
+      await committeeScraper.close();
+    }
+  }
+
+  /**
+   * Fetches and parses a page with the selected transport. Pages that fail over HTTP are
+   * tried once more in the browser when one is available.
+   * @throws PageFetchError
+   */
+  private async loadDocument<T>(
+    url: string,
+    options: {
+      waitUntil?: 'domcontentloaded' | 'networkidle';
+      waitForSelector?: string;
+      timeout?: number;
+      parse: (document: HtmlDocument) => Promise<T | null>;
+    }
+  ): Promise<T> {
+    const { waitUntil, waitForSelector, timeout, parse } = options;
+
+    if (this.transport === 'http') {
+      try {
+        return await this.loadStaticPage(url, { parse, ...(timeout && { timeout }) });
+      } catch (error) {
+        if (!this.browser) throw error;
+        console.warn(`Falling back to the browser for ${url}`);
+      }
+    }
+
+    const page = await this.newPage();
+    try {
+      return await this.loadPage(page, url, {
+        ...(waitUntil && { waitUntil }),
+        ...(timeout && { timeout }),
+        parse: async (loadedPage) => {
+          if (waitForSelector) {
+            await loadedPage.waitForSelector(waitForSelector, {
+              timeout: HOUSE_OF_REPRESENTATIVES_CONFIG.TIMEOUTS.PAGE_LOAD,
+            });
+          }
+          return parse(loadedPage);
+        },
+      });
+    } finally {
+      await page.close();
+    }
+  }
+
+  private async extractMembersFromPage(page: HtmlDocument): Promise<RawMemberData[]> {
     // Get table data using Playwright selectors instead of page.evaluate()
     const rows = await page.locator('table tr').all();
     const members: RawMemberData[] = [];
@@ -230,22 +491,7 @@ export class HouseOfRepresentativesScraper {
       return t.length < 2 || headers.some((h) => t === h || t.startsWith(h));
     };
 
-    const isPartyKeyword = (text: string): boolean => {
-      const t = (text || '').trim();
-      const parties = [
-        '自由民主党',
-        '立憲民主党',
-        '公明党',
-        '日本維新の会',
-        '日本共産党',
-        '国民民主党',
-        'れいわ新選組',
-        '社会民主党',
-        '無所属',
-        '無会派',
-      ];
-      return parties.some((keyword) => t.includes(keyword));
-    };
+    const isPartyKeyword = (text: string): boolean => findParty(text) !== undefined;
 
     const buildAbsoluteUrl = (relativeUrl: string): string => {
       const baseUrl = 'https://www.shugiin.go.jp';
@@ -299,6 +545,13 @@ export class HouseOfRepresentativesScraper {
           break;
         }
       }
+      if (party === '不明') {
+        // Keep an unknown 会派 from the 会派 column rather than dropping it
+        const factionCell = (await cells[2]?.textContent())?.trim() || '';
+        if (factionCell && !isHeaderKeyword(factionCell) && !/\d|（比）/.test(factionCell)) {
+          party = factionCell;
+        }
+      }
 
       let prefecture = '不明';
       let electionCount: RawMemberData['electionCount'];
@@ -333,17 +586,20 @@ export class HouseOfRepresentativesScraper {
         const text = allCells[i];
         if (text) {
           // Check for pattern like "1（参2）", "5（参1）" - House + (Senate)
-          const senateMatch = text.replace(/\s+/g, '').match(/^(\d+)[（(]参(\d+)[）)]$/);
+          const normalizedText = text.normalize('NFKC').replace(/\s+/g, '');
+          const senateMatch = normalizedText.match(/^(\d+)\(参(\d+)\)$/);
           if (senateMatch?.[1] && senateMatch[2]) {
-            const houseCount = parseInt(senateMatch[1], 10);
-            const senateCount = parseInt(senateMatch[2], 10);
-            electionCount = { house: houseCount, senate: senateCount };
-            break;
+            const houseCount = parseJapaneseNumber(senateMatch[1]);
+            const senateCount = parseJapaneseNumber(senateMatch[2]);
+            if (houseCount !== null && senateCount !== null) {
+              electionCount = { house: houseCount, senate: senateCount };
+              break;
+            }
           }
 
           // Check for pure number (House only)
-          if (/^\d+$/.test(text)) {
-            const num = parseInt(text, 10);
+          if (/^\d+$/.test(normalizedText)) {
+            const num = parseJapaneseNumber(normalizedText) ?? 0;
             // Election counts are typically 1-25, filter out years or large numbers
             if (num >= 1 && num <= 25) {
               electionCount = { house: num };
@@ -429,6 +685,28 @@ export class HouseOfRepresentativesScraper {
     return furigana.replace(/\n/g, ' ').replace(/　/g, ' ').replace(/\s+/g, ' ').trim();
   }
 
+  /**
+   * Canonical district and block ids of a parsed election; a 選挙区 that is not in the
+   * registry is added to unknownDistricts instead
+   */
+  private lookupDistrict(
+    member: RawMemberData,
+    election: Election,
+    unknownDistricts: UnknownDistrict[]
+  ): Pick<Election, 'districtId' | 'blockId'> {
+    const district = lookupElectionDistrict(election);
+    if ('error' in district) {
+      console.warn(`⚠️  Unknown district for ${member.name.full}: ${district.error}`);
+      unknownDistricts.push({
+        name: member.name.full,
+        raw: member.prefecture,
+        reason: district.error,
+      });
+      return {};
+    }
+    return district;
+  }
+
   private parseElectionInfo(rawInfo: string): {
     election: {
       system: 'single-seat' | 'proportional-representation';
@@ -469,7 +747,7 @@ export class HouseOfRepresentativesScraper {
       return {
         election: {
           system: 'proportional-representation',
-          area: propMatch?.[1] || rawInfo,
+          ...(propMatch?.[1] && { area: propMatch[1] }),
         },
       };
     }
@@ -500,23 +778,11 @@ export class HouseOfRepresentativesScraper {
       };
     }
 
-    // Generic fallback
-    const generalMatch = rawInfo.match(/^(.+?)(\d+)$/);
-    if (generalMatch?.[1] && generalMatch[2]) {
-      return {
-        election: {
-          system: 'single-seat',
-          prefecture: generalMatch[1],
-          number: generalMatch[2],
-        },
-      };
-    }
-
-    // Default
+    // Anything else is not a district; the raw text is reported by lookupDistrict
     return {
       election: {
         system: 'single-seat',
-        prefecture: rawInfo,
+        prefecture: '不明',
       },
     };
   }
@@ -527,7 +793,7 @@ export class HouseOfRepresentativesScraper {
    * @returns Promise<MemberProfile | null> - The member's profile data or null if scraping fails
    */
   async scrapeProfile(profileUrl: string): Promise<MemberProfile | null> {
-    if (!profileUrl || !this.browser) {
+    if (!profileUrl || (this.transport === 'browser' && !this.browser)) {
       return null;
     }
 
@@ -543,28 +809,31 @@ export class HouseOfRepresentativesScraper {
       return null;
     }
 
-    const page = await this.newPage();
-
     try {
       console.log(`Scraping profile: ${profileUrl}`);
-      await page.goto(profileUrl, { waitUntil: 'networkidle', timeout: 10000 });
-
-      const profile = await this.extractProfileFromPage(page);
-      return profile;
+      return await this.loadDocument(profileUrl, {
+        waitUntil: 'networkidle',
+        timeout: 10000,
+        parse: async (document) => {
+          if (this.archive) {
+            this.archive.save(profileUrl, await document.content(), 'profile');
+          }
+          return this.extractProfileFromPage(document);
+        },
+      });
     } catch (error) {
+      // The reason is kept in fetchFailures and reported in the result
       console.error(`Failed to scrape profile ${profileUrl}:`, error);
       return null;
-    } finally {
-      await page.close();
     }
   }
 
   /**
    * Extracts profile information from the current page
-   * @param page - The Playwright page object
+   * @param page - The loaded page (browser or static)
    * @returns Promise<MemberProfile | null> - Extracted profile data
    */
-  private async extractProfileFromPage(page: Page): Promise<MemberProfile | null> {
+  private async extractProfileFromPage(page: HtmlDocument): Promise<MemberProfile | null> {
     const profile: MemberProfile = {};
 
     // Helper function to clean text
@@ -601,19 +870,22 @@ export class HouseOfRepresentativesScraper {
       const electionMatch = contentText.match(/([^、]+選出)[、，]([^、]+)/);
       if (electionMatch?.[1] && electionMatch[2]) {
         profile.electionDistrict = electionMatch[1].trim();
-        profile.partyAffiliation = electionMatch[2].trim();
+        // The 会派 is followed by the biography on the same line; keep only the name
+        profile.partyAffiliation = electionMatch[2].trim().split(' ')[0] || electionMatch[2].trim();
+        const partyDefinition = findParty(profile.partyAffiliation);
+        if (partyDefinition) {
+          profile.partyId = partyDefinition.id;
+        }
       }
 
       // Extract birth information
       // Example: "昭和二十九年六月岡山県岡山市に生まれる"
-      const birthMatch = contentText.match(/(昭和|平成|令和)([^年]+年[^に]+に生まれる)/);
-      if (birthMatch?.[1] && birthMatch[2]) {
-        profile.birthDate = birthMatch[1] + birthMatch[2];
-
-        // Extract birth place more specifically
-        const birthPlaceMatch = birthMatch[2].match(/年[^に]*([^に]+)に生まれる/);
-        if (birthPlaceMatch?.[1]) {
-          profile.birthPlace = birthPlaceMatch[1].trim();
+      const birthInfo = this.parseBirthInfo(contentText, profile.partyAffiliation);
+      if (birthInfo) {
+        profile.birthDate = birthInfo.birth.raw;
+        profile.birth = birthInfo.birth;
+        if (birthInfo.birthPlace) {
+          profile.birthPlace = birthInfo.birthPlace;
         }
       }
 
@@ -650,48 +922,6 @@ export class HouseOfRepresentativesScraper {
         }
       }
 
-      // Extract career and position information
-      // This includes government positions, party positions, and Diet positions
-      const careerText = contentText;
-
-      // Parse government positions (政務次官、副大臣など)
-      const govPositions = this.extractPositions(careerText, [
-        '政務次官',
-        '副大臣',
-        '大臣',
-        '長官',
-        '政務官',
-      ]);
-
-      // Parse party positions (部会長、会長、幹事長など)
-      const partyPositions = this.extractPositions(careerText, [
-        '部会長',
-        '会長',
-        '幹事長',
-        '代理',
-        '本部長',
-        '調査会長',
-        '総裁',
-        '副総裁',
-      ]);
-
-      // Parse Diet positions (委員長、議長など)
-      const dietPositions = this.extractPositions(careerText, [
-        '委員長',
-        '議長',
-        '副議長',
-        '議院運営委員長',
-        '予算委員長',
-        '審査会長',
-      ]);
-
-      if (govPositions.length > 0 || partyPositions.length > 0 || dietPositions.length > 0) {
-        profile.previousPositions = {};
-        if (govPositions.length > 0) profile.previousPositions.government = govPositions;
-        if (partyPositions.length > 0) profile.previousPositions.party = partyPositions;
-        if (dietPositions.length > 0) profile.previousPositions.diet = dietPositions;
-      }
-
       // Extract election history and count
       // Example: "当選十三回（38 39 40 41 42 43 44 45 46 47 48 49 50）"
       const electionHistoryMatch = contentText.match(/当選([^回]+回)[（(]([^）)]+)[）)]/);
@@ -699,13 +929,26 @@ export class HouseOfRepresentativesScraper {
         profile.electionHistory = `当選${electionHistoryMatch[1]}`;
 
         // Extract election count as number
-        const countMatch = electionHistoryMatch[1].match(/([\d一二三四五六七八九十]+)回/);
-        if (countMatch?.[1]) {
-          profile.electionCount = this.convertJapaneseNumber(countMatch[1]);
+        const countText = electionHistoryMatch[1].replace(/回$/, '');
+        const electionCount = parseJapaneseNumber(countText);
+        if (electionCount !== null) {
+          profile.electionCount = electionCount;
+        } else {
+          console.warn(`Could not parse election count: ${electionHistoryMatch[1]}`);
         }
 
-        // Extract term numbers
-        const termNumbers = electionHistoryMatch[2].split(/\s+/).filter((n) => n.trim());
+        // Extract term numbers, normalized to Arabic numerals (e.g. "三十八" -> "38")
+        const termNumbers = electionHistoryMatch[2]
+          .split(/[\s、，]+/)
+          .filter((n) => n.trim())
+          .map((term) => {
+            const termNumber = parseJapaneseNumber(term);
+            if (termNumber === null) {
+              console.warn(`Could not parse term number: ${term}`);
+              return term;
+            }
+            return String(termNumber);
+          });
         if (termNumbers.length > 0) {
           profile.termNumbers = termNumbers;
         }
@@ -742,8 +985,25 @@ export class HouseOfRepresentativesScraper {
         }
       }
 
-      // Extract career history as a comprehensive string
-      profile.careerHistory = careerText;
+      // Extract the 「○」-delimited career history and its structured timeline.
+      // Titles between the 会派 and the birth date (「総務副大臣」「予算委員長」) are the posts held now.
+      const { heading, body: careerHistory } = extractBiographySections(
+        contentText,
+        profile.partyAffiliation
+      );
+      const timelineOptions = profile.partyAffiliation
+        ? { partyAffiliation: profile.partyAffiliation }
+        : {};
+      const careerTimeline = [
+        ...parseCareerTimeline(heading, { ...timelineOptions, current: true }),
+        ...parseCareerTimeline(careerHistory, timelineOptions),
+      ];
+      if (careerHistory) {
+        profile.careerHistory = careerHistory;
+      }
+      if (careerTimeline.length > 0) {
+        profile.careerTimeline = careerTimeline;
+      }
 
       // Store comprehensive biography
       profile.biography = contentText;
@@ -757,11 +1017,21 @@ export class HouseOfRepresentativesScraper {
       }
 
       // Add date information if available
-      const dateMatch = contentText.match(/(令和\d+年\d+月現在)/);
+      // Example: "（令和7年3月現在）" or "（令和六年十二月現在）"
+      const dateMatch = contentText.match(/((?:令和|平成)[^（）()、。\s]{1,12}?現在)/);
       if (dateMatch?.[1]) {
         additionalInfo['情報更新日'] = dateMatch[1];
+        const asOf = parseWarekiDate(dateMatch[1]);
+        if (asOf) {
+          profile.asOf = asOf;
+        }
       }
 
+      // Separate the posts held now from earlier ones
+      const { currentPositions, previousPositions } = groupPositions(careerTimeline, profile.asOf);
+      if (currentPositions) profile.currentPositions = currentPositions;
+      if (previousPositions) profile.previousPositions = previousPositions;
+
       if (Object.keys(additionalInfo).length > 0) {
         profile.additionalInfo = additionalInfo;
       }
@@ -777,66 +1047,68 @@ export class HouseOfRepresentativesScraper {
    * Scrapes profiles for multiple members with rate limiting
    * @param members - Array of members with profileUrl
    * @param options - Scraping options
-   * @returns Promise<void>
+   * @returns Promise<MemberDiagnostic[]> - Outcome of each profile, in completion order
    */
   async scrapeMultipleProfiles(
     members: HouseOfRepresentativesMember[],
-    options: { maxConcurrent?: number; delay?: number } = {}
-  ): Promise<void> {
+    options: {
+      maxConcurrent?: number;
+      delay?: number;
+      requestsPerSecond?: number;
+      journal?: ProfileJournal<MemberProfile>;
+    } = {}
+  ): Promise<MemberDiagnostic[]> {
     let { maxConcurrent = 3, delay = 1000 } = options;
+    const { requestsPerSecond, journal } = options;
 
     // Normalize inputs to prevent infinite loops and negative delays
     maxConcurrent = Math.max(1, Math.floor(Number(maxConcurrent) || 1));
     delay = Math.max(0, Math.floor(Number(delay) || 0));
 
-    if (!this.browser) {
+    if (this.transport === 'browser' && !this.browser) {
       throw new Error('Browser not initialized');
     }
 
     const membersWithProfiles = members.filter((m) => m.profileUrl);
     console.log(`Scraping profiles for ${membersWithProfiles.length} members...`);
 
+    const limiter = this.createRateLimiter({ requestsPerSecond, delay });
+
     let completedCount = 0;
     let successCount = 0;
-
-    // Process in batches to avoid overwhelming the server
-    for (let i = 0; i < membersWithProfiles.length; i += maxConcurrent) {
-      const batch = membersWithProfiles.slice(i, i + maxConcurrent);
-      const batchNumber = Math.floor(i / maxConcurrent) + 1;
-      const totalBatches = Math.ceil(membersWithProfiles.length / maxConcurrent);
-
-      console.log(`\nProcessing batch ${batchNumber}/${totalBatches} (${batch.length} members)...`);
-
-      const promises = batch.map(async (member) => {
-        if (member.profileUrl) {
-          const profile = await this.scrapeProfile(member.profileUrl);
-          completedCount++;
-          if (profile) {
-            member.profile = profile;
-            successCount++;
-            console.log(`✓ [${completedCount}/${membersWithProfiles.length}] ${member.name}`);
-          } else {
-            console.log(
-              `✗ [${completedCount}/${membersWithProfiles.length}] ${member.name} - Failed`
-            );
-          }
+    const diagnostics: MemberDiagnostic[] = [];
+
+    // Each worker takes the next member as soon as it is done, so a slow page
+    // holds up only its own worker
+    await runWorkerPool(
+      membersWithProfiles,
+      async (member) => {
+        if (!member.profileUrl) return true;
+
+        const startedAt = Date.now();
+        const profile = await this.scrapeProfile(member.profileUrl);
+        completedCount++;
+        diagnostics.push(
+          this.diagnoseProfile(
+            { name: member.name, profileUrl: member.profileUrl },
+            profile !== null,
+            Date.now() - startedAt
+          )
+        );
+        journal?.record(member.profileUrl, member.name, profile);
+        if (profile) {
+          this.attachProfile(member, profile);
+          successCount++;
+          console.log(`✓ [${completedCount}/${membersWithProfiles.length}] ${member.name}`);
+        } else {
+          console.log(
+            `✗ [${completedCount}/${membersWithProfiles.length}] ${member.name} - Failed`
+          );
         }
-      });
-
-      await Promise.all(promises);
-
-      // Show batch completion summary
-      const batchSuccess = batch.filter((m) => m.profile).length;
-      console.log(
-        `Batch ${batchNumber}/${totalBatches} completed: ${batchSuccess}/${batch.length} successful`
-      );
-
-      // Add delay between batches
-      if (i + maxConcurrent < membersWithProfiles.length && delay > 0) {
-        console.log(`Waiting ${delay}ms before next batch...`);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
+        return profile !== null;
+      },
+      { concurrency: maxConcurrent, limiter }
+    );
 
     // Final summary
     console.log(`\n🎉 Profile scraping completed!`);
@@ -846,72 +1118,101 @@ export class HouseOfRepresentativesScraper {
     if (successCount < membersWithProfiles.length) {
       console.log(`⚠️  ${membersWithProfiles.length - successCount} profiles failed to scrape`);
     }
+    return diagnostics;
   }
 
   /**
-   * Helper method to extract positions from text based on keywords
+   * Diagnostics for every member of the result: the outcome of each scraped profile,
+   * profiles taken from the journal, and members left out or without a profile page
    */
-  private extractPositions(text: string, keywords: string[]): string[] {
-    const positions: string[] = [];
-    const sentences = text.split(/[○、，]/);
-
-    for (const sentence of sentences) {
-      for (const keyword of keywords) {
-        if (sentence.includes(keyword)) {
-          // Extract the position title, handling Japanese text patterns
-          const match = sentence.match(new RegExp(`([^、，]*${keyword}[^、，]*)`));
-          if (match?.[1]) {
-            const position = match[1].trim();
-            if (position && !positions.includes(position)) {
-              positions.push(position);
-            }
-          }
-        }
-      }
+  private buildDiagnostics(
+    members: HouseOfRepresentativesMember[],
+    run: {
+      scraped: MemberDiagnostic[];
+      selected: Set<HouseOfRepresentativesMember>; // Within maxProfiles
+      pending: Set<HouseOfRepresentativesMember>; // Selected and not taken from the journal
+      startedAt: Date;
     }
+  ): ScrapeDiagnostics {
+    const scrapedByUrl = new Map(run.scraped.map((entry) => [entry.profileUrl, entry]));
 
-    return positions;
+    const entries = members.map((member): MemberDiagnostic => {
+      const { name, profileUrl } = member;
+      if (!profileUrl) {
+        return { name, status: 'no-url' };
+      }
+      if (!run.selected.has(member)) {
+        return { name, profileUrl, status: 'skipped' };
+      }
+      if (!run.pending.has(member)) {
+        return { name, profileUrl, status: 'ok', resumed: true };
+      }
+      // Not reached when profile scraping was aborted part-way
+      return (
+        scrapedByUrl.get(profileUrl) ?? {
+          name,
+          profileUrl,
+          status: 'failed',
+          message: 'Profile scraping was aborted before this member',
+        }
+      );
+    });
+
+    return summarizeDiagnostics(entries, run.startedAt);
   }
 
   /**
-   * Helper method to convert Japanese numbers to Arabic numbers
+   * Sets a member's profile, carrying over the committees from the 委員名簿 and, for 比例
+   * members, recording the 小選挙区 the biography names
    */
-  private convertJapaneseNumber(japaneseNum: string): number {
-    // Simple conversion for common numbers used in election counts
-    const numberMap: Record<string, number> = {
-      一: 1,
-      二: 2,
-      三: 3,
-      四: 4,
-      五: 5,
-      六: 6,
-      七: 7,
-      八: 8,
-      九: 9,
-      十: 10,
-      十一: 11,
-      十二: 12,
-      十三: 13,
-      十四: 14,
-      十五: 15,
-      十六: 16,
-      十七: 17,
-      十八: 18,
-      十九: 19,
-      二十: 20,
-    };
+  private attachProfile(member: HouseOfRepresentativesMember, profile: MemberProfile): void {
+    if (member.committees) {
+      profile.committees = member.committees.map((committee) => committee.name);
+    }
+    member.profile = profile;
 
-    // First try direct lookup
-    if (numberMap[japaneseNum]) {
-      return numberMap[japaneseNum];
+    if (member.election.system === 'proportional-representation') {
+      const districtId = parseDualCandidacyDistrict(profile, member.election.area);
+      if (districtId) {
+        member.election.dualCandidacyDistrict = districtId;
+      }
     }
+  }
 
-    // Try parsing as Arabic number
-    const arabicNumber = parseInt(japaneseNum, 10);
-    if (!Number.isNaN(arabicNumber)) {
-      return arabicNumber;
+  /**
+   * Splits the birth clause of a biography into its date and birthplace
+   * @param text - Profile text such as "昭和二十九年六月岡山県岡山市に生まれる"
+   * @param partyAffiliation - 会派 name, after which a bare birth date may follow
+   */
+  private parseBirthInfo(
+    text: string,
+    partyAffiliation?: string
+  ): { birth: PartialDate; birthPlace?: string } | null {
+    // 「<date><place>に生まれる」「<date><place>生まれ」「<date>生。」
+    const clauseMatch = text.match(
+      /((?:明治|大正|昭和|平成|令和)[^、。○\s]*?|[0-9０-９〇一二三四五六七八九]{4}年[^、。○\s]*?)(?:生まれ|生[。、])/
+    );
+    if (clauseMatch?.[1]) {
+      const clause = clauseMatch[1];
+      const birth = parseWarekiDate(clause);
+      if (birth && clause.startsWith(birth.raw)) {
+        const birthPlace = clause.slice(birth.raw.length).replace(/に$/, '').trim();
+        return birthPlace ? { birth, birthPlace } : { birth };
+      }
+    }
+
+    // Some profiles give only the date right after the 会派 (e.g. "立憲民主党・無所属 昭和四十九年三月二十七日")
+    if (partyAffiliation) {
+      const index = text.indexOf(`${partyAffiliation} `);
+      if (index >= 0) {
+        const nextToken = text.slice(index + partyAffiliation.length + 1).split(/[\s、。○]/)[0];
+        const birth = parseWarekiDate(nextToken);
+        if (birth && birth.raw === nextToken) {
+          return { birth };
+        }
+      }
     }
 
-    return 0;
+    return null;
   }
 }
@@ -1,3 +1,8 @@
+import type { BlockId } from '../../../districts';
+import type { PartyId } from '../../../parties';
+import type { PartialDate } from '../../../utils/wareki';
+import type { FetchFailure, ScrapeDiagnostics } from '../../types';
+
 export type ElectionSystem = 'single-seat' | 'proportional-representation';
 export type ElectionCount = number | { house: number; senate?: number };
 
@@ -6,15 +11,43 @@ export interface Election {
   prefecture?: string | undefined;
   number?: string | undefined;
   area?: string | undefined;
+  districtId?: string | undefined; // 小選挙区の正規ID (「okayama-1」、src/districts.ts)
+  blockId?: BlockId | undefined; // 比例ブロック (小選挙区の場合は都道府県が属するブロック)
+  dualCandidacyDistrict?: string | undefined; // 比例: 重複立候補した小選挙区の正規ID (経歴から判明した場合)
+}
+
+export type CareerCategory = 'government' | 'party' | 'diet' | 'private' | 'education';
+
+export interface CareerEntry {
+  start?: PartialDate;
+  end?: PartialDate;
+  role: string; // 役職 (「副大臣」「委員長」「卒業」など)
+  organization: string; // 所属先 (「外務」「衆議院予算委員会」「自由民主党」など)
+  category: CareerCategory;
+  current?: boolean; // 現職 (「現在、」「現在に至る」、終了日のない期間、会派の後の役職)
+  raw: string; // 経歴欄の原文
+}
+
+export type CommitteeType = 'standing' | 'special'; // 常任委員会 / 特別委員会
+export type CommitteeRole = 'chair' | 'director' | 'member'; // 委員長 / 理事 / 委員
+
+export interface CommitteeMembership {
+  id: string;
+  name: string; // 委員会名 (「内閣委員会」など)
+  role: CommitteeRole;
 }
 
 export interface HouseOfRepresentativesMember {
+  id?: string; // Stable member ID (see src/member-id.ts)
   name: string;
   furigana?: string;
-  party: string;
+  party: string; // 正規化した政党名 (辞書にない場合は会派名のまま)
+  partyId?: PartyId;
+  faction?: string; // 議員一覧に記載された会派 (「自民」など)
   profileUrl?: string;
   electionCount?: ElectionCount;
   election: Election;
+  committees?: CommitteeMembership[];
   profile?: MemberProfile;
 }
 
@@ -22,12 +55,14 @@ export interface MemberProfile {
   // 基本情報
   fullName?: string;
   furigana?: string;
-  birthDate?: string;
+  birthDate?: string; // 生年月日の原文 (「昭和二十九年六月」など)
   birthPlace?: string;
+  birth?: PartialDate;
 
   // 選挙・政治情報
   electionDistrict?: string;
   partyAffiliation?: string;
+  partyId?: PartyId;
   electionHistory?: string;
   electionCount?: number;
   termNumbers?: string[]; // 第XX回選挙の情報
@@ -40,7 +75,8 @@ export interface MemberProfile {
   // 職歴
   occupation?: string;
   previousOccupation?: string[];
-  careerHistory?: string;
+  careerHistory?: string; // 「○」区切りの経歴欄
+  careerTimeline?: CareerEntry[]; // 経歴欄を記載順に構造化したもの
 
   // 政府・党内での役職
   currentPositions?: {
@@ -74,12 +110,46 @@ export interface MemberProfile {
   personalInfo?: string; // 個人的な情報
   achievements?: string[]; // 表彰・受賞歴
   additionalInfo?: Record<string, string>;
+  asOf?: PartialDate; // プロフィールの「令和X年X月現在」
+}
+
+// A member whose 選挙区 is not in the registry (src/districts.ts)
+export interface UnknownDistrict {
+  name: string;
+  raw: string; // 議員一覧の選挙区欄の原文
+  reason: string;
 }
 
 export interface HouseOfRepresentativesResult {
+  schemaVersion: number; // SCHEMA_VERSION of the release that wrote the file
   members: HouseOfRepresentativesMember[];
   scrapedAt: string;
   source: 'house-of-representatives-list';
+  failures?: FetchFailure[]; // Pages that still failed after retrying
+  diagnostics?: ScrapeDiagnostics; // Per-member profile outcomes
+  unknownDistricts?: UnknownDistrict[]; // 登録簿にない選挙区
+}
+
+// Raw roster row from a 委員名簿 page
+export interface RawCommitteeMember {
+  name: string;
+  furigana?: string;
+  faction?: string;
+  role: CommitteeRole;
+}
+
+export interface CommitteeRoster {
+  id: string;
+  name: string;
+  type: CommitteeType;
+  url: string;
+  members: RawCommitteeMember[];
+}
+
+export interface CommitteeRosterResult {
+  committees: CommitteeRoster[];
+  scrapedAt: string;
+  source: 'house-of-representatives-committees';
 }
 
 // Raw member data from table extraction
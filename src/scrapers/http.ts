@@ -0,0 +1,140 @@
+import { type HTMLElement, parse as parseHtml } from 'node-html-parser';
+import {
+  checkHttpStatus,
+  classifyFetchError,
+  PageFetchError,
+  parseDocument,
+  type RetryOptions,
+  withRetry,
+} from './fetch';
+import type { DocumentLocator, HtmlDocument } from './types';
+
+export interface StaticFetchOptions<T> extends RetryOptions {
+  timeout?: number; // Per request (default: 10000)
+  parse: (document: StaticDocument) => Promise<T | null>;
+}
+
+const USER_AGENT = 'mieruca-kokkai';
+
+/**
+ * Locator over elements of a statically parsed page, mirroring the subset of Playwright's
+ * Locator that the extractors use
+ */
+class StaticLocator implements DocumentLocator {
+  constructor(private readonly elements: HTMLElement[]) {}
+
+  async all(): Promise<DocumentLocator[]> {
+    return this.elements.map((element) => new StaticLocator([element]));
+  }
+
+  first(): DocumentLocator {
+    return new StaticLocator(this.elements.slice(0, 1));
+  }
+
+  async count(): Promise<number> {
+    return this.elements.length;
+  }
+
+  async textContent(): Promise<string | null> {
+    return this.elements[0]?.textContent ?? null;
+  }
+
+  async getAttribute(name: string): Promise<string | null> {
+    return this.elements[0]?.getAttribute(name) ?? null;
+  }
+
+  locator(selector: string): DocumentLocator {
+    return new StaticLocator(
+      this.elements.flatMap((element) => element.querySelectorAll(selector))
+    );
+  }
+}
+
+/**
+ * A page parsed without a browser; exposes the same locator API as a Playwright page
+ */
+export class StaticDocument implements HtmlDocument {
+  private readonly root: HTMLElement;
+
+  constructor(private readonly html: string) {
+    this.root = parseHtml(html, { blockTextElements: { script: true, style: true, pre: true } });
+  }
+
+  locator(selector: string): DocumentLocator {
+    return new StaticLocator(this.root.querySelectorAll(selector));
+  }
+
+  async content(): Promise<string> {
+    return this.html;
+  }
+}
+
+/**
+ * Finds the charset of an HTML response: the Content-Type header first, then a
+ * <meta charset> or <meta http-equiv="Content-Type"> in the head, else UTF-8
+ */
+export function detectCharset(bytes: Uint8Array, contentType: string | null): string {
+  const fromHeader = contentType?.match(/charset=["']?([\w-]+)/i)?.[1];
+  if (fromHeader) return fromHeader.toLowerCase();
+
+  // Meta tags are ASCII, so the head can be read before the charset is known
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 2048));
+  const fromMeta = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+  return fromMeta ? fromMeta.toLowerCase() : 'utf-8';
+}
+
+/**
+ * Decodes an HTML response body; the 衆議院 pages are served as Shift_JIS
+ */
+export function decodeHtml(bytes: Uint8Array, contentType: string | null = null): string {
+  const charset = detectCharset(bytes, contentType);
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch (_error) {
+    // Unknown label: fall back to UTF-8 rather than failing the page
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Fetches and decodes one page with Node's fetch
+ * @throws PageFetchError - timeout, navigation (network) or http-4xx / http-5xx
+ */
+export async function fetchHtml(url: string, timeout = 10000): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(timeout),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new PageFetchError('timeout', url, `Timeout ${timeout}ms exceeded`, { cause: error });
+    }
+    throw classifyFetchError(error, url);
+  }
+
+  checkHttpStatus(url, response.status);
+  return decodeHtml(
+    new Uint8Array(await response.arrayBuffer()),
+    response.headers.get('content-type')
+  );
+}
+
+/**
+ * Fetches a page over plain HTTP and parses it, retrying transient failures like fetchPage
+ * @returns The parsed data
+ * @throws PageFetchError - After the last attempt, with `attempts` set
+ */
+export async function fetchStaticPage<T>(url: string, options: StaticFetchOptions<T>): Promise<T> {
+  const { timeout, parse } = options;
+
+  return withRetry(
+    url,
+    async () => {
+      const html = await fetchHtml(url, timeout);
+      return parseDocument(url, new StaticDocument(html), parse);
+    },
+    options
+  );
+}
@@ -0,0 +1,5 @@
+export { BrowserScraper } from './base';
+export { backoffDelay, classifyFetchError, fetchPage, PageFetchError } from './fetch';
+export { decodeHtml, fetchHtml, fetchStaticPage, StaticDocument } from './http';
+export { createDefaultRegistry, ScraperRegistry } from './registry';
+export type * from './types';
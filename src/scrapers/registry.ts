@@ -0,0 +1,50 @@
+import { HouseOfCouncillorsScraper } from './house-of-councillors';
+import { HouseOfRepresentativesScraper } from './house-of-representatives';
+import type { ChamberScraper } from './types';
+
+export class ScraperRegistry {
+  private scrapers = new Map<string, ChamberScraper>();
+
+  /**
+   * Registers a scraper under its id. Ids must be unique within a registry.
+   */
+  register(scraper: ChamberScraper): this {
+    if (this.scrapers.has(scraper.id)) {
+      throw new Error(`Scraper already registered: ${scraper.id}`);
+    }
+    this.scrapers.set(scraper.id, scraper);
+    return this;
+  }
+
+  has(id: string): boolean {
+    return this.scrapers.has(id);
+  }
+
+  /**
+   * Looks up a scraper by id. Throws if no scraper is registered under that id.
+   */
+  get<T extends ChamberScraper = ChamberScraper>(id: string): T {
+    const scraper = this.scrapers.get(id);
+    if (!scraper) {
+      throw new Error(`Unknown scraper: ${id}. Registered: ${this.ids().join(', ') || 'none'}`);
+    }
+    return scraper as T;
+  }
+
+  ids(): string[] {
+    return Array.from(this.scrapers.keys());
+  }
+
+  list(): ChamberScraper[] {
+    return Array.from(this.scrapers.values());
+  }
+}
+
+/**
+ * Registry with the built-in Diet chamber scrapers
+ */
+export function createDefaultRegistry(): ScraperRegistry {
+  return new ScraperRegistry()
+    .register(new HouseOfRepresentativesScraper())
+    .register(new HouseOfCouncillorsScraper());
+}
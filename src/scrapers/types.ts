@@ -0,0 +1,96 @@
+import type { Browser } from 'playwright';
+import type { MemberIdRegistry } from '../member-id';
+
+export interface ChamberScrapeOptions {
+  includeProfiles?: boolean;
+  maxConcurrentProfiles?: number;
+  profileDelay?: number; // Minimum ms between profile requests when requestsPerSecond is not set
+  requestsPerSecond?: number; // Shared by all concurrent profile requests
+  maxProfiles?: number;
+  includeCommittees?: boolean; // 委員会名簿 (for chambers that publish one)
+  journalPath?: string; // Checkpoint each profile to this file (see ProfileJournal)
+  resume?: boolean; // Keep the profiles already in the journal and scrape only the rest
+}
+
+// How pages are fetched: Node fetch plus an HTML parser, or a Chromium page via Playwright
+export type PageTransport = 'http' | 'browser';
+
+// The part of Playwright's Locator API the extractors use, so that they can run on a
+// Playwright page or on statically parsed HTML alike
+export interface DocumentLocator {
+  all(): Promise<DocumentLocator[]>;
+  first(): DocumentLocator;
+  count(): Promise<number>;
+  textContent(): Promise<string | null>;
+  getAttribute(name: string): Promise<string | null>;
+  locator(selector: string): DocumentLocator;
+}
+
+// A loaded page: a Playwright Page or a StaticDocument
+export interface HtmlDocument {
+  locator(selector: string): DocumentLocator;
+  content(): Promise<string>;
+}
+
+// Why a page could not be fetched: timeouts, 5xx and dropped connections are retried
+export type FetchErrorKind = 'timeout' | 'http-4xx' | 'http-5xx' | 'navigation' | 'parse';
+
+export interface FetchFailure {
+  url: string;
+  kind: FetchErrorKind;
+  status?: number; // HTTP status for http-4xx / http-5xx
+  message: string;
+  attempts: number;
+}
+
+// What happened to a member's profile in a run: scraped, failed for good, left out by
+// maxProfiles (or because profiles were not requested), or no profile page to fetch
+export type ProfileStatus = 'ok' | 'failed' | 'skipped' | 'no-url';
+
+export interface MemberDiagnostic {
+  name: string;
+  profileUrl?: string;
+  status: ProfileStatus;
+  errorKind?: FetchErrorKind; // failed only; absent when the URL was rejected before fetching
+  message?: string; // failed only
+  attempts?: number; // Fetch attempts including retries
+  durationMs?: number; // From the first attempt to the final outcome
+  resumed?: boolean; // Profile taken from the journal of an interrupted run
+}
+
+export interface ScrapeDiagnostics {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  counts: Record<ProfileStatus, number>;
+  members: MemberDiagnostic[];
+}
+
+// Minimal shape every scraper result shares
+export interface ChamberResult {
+  members: { name: string; party: string }[];
+  scrapedAt: string;
+  source: string;
+  failures?: FetchFailure[]; // Pages that could not be fetched even after retrying
+  diagnostics?: ScrapeDiagnostics; // Per-member profile outcomes, when profiles were requested
+}
+
+/**
+ * Contract for a member-list source (a chamber of the Diet, a prefectural assembly, ...)
+ * that DietMemberScraper can discover through a ScraperRegistry.
+ */
+export interface ChamberScraper<TResult extends ChamberResult = ChamberResult> {
+  readonly id: string;
+  readonly displayName: string;
+
+  initialize(): Promise<void>;
+  close(): Promise<void>;
+  useBrowser(browser: Browser): void;
+  // Stable member IDs; sources that extend BrowserScraper get it from there
+  useMemberIds?(registry: MemberIdRegistry | null): void;
+
+  // Member list only
+  scrapeAllPages(): Promise<TResult>;
+  // Member list plus profiles, depending on options
+  scrape(options?: ChamberScrapeOptions): Promise<TResult>;
+}
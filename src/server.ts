@@ -0,0 +1,360 @@
+import { createHash } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { type DatasetMember, MemberDataset, type MemberFilter } from './dataset';
+import type { ExportableResult } from './export';
+import { executeQuery } from './graphql';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// Request bodies are only read for /graphql
+const MAX_BODY_BYTES = 100_000;
+
+export interface ApiServerOptions {
+  port?: number; // Default: any free port
+  host?: string; // Default: 127.0.0.1
+  corsOrigin?: string; // Access-Control-Allow-Origin (default: *)
+}
+
+export interface ApiServer {
+  url: string;
+  server: Server;
+  close(): Promise<void>;
+}
+
+interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+// A GraphQL request as sent in a POST body or in the query string of a GET
+export interface GraphQLRequest {
+  query?: unknown;
+  variables?: unknown;
+  operationName?: unknown;
+}
+
+class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+type Route = [RegExp, (params: string[], query: URLSearchParams) => unknown];
+
+/**
+ * Read-only JSON API over one result file. Responses are computed per request from the
+ * in-memory members, so the handler can be tested without a socket.
+ */
+export class MemberApi {
+  readonly dataset: MemberDataset;
+  private readonly routes: Route[];
+
+  constructor(result: ExportableResult) {
+    this.dataset = new MemberDataset(result);
+    this.routes = [
+      [/^\/$/, () => this.index()],
+      [/^\/members$/, (_, query) => this.paginate(this.dataset.filter(memberFilter(query)), query)],
+      [/^\/members\/([^/]+)$/, ([id]) => this.member(id ?? '')],
+      [/^\/parties$/, () => this.parties()],
+      [/^\/districts\/([^/]+)$/, ([id]) => this.districtById(id ?? '')],
+      [
+        /^\/districts\/([^/]+)\/([^/]+)$/,
+        ([prefecture, number]) => this.district(prefecture ?? '', number ?? ''),
+      ],
+      [/^\/blocks\/([^/]+)$/, ([area]) => this.block(area ?? '')],
+    ];
+  }
+
+  /**
+   * Answers a GET request
+   * @param path - Path and query string, e.g. "/members?partyId=ldp&limit=20"
+   */
+  handle(path: string): ApiResponse {
+    const url = new URL(path, 'http://localhost');
+    const pathname = url.pathname.length > 1 ? url.pathname.replace(/\/+$/, '') : url.pathname;
+    return this.catchErrors(url.pathname, () => {
+      if (pathname === '/graphql') {
+        return this.graphqlFromQuery(url.searchParams);
+      }
+      for (const [pattern, resolve] of this.routes) {
+        const match = pathname.match(pattern);
+        if (match) {
+          const params = match.slice(1).map((param) => decodeURIComponent(param));
+          return { status: 200, body: resolve(params, url.searchParams) };
+        }
+      }
+      throw new ApiError(404, `No such endpoint: ${url.pathname}`);
+    });
+  }
+
+  /**
+   * Answers a GraphQL request. As with GraphQL over HTTP, a query that could not be run
+   * at all (no data) is a 400, while errors in some fields still come back as a 200.
+   */
+  graphql(request: GraphQLRequest): ApiResponse {
+    return this.catchErrors('/graphql', () => {
+      const { query, variables, operationName } = request;
+      if (typeof query !== 'string' || query.trim() === '') {
+        throw new ApiError(400, 'query must be a non-empty string');
+      }
+      if (variables != null && (typeof variables !== 'object' || Array.isArray(variables))) {
+        throw new ApiError(400, 'variables must be an object');
+      }
+      if (operationName != null && typeof operationName !== 'string') {
+        throw new ApiError(400, 'operationName must be a string');
+      }
+      const result = executeQuery(this.dataset, query, {
+        ...(variables && { variables: variables as Record<string, unknown> }),
+        ...(operationName && { operationName }),
+      });
+      return { status: result.data === undefined ? 400 : 200, body: result };
+    });
+  }
+
+  private catchErrors(pathname: string, handle: () => ApiResponse): ApiResponse {
+    try {
+      return handle();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return { status: error.status, body: { error: error.message } };
+      }
+      if (error instanceof URIError) {
+        return { status: 400, body: { error: `Malformed path: ${pathname}` } };
+      }
+      throw error;
+    }
+  }
+
+  private graphqlFromQuery(query: URLSearchParams): ApiResponse {
+    const variables = query.get('variables');
+    return this.graphql({
+      query: query.get('query'),
+      variables: variables ? parseJson(variables, 'variables') : undefined,
+      operationName: query.get('operationName'),
+    });
+  }
+
+  private index() {
+    return {
+      source: this.dataset.result.source,
+      scrapedAt: this.dataset.result.scrapedAt,
+      members: this.dataset.members.length,
+      endpoints: [
+        '/members?party=&partyId=&faction=&prefecture=&system=&area=&name=&limit=&offset=',
+        '/members/:id',
+        '/parties',
+        '/districts/:id',
+        '/districts/:prefecture/:number',
+        '/blocks/:area',
+        '/graphql',
+      ],
+    };
+  }
+
+  private paginate<T>(items: T[], query: URLSearchParams) {
+    const limit = positiveInteger(query.get('limit'), 'limit') ?? DEFAULT_LIMIT;
+    const offset = positiveInteger(query.get('offset'), 'offset', true) ?? 0;
+    if (limit > MAX_LIMIT) {
+      throw new ApiError(400, `limit must be at most ${MAX_LIMIT}`);
+    }
+    return { total: items.length, limit, offset, items: items.slice(offset, offset + limit) };
+  }
+
+  private member(id: string): DatasetMember {
+    const member = this.dataset.find(id);
+    if (!member) {
+      throw new ApiError(404, `No member with id ${id}`);
+    }
+    return member;
+  }
+
+  /**
+   * Parties with their member counts, largest first
+   */
+  private parties() {
+    return this.dataset.parties().map(({ party, partyId, members }) => ({
+      party,
+      ...(partyId && { partyId }),
+      members: members.length,
+    }));
+  }
+
+  /**
+   * The members elected in a 小選挙区; a registry district without members is a vacancy
+   */
+  private district(prefecture: string, number: string) {
+    const district = this.dataset.district(prefecture, number);
+    if (!district.id && district.members.length === 0) {
+      throw new ApiError(404, `No district ${district.prefecture} ${district.number}`);
+    }
+    return district;
+  }
+
+  private districtById(id: string) {
+    const district = this.dataset.districtById(id);
+    if (!district) {
+      throw new ApiError(404, `No district with id ${id}`);
+    }
+    return district;
+  }
+
+  /**
+   * The members elected from a 比例 block
+   */
+  private block(area: string) {
+    const block = this.dataset.block(area);
+    if (!block.id && block.members.length === 0) {
+      throw new ApiError(404, `No block ${block.area}`);
+    }
+    return block;
+  }
+}
+
+/**
+ * Serves a MemberApi over HTTP with ETags (answering If-None-Match with 304) and CORS
+ */
+export async function startApiServer(
+  api: MemberApi,
+  options: ApiServerOptions = {}
+): Promise<ApiServer> {
+  const { port = 0, host = '127.0.0.1', corsOrigin = '*' } = options;
+  const server = createServer((request, response) => {
+    respond(api, request, response, corsOrigin).catch(() => {
+      response.destroy();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, host, resolve));
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    server,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+async function respond(
+  api: MemberApi,
+  request: IncomingMessage,
+  response: ServerResponse,
+  corsOrigin: string
+): Promise<void> {
+  response.setHeader('Access-Control-Allow-Origin', corsOrigin);
+  response.setHeader('Access-Control-Expose-Headers', 'ETag');
+  if (corsOrigin !== '*') {
+    response.setHeader('Vary', 'Origin');
+  }
+
+  const isGraphql = new URL(request.url ?? '/', 'http://localhost').pathname === '/graphql';
+  const allow = isGraphql ? 'GET, HEAD, POST, OPTIONS' : 'GET, HEAD, OPTIONS';
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, {
+      'Access-Control-Allow-Methods': allow,
+      'Access-Control-Allow-Headers': 'Content-Type, If-None-Match',
+      'Access-Control-Max-Age': '86400',
+    });
+    response.end();
+    return;
+  }
+  if (isGraphql && request.method === 'POST') {
+    const body = await readBody(request);
+    send(request, response, body === undefined ? payloadTooLarge() : graphqlRequest(api, body));
+    return;
+  }
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    response.writeHead(405, { Allow: allow, 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ error: 'The API is read-only' }));
+    return;
+  }
+  send(request, response, api.handle(request.url ?? '/'));
+}
+
+function send(request: IncomingMessage, response: ServerResponse, { status, body }: ApiResponse) {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash('sha256').update(json).digest('hex').slice(0, 32)}"`;
+
+  const cached = request.headers['if-none-match']?.split(/\s*,\s*/) ?? [];
+  if (status === 200 && (cached.includes(etag) || cached.includes('*'))) {
+    response.writeHead(304, { ETag: etag });
+    response.end();
+    return;
+  }
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(json),
+    ...(status === 200 && { ETag: etag, 'Cache-Control': 'no-cache' }),
+  });
+  response.end(request.method === 'HEAD' ? undefined : json);
+}
+
+function graphqlRequest(api: MemberApi, body: string): ApiResponse {
+  try {
+    const request = parseJson(body, 'The request body');
+    if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+      throw new ApiError(400, 'The request body must be a JSON object');
+    }
+    return api.graphql(request as GraphQLRequest);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return { status: error.status, body: { error: error.message } };
+    }
+    throw error;
+  }
+}
+
+function payloadTooLarge(): ApiResponse {
+  return { status: 413, body: { error: `Request bodies are limited to ${MAX_BODY_BYTES} bytes` } };
+}
+
+/**
+ * Reads a request body
+ * @returns The body, or undefined when it is larger than MAX_BODY_BYTES
+ */
+function readBody(request: IncomingMessage): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    request.on('end', () =>
+      resolve(size > MAX_BODY_BYTES ? undefined : Buffer.concat(chunks).toString('utf-8'))
+    );
+    request.on('error', reject);
+  });
+}
+
+function memberFilter(query: URLSearchParams): MemberFilter {
+  const keys = ['party', 'partyId', 'faction', 'system', 'prefecture', 'area', 'name'] as const;
+  return Object.fromEntries(
+    keys.flatMap((key) => {
+      const value = query.get(key);
+      return value ? [[key, value]] : [];
+    })
+  );
+}
+
+function parseJson(text: string, subject: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ApiError(400, `${subject} is not valid JSON`);
+  }
+}
+
+function positiveInteger(value: string | null, name: string, allowZero = false) {
+  if (value === null) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < (allowZero ? 0 : 1)) {
+    throw new ApiError(400, `${name} must be a ${allowZero ? 'non-negative' : 'positive'} integer`);
+  }
+  return number;
+}
@@ -0,0 +1,73 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import type { CachedResult } from './cache';
+import { migrateResult } from './schema/migrations';
+
+export interface SnapshotEntry {
+  name: string; // Result file without extension, e.g. "diet-members"
+  scrapedAt: string; // ISO 8601
+  path: string;
+}
+
+/**
+ * Timestamped copies of every result file under out/snapshots/<name>/, so that the
+ * result files in out/ can be overwritten while earlier runs stay comparable
+ */
+export class SnapshotStore {
+  readonly dir: string;
+
+  constructor(dir: string = join(process.cwd(), 'out', 'snapshots')) {
+    this.dir = dir;
+  }
+
+  /**
+   * Keeps a copy of a result, named after its scrapedAt time
+   * @param filename - Result file the data was written to, e.g. "diet-members.json"
+   */
+  save(filename: string, result: CachedResult): SnapshotEntry {
+    const name = basename(filename, '.json');
+    const dir = join(this.dir, name);
+    mkdirSync(dir, { recursive: true });
+
+    const path = join(dir, `${result.scrapedAt.replace(/:/g, '-')}.json`);
+    writeFileSync(path, JSON.stringify(result, null, 2), 'utf-8');
+    return { name, scrapedAt: result.scrapedAt, path };
+  }
+
+  /**
+   * Snapshots of one result file, oldest first
+   */
+  list(name: string): SnapshotEntry[] {
+    const dir = join(this.dir, basename(name, '.json'));
+    if (!existsSync(dir)) {
+      return [];
+    }
+
+    return readdirSync(dir)
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map((file) => ({
+        name: basename(name, '.json'),
+        // 2025-04-01T09-30-00.000Z → 2025-04-01T09:30:00.000Z
+        scrapedAt: file.replace(/\.json$/, '').replace(/T(\d{2})-(\d{2})-(\d{2})/, 'T$1:$2:$3'),
+        path: join(dir, file),
+      }));
+  }
+
+  /**
+   * The latest snapshot taken before the given time (default: the latest overall)
+   */
+  latest(name: string, before?: string): SnapshotEntry | undefined {
+    return this.list(name)
+      .filter((entry) => before === undefined || entry.scrapedAt < before)
+      .at(-1);
+  }
+
+  /**
+   * Reads a snapshot, upgraded to the current schemaVersion so that old and new runs compare
+   */
+  load<T extends CachedResult>(entry: SnapshotEntry | string): T {
+    const path = typeof entry === 'string' ? entry : entry.path;
+    return migrateResult<T>(JSON.parse(readFileSync(path, 'utf-8'))).result;
+  }
+}
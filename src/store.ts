@@ -0,0 +1,476 @@
+import { mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import Database from 'better-sqlite3';
+import type { BlockId } from './districts';
+import type { PartyId } from './parties';
+import type { CouncillorProfile } from './scrapers/house-of-councillors/types';
+import type { MemberProfile } from './scrapers/house-of-representatives/types';
+import type { FetchFailure } from './scrapers/types';
+import type { Chamber, DietMember } from './types';
+
+export type MemberProfileData = MemberProfile | CouncillorProfile;
+
+// A member as found in any result file: the shared fields plus the chamber's profile
+export interface StoreMemberInput extends DietMember {
+  profile?: MemberProfileData | undefined;
+}
+
+export interface StoreRunInput {
+  members: StoreMemberInput[];
+  scrapedAt: string;
+  source: string;
+  failures?: FetchFailure[];
+}
+
+export interface StoredRun {
+  id: number;
+  chamber: Chamber;
+  source: string;
+  scrapedAt: string;
+  storedAt: string;
+  memberCount: number;
+  failureCount: number;
+}
+
+export interface StoredMember extends DietMember {
+  id: string;
+  chamber: Chamber;
+  firstSeenRunId: number;
+  lastSeenRunId: number; // Latest run that listed the member
+  updatedAt: string;
+  profile?: MemberProfileData;
+  profileRunId?: number; // Run that fetched the stored profile
+}
+
+export type PositionKind = 'current' | 'previous';
+export type PositionCategory = 'government' | 'party' | 'diet';
+
+export interface StoredPosition {
+  kind: PositionKind;
+  category: PositionCategory;
+  title: string;
+}
+
+export interface MemberQuery {
+  chamber?: Chamber;
+  partyId?: PartyId;
+  prefecture?: string;
+  system?: DietMember['election']['system'];
+  name?: string; // Part of the name or furigana, spacing ignored
+  runId?: number; // Only members listed in this run
+  limit?: number;
+  offset?: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chamber TEXT NOT NULL,
+    source TEXT NOT NULL,
+    scraped_at TEXT NOT NULL,
+    stored_at TEXT NOT NULL,
+    member_count INTEGER NOT NULL,
+    failure_count INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS members (
+    id TEXT PRIMARY KEY,
+    chamber TEXT NOT NULL,
+    name TEXT NOT NULL,
+    furigana TEXT,
+    party TEXT NOT NULL,
+    party_id TEXT,
+    faction TEXT,
+    profile_url TEXT,
+    election_count TEXT,
+    term_end TEXT,
+    reelection_year INTEGER,
+    first_seen_run_id INTEGER NOT NULL REFERENCES runs(id),
+    last_seen_run_id INTEGER NOT NULL REFERENCES runs(id),
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS run_members (
+    run_id INTEGER NOT NULL REFERENCES runs(id),
+    member_id TEXT NOT NULL REFERENCES members(id),
+    PRIMARY KEY (run_id, member_id)
+  );
+  CREATE TABLE IF NOT EXISTS elections (
+    member_id TEXT PRIMARY KEY REFERENCES members(id),
+    system TEXT NOT NULL,
+    prefecture TEXT,
+    number TEXT,
+    area TEXT,
+    district_id TEXT,
+    block_id TEXT,
+    dual_candidacy_district TEXT
+  );
+  CREATE TABLE IF NOT EXISTS profiles (
+    member_id TEXT PRIMARY KEY REFERENCES members(id),
+    run_id INTEGER NOT NULL REFERENCES runs(id),
+    as_of TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS positions (
+    member_id TEXT NOT NULL REFERENCES members(id),
+    kind TEXT NOT NULL,
+    category TEXT NOT NULL,
+    title TEXT NOT NULL,
+    PRIMARY KEY (member_id, kind, category, title)
+  );
+  CREATE INDEX IF NOT EXISTS members_party ON members(chamber, party_id);
+  CREATE INDEX IF NOT EXISTS elections_prefecture ON elections(prefecture);
+`;
+
+interface MemberRow {
+  id: string;
+  chamber: Chamber;
+  name: string;
+  furigana: string | null;
+  party: string;
+  party_id: string | null;
+  faction: string | null;
+  profile_url: string | null;
+  election_count: string | null;
+  term_end: string | null;
+  reelection_year: number | null;
+  first_seen_run_id: number;
+  last_seen_run_id: number;
+  updated_at: string;
+  system: DietMember['election']['system'];
+  prefecture: string | null;
+  number: string | null;
+  area: string | null;
+  district_id: string | null;
+  block_id: string | null;
+  dual_candidacy_district: string | null;
+  profile_run_id: number | null;
+  profile_data: string | null;
+}
+
+interface RunRow {
+  id: number;
+  chamber: Chamber;
+  source: string;
+  scraped_at: string;
+  stored_at: string;
+  member_count: number;
+  failure_count: number;
+}
+
+const MEMBER_SELECT = `
+  SELECT m.*, e.system, e.prefecture, e.number, e.area, e.district_id, e.block_id,
+         e.dual_candidacy_district,
+         p.run_id AS profile_run_id, p.data AS profile_data
+  FROM members m
+  JOIN elections e ON e.member_id = m.id
+  LEFT JOIN profiles p ON p.member_id = m.id
+`;
+
+/**
+ * Fallback key for members without a stable `id`: the chamber plus the name with
+ * spacing removed
+ */
+export function memberId(chamber: Chamber, name: string): string {
+  return `${chamber}:${name.replace(/[\s　]+/g, '')}`;
+}
+
+/**
+ * Chamber of a result, from its `source`
+ */
+export function chamberOfSource(source: string): Chamber {
+  if (source.startsWith('house-of-councillors')) return 'house-of-councillors';
+  if (source.startsWith('house-of-representatives')) return 'house-of-representatives';
+  throw new Error(`Unknown result source: ${source}`);
+}
+
+/**
+ * Flattens the current and previous positions of a profile into rows
+ */
+export function profilePositions(profile: MemberProfileData): StoredPosition[] {
+  const positions: StoredPosition[] = [];
+  if ('positions' in profile && profile.positions) {
+    // 参議院 profiles list their 役職 without grouping
+    for (const title of profile.positions) {
+      positions.push({ kind: 'current', category: 'diet', title });
+    }
+  }
+  if ('currentPositions' in profile || 'previousPositions' in profile) {
+    const hor = profile as MemberProfile;
+    const groups: [PositionKind, MemberProfile['currentPositions']][] = [
+      ['current', hor.currentPositions],
+      ['previous', hor.previousPositions],
+    ];
+    for (const [kind, group] of groups) {
+      for (const category of ['government', 'party', 'diet'] as const) {
+        for (const title of group?.[category] ?? []) {
+          positions.push({ kind, category, title });
+        }
+      }
+    }
+  }
+  return positions;
+}
+
+/**
+ * Optional SQLite store of scrape results (out/diet-members.sqlite by default).
+ * Each stored result becomes a run; members are upserted by memberId, so the tables
+ * always hold the latest data while run_members keeps who was listed in which run.
+ */
+export class MemberStore {
+  readonly path: string;
+  private readonly db: Database.Database;
+
+  constructor(path: string = join(process.cwd(), 'out', 'diet-members.sqlite')) {
+    this.path = path;
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+    this.addElectionColumns();
+  }
+
+  // Stores created before the district registry lack its columns; CREATE TABLE IF NOT
+  // EXISTS leaves their elections table as it was
+  private addElectionColumns(): void {
+    const columns = this.db.pragma('table_info(elections)') as { name: string }[];
+    for (const column of ['district_id', 'block_id', 'dual_candidacy_district']) {
+      if (!columns.some(({ name }) => name === column)) {
+        this.db.exec(`ALTER TABLE elections ADD COLUMN ${column} TEXT`);
+      }
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Stores a scrape result as a new run and upserts all of its members in one transaction
+   * @returns The id of the new run
+   */
+  recordRun(result: StoreRunInput): number {
+    const chamber = chamberOfSource(result.source);
+    return this.db.transaction(() => {
+      const { lastInsertRowid } = this.db
+        .prepare(
+          `INSERT INTO runs (chamber, source, scraped_at, stored_at, member_count, failure_count)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          chamber,
+          result.source,
+          result.scrapedAt,
+          new Date().toISOString(),
+          result.members.length,
+          result.failures?.length ?? 0
+        );
+      const runId = Number(lastInsertRowid);
+      for (const member of result.members) {
+        this.upsertMember(member, { chamber, runId });
+      }
+      return runId;
+    })();
+  }
+
+  /**
+   * Inserts or updates one member with its election, and its profile and positions
+   * when the member carries a profile (a run without profiles keeps the stored one)
+   * @returns The member id
+   */
+  upsertMember(member: StoreMemberInput, run: { chamber: Chamber; runId: number }): string {
+    const id = member.id ?? memberId(run.chamber, member.name);
+    const now = new Date().toISOString();
+
+    this.db
+      .prepare(
+        `INSERT INTO members (id, chamber, name, furigana, party, party_id, faction, profile_url,
+           election_count, term_end, reelection_year, first_seen_run_id, last_seen_run_id, updated_at)
+         VALUES (@id, @chamber, @name, @furigana, @party, @partyId, @faction, @profileUrl,
+           @electionCount, @termEnd, @reelectionYear, @runId, @runId, @now)
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name, furigana = excluded.furigana, party = excluded.party,
+           party_id = excluded.party_id, faction = excluded.faction,
+           profile_url = excluded.profile_url, election_count = excluded.election_count,
+           term_end = excluded.term_end, reelection_year = excluded.reelection_year,
+           last_seen_run_id = excluded.last_seen_run_id, updated_at = excluded.updated_at`
+      )
+      .run({
+        id,
+        chamber: run.chamber,
+        name: member.name,
+        furigana: member.furigana ?? null,
+        party: member.party,
+        partyId: member.partyId ?? null,
+        faction: member.faction ?? null,
+        profileUrl: member.profileUrl ?? null,
+        electionCount:
+          member.electionCount === undefined ? null : JSON.stringify(member.electionCount),
+        termEnd: member.termEnd ?? null,
+        reelectionYear: member.reelectionYear ?? null,
+        runId: run.runId,
+        now,
+      });
+
+    this.db
+      .prepare('INSERT OR IGNORE INTO run_members (run_id, member_id) VALUES (?, ?)')
+      .run(run.runId, id);
+
+    const { election } = member;
+    this.db
+      .prepare(
+        `INSERT INTO elections (member_id, system, prefecture, number, area, district_id,
+           block_id, dual_candidacy_district)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (member_id) DO UPDATE SET system = excluded.system,
+           prefecture = excluded.prefecture, number = excluded.number, area = excluded.area,
+           district_id = excluded.district_id, block_id = excluded.block_id,
+           dual_candidacy_district = excluded.dual_candidacy_district`
+      )
+      .run(
+        id,
+        election.system,
+        election.prefecture ?? null,
+        election.number ?? null,
+        election.area ?? null,
+        election.districtId ?? null,
+        election.blockId ?? null,
+        election.dualCandidacyDistrict ?? null
+      );
+
+    if (member.profile) {
+      this.saveProfile(id, run.runId, member.profile);
+    }
+    return id;
+  }
+
+  private saveProfile(id: string, runId: number, profile: MemberProfileData): void {
+    const asOf = 'asOf' in profile ? (profile.asOf?.date ?? null) : null;
+    this.db
+      .prepare(
+        `INSERT INTO profiles (member_id, run_id, as_of, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT (member_id) DO UPDATE SET
+           run_id = excluded.run_id, as_of = excluded.as_of, data = excluded.data`
+      )
+      .run(id, runId, asOf, JSON.stringify(profile));
+
+    this.db.prepare('DELETE FROM positions WHERE member_id = ?').run(id);
+    const insert = this.db.prepare(
+      'INSERT OR IGNORE INTO positions (member_id, kind, category, title) VALUES (?, ?, ?, ?)'
+    );
+    for (const position of profilePositions(profile)) {
+      insert.run(id, position.kind, position.category, position.title);
+    }
+  }
+
+  getMember(id: string): StoredMember | undefined {
+    const row = this.db.prepare(`${MEMBER_SELECT} WHERE m.id = ?`).get(id) as MemberRow | undefined;
+    return row && toStoredMember(row);
+  }
+
+  /**
+   * Members matching every given condition, ordered by furigana (then name)
+   */
+  findMembers(query: MemberQuery = {}): StoredMember[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.chamber) {
+      conditions.push('m.chamber = @chamber');
+      params['chamber'] = query.chamber;
+    }
+    if (query.partyId) {
+      conditions.push('m.party_id = @partyId');
+      params['partyId'] = query.partyId;
+    }
+    if (query.prefecture) {
+      conditions.push('e.prefecture = @prefecture');
+      params['prefecture'] = query.prefecture;
+    }
+    if (query.system) {
+      conditions.push('e.system = @system');
+      params['system'] = query.system;
+    }
+    if (query.name) {
+      conditions.push(
+        `(replace(replace(m.name, ' ', ''), '　', '') LIKE @name
+          OR replace(replace(m.furigana, ' ', ''), '　', '') LIKE @name)`
+      );
+      params['name'] = `%${query.name.replace(/[\s　]+/g, '')}%`;
+    }
+    if (query.runId !== undefined) {
+      conditions.push('m.id IN (SELECT member_id FROM run_members WHERE run_id = @runId)');
+      params['runId'] = query.runId;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(
+        `${MEMBER_SELECT} ${where} ORDER BY coalesce(m.furigana, m.name), m.name
+         LIMIT @limit OFFSET @offset`
+      )
+      .all({ ...params, limit: query.limit ?? -1, offset: query.offset ?? 0 }) as MemberRow[];
+    return rows.map(toStoredMember);
+  }
+
+  getPositions(id: string): StoredPosition[] {
+    return this.db
+      .prepare(
+        'SELECT kind, category, title FROM positions WHERE member_id = ? ORDER BY kind, category, rowid'
+      )
+      .all(id) as StoredPosition[];
+  }
+
+  /**
+   * Stored runs, newest first
+   */
+  listRuns(chamber?: Chamber): StoredRun[] {
+    const rows = (
+      chamber
+        ? this.db.prepare('SELECT * FROM runs WHERE chamber = ? ORDER BY id DESC').all(chamber)
+        : this.db.prepare('SELECT * FROM runs ORDER BY id DESC').all()
+    ) as RunRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      chamber: row.chamber,
+      source: row.source,
+      scrapedAt: row.scraped_at,
+      storedAt: row.stored_at,
+      memberCount: row.member_count,
+      failureCount: row.failure_count,
+    }));
+  }
+}
+
+function toStoredMember(row: MemberRow): StoredMember {
+  return {
+    id: row.id,
+    chamber: row.chamber,
+    name: row.name,
+    party: row.party,
+    election: {
+      system: row.system,
+      ...(row.prefecture !== null && { prefecture: row.prefecture }),
+      ...(row.number !== null && { number: row.number }),
+      ...(row.area !== null && { area: row.area }),
+      ...(row.district_id !== null && { districtId: row.district_id }),
+      ...(row.block_id !== null && { blockId: row.block_id as BlockId }),
+      ...(row.dual_candidacy_district !== null && {
+        dualCandidacyDistrict: row.dual_candidacy_district,
+      }),
+    },
+    ...(row.furigana !== null && { furigana: row.furigana }),
+    ...(row.party_id !== null && { partyId: row.party_id as PartyId }),
+    ...(row.faction !== null && { faction: row.faction }),
+    ...(row.profile_url !== null && { profileUrl: row.profile_url }),
+    ...(row.election_count !== null && { electionCount: JSON.parse(row.election_count) }),
+    ...(row.term_end !== null && { termEnd: row.term_end }),
+    ...(row.reelection_year !== null && { reelectionYear: row.reelection_year }),
+    firstSeenRunId: row.first_seen_run_id,
+    lastSeenRunId: row.last_seen_run_id,
+    updatedAt: row.updated_at,
+    ...(row.profile_data !== null && { profile: JSON.parse(row.profile_data) }),
+    ...(row.profile_run_id !== null && { profileRunId: row.profile_run_id }),
+  };
+}
@@ -1,19 +1,37 @@
+import type { BlockId } from './districts';
+import type { PartyId } from './parties';
+
+export type Chamber = 'house-of-representatives' | 'house-of-councillors';
+
 export interface DietMember {
+  id?: string; // Stable across runs: derived from name, furigana and birth date
   name: string;
   furigana?: string;
   party: string;
+  partyId?: PartyId;
+  faction?: string; // 会派 as listed on the source page
   profileUrl?: string;
   electionCount?: number | { house: number; senate?: number };
   election: {
-    system: 'single-seat' | 'proportional-representation';
+    system:
+      | 'single-seat'
+      | 'proportional-representation'
+      | 'prefectural-district'
+      | 'national-proportional';
     prefecture?: string | undefined;
     number?: string | undefined;
     area?: string | undefined;
+    districtId?: string | undefined; // 衆議院 小選挙区の正規ID (「okayama-1」)
+    blockId?: BlockId | undefined; // 衆議院 比例ブロック
+    dualCandidacyDistrict?: string | undefined; // 衆議院 比例: 重複立候補した小選挙区の正規ID
   };
+  termEnd?: string; // 参議院のみ: 任期満了日
+  reelectionYear?: number; // 参議院のみ: 改選年
 }
 
 export interface ScrapeResult {
+  schemaVersion: number; // SCHEMA_VERSION of the release that wrote the file
   members: DietMember[];
   scrapedAt: string;
-  source: 'house-of-representatives-list';
+  source: 'house-of-representatives-list' | 'house-of-councillors-list';
 }
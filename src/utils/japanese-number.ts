@@ -0,0 +1,107 @@
+// General parser for numbers written in kanji, Arabic or full-width digits,
+// e.g. 「二十一」「百二十」「一九四七」「２万５千」「参拾」.
+
+const DIGITS: Record<string, number> = {
+  〇: 0,
+  零: 0,
+  一: 1,
+  二: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9,
+};
+
+const SMALL_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+const LARGE_UNITS: Record<string, number> = { 万: 1e4, 億: 1e8, 兆: 1e12 };
+
+// 大字 (formal numerals used in legal documents) and old forms mapped to their common form
+const DAIJI: Record<string, string> = {
+  壱: '一',
+  壹: '一',
+  弐: '二',
+  貳: '二',
+  参: '三',
+  參: '三',
+  肆: '四',
+  伍: '五',
+  陸: '六',
+  漆: '七',
+  捌: '八',
+  玖: '九',
+  拾: '十',
+  佰: '百',
+  陌: '百',
+  阡: '千',
+  仟: '千',
+  萬: '万',
+};
+
+/**
+ * Characters that may appear in a Japanese numeral, for building regular expressions
+ */
+export const JAPANESE_NUMERAL_CHARS = `0-9０-９${Object.keys(DIGITS).join('')}${Object.keys(SMALL_UNITS).join('')}${Object.keys(LARGE_UNITS).join('')}${Object.keys(DAIJI).join('')}`;
+
+/**
+ * Parses a Japanese numeral
+ * @param text - Numeral such as "二十一", "百二十", "一九四七", "２万５千" or "参拾五"
+ * @returns The value, or null when the text is not a well-formed numeral
+ */
+export function parseJapaneseNumber(text: string | null | undefined): number | null {
+  if (!text) return null;
+
+  const normalized = Array.from(text.normalize('NFKC').replace(/[\s,，]/g, ''))
+    .map((char) => DAIJI[char] ?? char)
+    .join('');
+  if (!normalized) return null;
+
+  if (/^\d+$/.test(normalized)) {
+    return parseInt(normalized, 10);
+  }
+
+  let total = 0;
+  let section = 0; // value below the current 万/億 boundary
+  let digits: number | null = null; // pending run of digits, e.g. 一九四七
+  let lastSmallUnit = Number.POSITIVE_INFINITY;
+  let lastLargeUnit = Number.POSITIVE_INFINITY;
+
+  // Once a unit has been seen, a digit run may only be a single coefficient (二十一, not 二十一九)
+  const isValidCoefficient = (): boolean =>
+    digits === null || lastSmallUnit === Number.POSITIVE_INFINITY || digits < 10;
+
+  for (const char of normalized) {
+    const digit = /\d/.test(char) ? Number(char) : DIGITS[char];
+    const smallUnit = SMALL_UNITS[char];
+    const largeUnit = LARGE_UNITS[char];
+
+    if (digit !== undefined) {
+      digits = (digits ?? 0) * 10 + digit;
+    } else if (smallUnit !== undefined) {
+      // Units must decrease within a section: 千百十, never 十百; and a unit takes a
+      // single digit: 二十, never 二一十
+      if (smallUnit >= lastSmallUnit || (digits ?? 0) >= 10 || !isValidCoefficient()) {
+        return null;
+      }
+      section += (digits ?? 1) * smallUnit;
+      digits = null;
+      lastSmallUnit = smallUnit;
+    } else if (largeUnit !== undefined) {
+      if (largeUnit >= lastLargeUnit || !isValidCoefficient()) return null;
+      const value = section + (digits ?? 0);
+      if (value === 0) return null;
+      total += value * largeUnit;
+      section = 0;
+      digits = null;
+      lastSmallUnit = Number.POSITIVE_INFINITY;
+      lastLargeUnit = largeUnit;
+    } else {
+      return null;
+    }
+  }
+
+  if (!isValidCoefficient()) return null;
+  return total + section + (digits ?? 0);
+}
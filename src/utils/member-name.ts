@@ -0,0 +1,36 @@
+// Keys for matching Diet member names across pages and runs, which do not spell them the
+// same way: irregular full-width spacing, katakana readings and variant kanji.
+
+// Variant kanji that the member list and the 委員名簿 do not always spell the same way
+const VARIANT_KANJI: Record<string, string> = {
+  髙: '高',
+  﨑: '崎',
+  嵜: '崎',
+  德: '徳',
+  濵: '濱',
+  邊: '辺',
+  邉: '辺',
+  齋: '斎',
+  齊: '斉',
+  槗: '橋',
+  瀨: '瀬',
+};
+
+/**
+ * Key for matching member names across pages: no spacing, NFKC and common variant kanji folded
+ */
+export function normalizeMemberName(name: string): string {
+  return Array.from(name.normalize('NFKC').replace(/\s+/g, ''))
+    .map((char) => VARIANT_KANJI[char] ?? char)
+    .join('');
+}
+
+/**
+ * Key for matching furigana: no spacing, katakana folded to hiragana
+ */
+export function normalizeMemberFurigana(furigana: string): string {
+  return furigana
+    .normalize('NFKC')
+    .replace(/\s+/g, '')
+    .replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
@@ -0,0 +1,144 @@
+// Parser for Japanese era (和暦) dates as written on Diet member pages,
+// e.g. 「昭和二十九年六月」「令和7年3月」「平成元年一月八日」.
+
+import { JAPANESE_NUMERAL_CHARS, parseJapaneseNumber } from './japanese-number';
+
+export type DatePrecision = 'year' | 'month' | 'day';
+
+export interface PartialDate {
+  date: string; // ISO 8601: YYYY, YYYY-MM or YYYY-MM-DD depending on precision
+  precision: DatePrecision;
+  raw: string; // Matched source text
+}
+
+// start / end: first and last day (MM-DD) of the era in its first and last year. 明治 was
+// applied to the whole of 1868; the day an emperor died belongs to both eras.
+export const ERAS = [
+  { name: '明治', startYear: 1868, lastYear: 45, start: '01-01', end: '07-30' },
+  { name: '大正', startYear: 1912, lastYear: 15, start: '07-30', end: '12-25' },
+  { name: '昭和', startYear: 1926, lastYear: 64, start: '12-25', end: '01-07' },
+  { name: '平成', startYear: 1989, lastYear: 31, start: '01-08', end: '04-30' },
+  { name: '令和', startYear: 2019, lastYear: Number.POSITIVE_INFINITY, start: '05-01' },
+] as const;
+
+export type EraName = (typeof ERAS)[number]['name'];
+
+/**
+ * Returns the era a 和暦 date was written in, e.g. 平成 for 「平成十一年一月」
+ */
+export function getEraName(date: PartialDate): EraName | undefined {
+  return ERAS.find((era) => date.raw.startsWith(era.name))?.name;
+}
+
+const NUMERAL = `[${JAPANESE_NUMERAL_CHARS}]+`;
+const ERA_PATTERN = ERAS.map((era) => era.name).join('|');
+const WAREKI_DATE_REGEX = new RegExp(
+  `(${ERA_PATTERN})\\s*(元|${NUMERAL})\\s*年(?:\\s*(${NUMERAL})\\s*月(?:\\s*(${NUMERAL})\\s*日)?)?`
+);
+// Era omitted, as in the second half of 「平成十一年一月～十二年一月」
+const ERA_YEAR_DATE_REGEX = new RegExp(
+  `^\\s*(元|${NUMERAL})\\s*年(?:\\s*(${NUMERAL})\\s*月(?:\\s*(${NUMERAL})\\s*日)?)?`
+);
+// 西暦 written digit by digit, e.g. 「一九四七年十二月」「1986年」
+const SEIREKI_DATE_REGEX = new RegExp(
+  `([0-9０-９〇一二三四五六七八九]{4})\\s*年(?:\\s*(${NUMERAL})\\s*月(?:\\s*(${NUMERAL})\\s*日)?)?`
+);
+
+function buildDate(
+  year: number,
+  month: number | null,
+  day: number | null,
+  raw: string
+): PartialDate | null {
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  if (month === null) {
+    return { date: String(year), precision: 'year', raw };
+  }
+  if (month < 1 || month > 12) return null;
+
+  if (day === null) {
+    return { date: `${year}-${pad(month)}`, precision: 'month', raw };
+  }
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day < 1 || day > daysInMonth) return null;
+
+  return { date: `${year}-${pad(month)}-${pad(day)}`, precision: 'day', raw };
+}
+
+/**
+ * Converts an era year to the Gregorian year, or null when the era never reached that year
+ */
+export function eraToGregorianYear(era: EraName, eraYear: number): number | null {
+  const definition = ERAS.find((e) => e.name === era);
+  if (!definition || eraYear < 1 || eraYear > definition.lastYear) {
+    return null;
+  }
+  return definition.startYear + eraYear - 1;
+}
+
+/**
+ * Whether a month or day of an era year falls within the era, e.g. not 「昭和六十四年十二月」
+ */
+function isWithinEra(era: EraName, eraYear: number, date: PartialDate | null): boolean {
+  const definition = ERAS.find((e) => e.name === era);
+  if (!definition || !date || date.precision === 'year') return true;
+
+  const monthDay = date.date.slice(5); // MM or MM-DD
+  if (eraYear === 1 && monthDay < definition.start.slice(0, monthDay.length)) return false;
+  if ('end' in definition && eraYear === definition.lastYear) {
+    return monthDay <= definition.end.slice(0, monthDay.length);
+  }
+  return true;
+}
+
+/**
+ * Finds and parses the first 和暦 (or kanji 西暦) date in the text
+ * @param text - Free text such as 「昭和二十九年六月岡山県岡山市に生まれる」
+ * @param options.defaultEra - Era for a leading date written without one, e.g. the end of a range
+ * @returns The parsed date with its precision, or null if no valid date is present
+ */
+export function parseWarekiDate(
+  text: string | null | undefined,
+  options: { defaultEra?: EraName } = {}
+): PartialDate | null {
+  if (!text) return null;
+
+  const wareki = text.match(WAREKI_DATE_REGEX);
+  if (wareki?.[1] && wareki[2]) {
+    const eraYear = wareki[2] === '元' ? 1 : parseJapaneseNumber(wareki[2]);
+    const year = eraYear === null ? null : eraToGregorianYear(wareki[1] as EraName, eraYear);
+    if (year === null) return null;
+
+    const month = wareki[3] ? parseJapaneseNumber(wareki[3]) : null;
+    const day = wareki[4] ? parseJapaneseNumber(wareki[4]) : null;
+    const date = buildDate(year, month, day, wareki[0]);
+    return eraYear !== null && isWithinEra(wareki[1] as EraName, eraYear, date) ? date : null;
+  }
+
+  const eraYearOnly = options.defaultEra ? text.match(ERA_YEAR_DATE_REGEX) : null;
+  if (options.defaultEra && eraYearOnly?.[1]) {
+    const eraYear = eraYearOnly[1] === '元' ? 1 : parseJapaneseNumber(eraYearOnly[1]);
+    // A four-digit year is 西暦, not an era year
+    const year =
+      eraYear === null || eraYear >= 100 ? null : eraToGregorianYear(options.defaultEra, eraYear);
+    if (year !== null) {
+      const month = eraYearOnly[2] ? parseJapaneseNumber(eraYearOnly[2]) : null;
+      const day = eraYearOnly[3] ? parseJapaneseNumber(eraYearOnly[3]) : null;
+      const date = buildDate(year, month, day, eraYearOnly[0].trim());
+      return eraYear !== null && isWithinEra(options.defaultEra, eraYear, date) ? date : null;
+    }
+  }
+
+  const seireki = text.match(SEIREKI_DATE_REGEX);
+  if (seireki?.[1]) {
+    const year = parseJapaneseNumber(seireki[1]);
+    if (year === null) return null;
+
+    const month = seireki[2] ? parseJapaneseNumber(seireki[2]) : null;
+    const day = seireki[3] ? parseJapaneseNumber(seireki[3]) : null;
+    return buildDate(year, month, day, seireki[0]);
+  }
+
+  return null;
+}
@@ -0,0 +1,116 @@
+// Concurrency helpers for polite scraping: a sliding-window worker pool and a
+// shared limiter that spaces out request starts and backs off when the site slows down.
+
+export interface RateLimiterOptions {
+  minIntervalMs: number; // Between two request starts, across all workers
+  slowResponseMs?: number; // Responses slower than this trigger backoff (default: 5000)
+  maxBackoffMs?: number; // Upper bound for the extra wait (default: 30000)
+  onBackoffChange?: (backoffMs: number) => void;
+}
+
+export class AdaptiveRateLimiter {
+  readonly minIntervalMs: number;
+  private readonly slowResponseMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly onBackoffChange: ((backoffMs: number) => void) | undefined;
+  private nextStart = 0;
+  private backoff = 0;
+
+  constructor(options: RateLimiterOptions) {
+    this.minIntervalMs = Math.max(0, options.minIntervalMs);
+    this.slowResponseMs = options.slowResponseMs ?? 5000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 30000;
+    this.onBackoffChange = options.onBackoffChange;
+  }
+
+  /**
+   * Limiter allowing at most `requestsPerSecond` request starts per second
+   */
+  static perSecond(
+    requestsPerSecond: number,
+    options: Omit<RateLimiterOptions, 'minIntervalMs'> = {}
+  ): AdaptiveRateLimiter {
+    return new AdaptiveRateLimiter({
+      ...options,
+      minIntervalMs: requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0,
+    });
+  }
+
+  // Extra wait added to every interval while the site is slow or failing
+  get backoffMs(): number {
+    return this.backoff;
+  }
+
+  /**
+   * Waits for the next free request slot; slots are handed out in call order
+   */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const start = Math.max(now, this.nextStart);
+    this.nextStart = start + this.minIntervalMs + this.backoff;
+    if (start > now) {
+      await new Promise((resolve) => setTimeout(resolve, start - now));
+    }
+  }
+
+  /**
+   * Feeds back how a request went: slow or failed responses double the backoff,
+   * fast successful ones halve it again
+   */
+  report(durationMs: number, ok: boolean): void {
+    const previous = this.backoff;
+    if (!ok || durationMs > this.slowResponseMs) {
+      this.backoff = Math.min(this.maxBackoffMs, Math.max(this.backoff * 2, 500));
+    } else if (this.backoff > 0) {
+      this.backoff = this.backoff < 250 ? 0 : Math.floor(this.backoff / 2);
+    }
+
+    if (this.backoff !== previous) {
+      this.onBackoffChange?.(this.backoff);
+    }
+  }
+}
+
+export interface WorkerPoolOptions {
+  concurrency: number;
+  limiter?: AdaptiveRateLimiter;
+}
+
+/**
+ * Runs `worker` over `items` with up to `concurrency` tasks in flight; a worker picks the
+ * next item as soon as it finishes, so one slow item does not hold up the others.
+ * The worker returns whether the item succeeded, which feeds the limiter's backoff.
+ * Once a worker throws, no further items are started and the pool rejects with that error.
+ */
+export async function runWorkerPool<T>(
+  items: readonly T[],
+  worker: (item: T, index: number) => Promise<boolean>,
+  options: WorkerPoolOptions
+): Promise<void> {
+  const { limiter } = options;
+  const concurrency = Math.max(1, Math.floor(Number(options.concurrency) || 1));
+  let nextIndex = 0;
+  let failed = false;
+
+  const runWorker = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      const item = items[index] as T;
+
+      await limiter?.acquire();
+      if (failed) return;
+      const startedAt = Date.now();
+      let ok = false;
+      try {
+        ok = await worker(item, index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      } finally {
+        limiter?.report(Date.now() - startedAt, ok);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => runWorker()));
+}
@@ -0,0 +1,219 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  type DiffableResult,
+  diffResults,
+  type FieldChange,
+  type MemberChange,
+  type ResultDiff,
+} from './diff';
+import {
+  checkHttpStatus,
+  classifyFetchError,
+  PageFetchError,
+  type RetryOptions,
+  withRetry,
+} from './scrapers/fetch';
+
+export const SIGNATURE_HEADER = 'X-Mieruca-Signature';
+export const EVENT_HEADER = 'X-Mieruca-Event';
+
+export interface ChangeNotification {
+  event: 'members.changed';
+  source: string;
+  from: string;
+  to: string;
+  summary: { added: number; removed: number; partyChanges: number; positionChanges: number };
+  changes: MemberChange[];
+}
+
+export interface WebhookOptions extends RetryOptions {
+  secret?: string | undefined; // Signs the body with HMAC-SHA256 when set
+  timeout?: number; // Per request (default: 10000)
+}
+
+// Fields whose change is worth a notification; district and reading corrections are not
+const PARTY_FIELDS = ['party', 'partyId', 'faction'];
+const isPartyChange = (change: FieldChange) => PARTY_FIELDS.includes(change.field);
+const isPositionChange = (change: FieldChange) =>
+  change.field.startsWith('profile.currentPositions.');
+
+/**
+ * Picks the changes a webhook reports: members added or removed, party switches and
+ * changed positions
+ * @returns null when there is nothing to notify
+ */
+export function buildChangeNotification(diff: ResultDiff): ChangeNotification | null {
+  const changes = diff.changes.flatMap((change): MemberChange[] => {
+    if (change.type !== 'modified') return [change];
+    const relevant = change.changes.filter((c) => isPartyChange(c) || isPositionChange(c));
+    return relevant.length > 0 ? [{ ...change, changes: relevant }] : [];
+  });
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const modified = changes.flatMap((change) => (change.type === 'modified' ? [change] : []));
+  return {
+    event: 'members.changed',
+    source: diff.source,
+    from: diff.from,
+    to: diff.to,
+    summary: {
+      added: changes.filter((change) => change.type === 'added').length,
+      removed: changes.filter((change) => change.type === 'removed').length,
+      partyChanges: modified.filter((change) => change.changes.some(isPartyChange)).length,
+      positionChanges: modified.filter((change) => change.changes.some(isPositionChange)).length,
+    },
+    changes,
+  };
+}
+
+/**
+ * Signature header value for a request body: "sha256=<hex HMAC-SHA256>"
+ */
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body, 'utf-8').digest('hex')}`;
+}
+
+/**
+ * Checks a signature header in constant time
+ */
+export function verifySignature(body: string, signature: string | undefined, secret: string) {
+  const expected = Buffer.from(signPayload(body, secret));
+  const actual = Buffer.from(signature ?? '');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * POSTs a notification as JSON, retrying timeouts, dropped connections, 5xx, 408 and 429
+ * with the same backoff as page fetches
+ * @throws PageFetchError - After the last attempt, with `attempts` set
+ */
+export async function sendWebhook(
+  url: string,
+  notification: ChangeNotification,
+  options: WebhookOptions = {}
+): Promise<void> {
+  const { secret, timeout = 10000 } = options;
+  const body = JSON.stringify(notification);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    [EVENT_HEADER]: notification.event,
+    ...(secret && { [SIGNATURE_HEADER]: signPayload(body, secret) }),
+  };
+
+  await withRetry(
+    url,
+    async () => {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(timeout),
+        });
+      } catch (error) {
+        if (error instanceof Error && error.name === 'TimeoutError') {
+          throw new PageFetchError('timeout', url, `Timeout ${timeout}ms exceeded`, {
+            cause: error,
+          });
+        }
+        throw classifyFetchError(error, url);
+      }
+      checkHttpStatus(url, response.status);
+    },
+    options
+  );
+}
+
+/**
+ * Diffs two results and POSTs the changes that matter, if there are any
+ * @returns The notification that was sent, or null when nothing relevant changed
+ */
+export async function notifyChanges(
+  url: string,
+  before: DiffableResult,
+  after: DiffableResult,
+  options: WebhookOptions = {}
+): Promise<ChangeNotification | null> {
+  const notification = buildChangeNotification(diffResults(before, after));
+  if (notification) {
+    await sendWebhook(url, notification, options);
+  }
+  return notification;
+}
+
+export interface ReceivedWebhook {
+  headers: IncomingHttpHeaders;
+  body: string;
+  payload: unknown;
+  verified: boolean | null; // null when the receiver has no secret
+}
+
+export interface WebhookReceiverOptions {
+  port?: number; // Default: any free port
+  secret?: string | undefined; // Requests with a wrong signature are answered with 401
+  statuses?: number[];
+  onReceive?: (webhook: ReceivedWebhook) => void;
+}
+
+export interface WebhookReceiver {
+  url: string;
+  received: ReceivedWebhook[];
+  close(): Promise<void>;
+}
+
+/**
+ * Minimal local endpoint for trying out and testing notifications without an external
+ * service. It records every POST; `statuses` are answered in turn (then 200), e.g.
+ * [503] to exercise a retry.
+ */
+export async function startWebhookReceiver(
+  options: WebhookReceiverOptions = {}
+): Promise<WebhookReceiver> {
+  const { port = 0, secret, onReceive } = options;
+  const statuses = [...(options.statuses ?? [])];
+  const received: ReceivedWebhook[] = [];
+
+  const server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf-8');
+      const signature = request.headers[SIGNATURE_HEADER.toLowerCase()];
+      const webhook: ReceivedWebhook = {
+        headers: request.headers,
+        body,
+        payload: parseJson(body),
+        verified: secret
+          ? verifySignature(body, Array.isArray(signature) ? signature[0] : signature, secret)
+          : null,
+      };
+      received.push(webhook);
+      onReceive?.(webhook);
+
+      const status = webhook.verified === false ? 401 : (statuses.shift() ?? 200);
+      response.writeHead(status).end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${address.port}/`,
+    received,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
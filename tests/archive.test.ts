@@ -0,0 +1,113 @@
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import { HtmlArchive } from '../src/archive';
+import { HouseOfRepresentativesScraper } from '../src/scrapers/house-of-representatives/scraper';
+
+const LIST_URL = 'https://www.shugiin.go.jp/internet/itdb_annai.nsf/html/statics/syu/1giin.htm';
+const PROFILE_URL =
+  'https://www.shugiin.go.jp/internet/itdb_annai.nsf/html/statics/syu/profile/a001.html';
+
+// Trimmed copies of the 議員一覧 and a profile page
+const listPage = (party: string) => `
+  <html>
+    <body>
+      <table>
+        <tr><td>氏名</td><td>ふりがな</td><td>会派</td><td>選挙区</td><td>当選回数</td></tr>
+        <tr>
+          <td><a href="../../../../itdb_annai.nsf/html/statics/syu/profile/a001.html">逢沢　一郎君</a></td>
+          <td>あいさわ　いちろう</td>
+          <td>${party}</td>
+          <td>岡山1</td>
+          <td>13</td>
+        </tr>
+      </table>
+    </body>
+  </html>
+`;
+
+const PROFILE_PAGE = `
+  <html>
+    <body>
+      <h2>逢沢 一郎（あいさわ いちろう）</h2>
+      <p>小選挙区（岡山県第一区）選出、自由民主党・無所属の会 昭和二十九年六月岡山県岡山市に生まれる、慶應義塾大学工学部卒業○当選十三回 （令和7年3月現在）</p>
+    </body>
+  </html>
+`;
+
+test.describe('HtmlArchive', () => {
+  let dir: string;
+  let archive: HtmlArchive;
+
+  test.beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'html-archive-'));
+    archive = new HtmlArchive(dir);
+  });
+
+  test.afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should store identical pages once and record every fetch', () => {
+    const first = archive.save(LIST_URL, listPage('自民'), 'member-list', '2025-01-06T00:00:00Z');
+    const second = archive.save(LIST_URL, listPage('自民'), 'member-list', '2025-01-13T00:00:00Z');
+
+    expect(first.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(second.hash).toBe(first.hash);
+    expect(readdirSync(join(dir, 'objects', first.hash.slice(0, 2)))).toEqual([
+      `${first.hash}.html`,
+    ]);
+    expect(archive.entries()).toHaveLength(2);
+    expect(archive.load(first.hash)).toBe(listPage('自民'));
+  });
+
+  test('latest should pick the newest fetch of each URL up to asOf', () => {
+    archive.save(LIST_URL, listPage('自民'), 'member-list', '2025-01-06T00:00:00Z');
+    archive.save(PROFILE_URL, PROFILE_PAGE, 'profile', '2025-01-06T00:01:00Z');
+    const updated = archive.save(LIST_URL, listPage('無'), 'member-list', '2025-02-03T00:00:00Z');
+
+    expect(archive.latest({ kind: 'member-list' })).toEqual([updated]);
+    expect(
+      archive.latest({ kind: 'member-list', asOf: '2025-01-31T00:00:00Z' }).map((e) => e.fetchedAt)
+    ).toEqual(['2025-01-06T00:00:00Z']);
+    expect(archive.latest({ kind: 'profile' }).map((e) => e.url)).toEqual([PROFILE_URL]);
+  });
+
+  test('should report a missing page', () => {
+    expect(archive.entries()).toEqual([]);
+    expect(() => archive.load('0'.repeat(64))).toThrow('not found');
+  });
+
+  test.describe('reparseArchive', () => {
+    let scraper: HouseOfRepresentativesScraper;
+
+    test.beforeEach(async () => {
+      scraper = new HouseOfRepresentativesScraper();
+      await scraper.initialize();
+    });
+
+    test.afterEach(async () => {
+      await scraper.close();
+    });
+
+    test('should rebuild members and profiles from the archive', async () => {
+      archive.save(LIST_URL, listPage('自民'), 'member-list', '2025-01-06T00:00:00Z');
+      archive.save(PROFILE_URL, PROFILE_PAGE, 'profile', '2025-01-06T00:01:00Z');
+      archive.save(LIST_URL, listPage('無'), 'member-list', '2025-02-03T00:00:00Z');
+
+      const result = await scraper.reparseArchive(archive, { asOf: '2025-01-31T00:00:00Z' });
+      expect(result.scrapedAt).toBe('2025-01-06T00:00:00Z');
+      expect(result.members).toHaveLength(1);
+      expect(result.members[0]).toMatchObject({
+        name: '逢沢　一郎',
+        partyId: 'ldp',
+        profileUrl: PROFILE_URL,
+      });
+      expect(result.members[0]?.profile?.birth?.date).toBe('1954-06');
+
+      const latest = await scraper.reparseArchive(archive);
+      expect(latest.members[0]?.party).toBe('無所属');
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { expect, test } from '@playwright/test';
 import { PREFECTURES, SCRAPING_CONFIG } from '../src/constants';
+import { HOUSE_OF_COUNCILLORS_CONFIG } from '../src/scrapers/house-of-councillors';
 import { HOUSE_OF_REPRESENTATIVES_CONFIG } from '../src/scrapers/house-of-representatives';
 
 test.describe('Constants', () => {
@@ -43,6 +44,7 @@ test.describe('Constants', () => {
 
     expect(HOUSE_OF_REPRESENTATIVES_CONFIG.URLS).toHaveProperty('BASE_URL');
     expect(HOUSE_OF_REPRESENTATIVES_CONFIG.URLS).toHaveProperty('ALL_PAGES');
+    expect(HOUSE_OF_REPRESENTATIVES_CONFIG.URLS).toHaveProperty('COMMITTEE_LIST');
     expect(HOUSE_OF_REPRESENTATIVES_CONFIG.TIMEOUTS).toHaveProperty('PAGE_LOAD');
 
     expect(typeof HOUSE_OF_REPRESENTATIVES_CONFIG.URLS.BASE_URL).toBe('string');
@@ -51,6 +53,8 @@ test.describe('Constants', () => {
     expect(Array.isArray(HOUSE_OF_REPRESENTATIVES_CONFIG.SYLLABARY_NAMES)).toBe(true);
     expect(HOUSE_OF_REPRESENTATIVES_CONFIG.SYLLABARY_NAMES).toHaveLength(10);
     expect(typeof HOUSE_OF_REPRESENTATIVES_CONFIG.TIMEOUTS.PAGE_LOAD).toBe('number');
+    // All 17 常任委員会 have a fixed id
+    expect(Object.keys(HOUSE_OF_REPRESENTATIVES_CONFIG.STANDING_COMMITTEE_IDS)).toHaveLength(17);
   });
 
   test('HOUSE_OF_REPRESENTATIVES_CONFIG URLs should be valid', () => {
@@ -100,4 +104,10 @@ test.describe('Constants', () => {
     expect(HOUSE_OF_REPRESENTATIVES_CONFIG.TIMEOUTS.PAGE_LOAD).toBeGreaterThan(0);
     expect(HOUSE_OF_REPRESENTATIVES_CONFIG.TIMEOUTS.PAGE_LOAD).toBeLessThanOrEqual(30000); // <= 30 seconds for CI headroom
   });
+
+  test('HOUSE_OF_COUNCILLORS_CONFIG should have correct structure', () => {
+    expect(HOUSE_OF_COUNCILLORS_CONFIG.URLS.BASE_URL).toMatch(/^https:\/\/www\.sangiin\.go\.jp\//);
+    expect(HOUSE_OF_COUNCILLORS_CONFIG.TOTAL_SEATS).toBe(248);
+    expect(HOUSE_OF_COUNCILLORS_CONFIG.TIMEOUTS.PAGE_LOAD).toBeGreaterThan(0);
+  });
 });
@@ -0,0 +1,121 @@
+import { expect, test } from '@playwright/test';
+import {
+  MemberDataset,
+  normalizeBlock,
+  normalizeDistrictNumber,
+  normalizePrefecture,
+} from '../src/dataset';
+import type { ExportableResult } from '../src/export';
+
+const RESULT: ExportableResult = {
+  members: [
+    {
+      id: 'm-aisawa',
+      name: '逢沢　一郎',
+      party: '自由民主党',
+      partyId: 'ldp',
+      election: { system: 'single-seat', prefecture: '岡山', number: '1' },
+      committees: [{ id: 'budget', name: '予算委員会', role: 'chair' }],
+    },
+    {
+      id: 'm-aoyagi',
+      name: '青柳　仁士',
+      party: '日本維新の会',
+      partyId: 'ishin',
+      election: {
+        system: 'proportional-representation',
+        area: '近畿',
+        dualCandidacyDistrict: 'osaka-9',
+      },
+      committees: [{ id: 'budget', name: '予算委員会', role: 'member' }],
+    },
+    {
+      id: 'm-kokumin',
+      name: '無所属　太郎',
+      party: '新党あたらし',
+      election: { system: 'single-seat', prefecture: '東京', number: '01' },
+    },
+  ],
+  scrapedAt: '2025-04-01T00:00:00.000Z',
+  source: 'house-of-representatives-list',
+};
+
+test.describe('MemberDataset', () => {
+  const dataset = new MemberDataset(RESULT);
+
+  test('should group members by party, falling back to the party name', () => {
+    expect(dataset.parties().map(({ key, members }) => [key, members.length])).toEqual([
+      ['ldp', 1],
+      ['ishin', 1],
+      ['新党あたらし', 1],
+    ]);
+    expect(dataset.party('自由民主党')?.key).toBe('ldp');
+    expect(dataset.party('unknown')).toBeUndefined();
+  });
+
+  test('should list every registry district and block with its members', () => {
+    const districts = dataset.districts();
+    expect(districts).toHaveLength(289);
+    expect(districts.filter((district) => district.members.length > 0).map((d) => d.id)).toEqual([
+      'tokyo-1',
+      'okayama-1',
+    ]);
+    expect(dataset.district('東京都', '１')).toMatchObject({
+      id: 'tokyo-1',
+      name: '東京1区',
+      blockId: 'tokyo',
+      members: [{ id: 'm-kokumin' }],
+    });
+    expect(dataset.districtById('okayama-2')).toMatchObject({ prefecture: '岡山', members: [] });
+    expect(dataset.districtById('okayama-9')).toBeUndefined();
+    expect(dataset.district('岡山', '9')).toEqual({
+      prefecture: '岡山',
+      number: '9',
+      members: [],
+      proportionalMembers: [],
+    });
+
+    expect(dataset.blocks().map((block) => block.id)).toHaveLength(11);
+    expect(dataset.block('kinki')).toEqual({
+      id: 'kinki',
+      area: '近畿',
+      seats: 28,
+      members: [dataset.members[1]],
+    });
+    expect(dataset.block('北海道ブロック').members).toEqual([]);
+  });
+
+  test('should return the 比例復活 members of a district next to its winner', () => {
+    expect(dataset.districtById('osaka-9')).toMatchObject({
+      name: '大阪9区',
+      members: [],
+      proportionalMembers: [{ id: 'm-aoyagi' }],
+    });
+    expect(dataset.districtById('okayama-1')?.proportionalMembers).toEqual([]);
+  });
+
+  test('should collect committees from the members', () => {
+    expect(dataset.committees()).toEqual([
+      {
+        id: 'budget',
+        name: '予算委員会',
+        members: [
+          { role: 'chair', member: dataset.members[0] },
+          { role: 'member', member: dataset.members[1] },
+        ],
+      },
+    ]);
+  });
+});
+
+test.describe('normalizePrefecture', () => {
+  test('should accept names with and without the suffix', () => {
+    expect(normalizePrefecture('岡山県')).toBe('岡山');
+    expect(normalizePrefecture('東京都')).toBe('東京');
+    expect(normalizePrefecture('京都府')).toBe('京都');
+    expect(normalizePrefecture('北海道')).toBe('北海道');
+    expect(normalizePrefecture('京都')).toBe('京都');
+    expect(normalizeDistrictNumber('０３')).toBe('3');
+    expect(normalizeBlock('近畿ブロック')).toBe('近畿');
+  });
+});
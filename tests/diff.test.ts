@@ -0,0 +1,119 @@
+import { expect, test } from '@playwright/test';
+import { type DiffableMember, type DiffableResult, diffResults, formatDiff } from '../src/diff';
+
+const result = (members: DiffableMember[], scrapedAt: string): DiffableResult => ({
+  members,
+  scrapedAt,
+  source: 'house-of-representatives-list',
+});
+
+const AISAWA: DiffableMember = {
+  id: 'm-aisawa',
+  name: '逢沢　一郎',
+  furigana: 'あいさわ　いちろう',
+  party: '自由民主党',
+  partyId: 'ldp',
+  faction: '自民',
+  election: { system: 'single-seat', prefecture: '岡山県', number: '1' },
+  profile: { currentPositions: { diet: ['衆議院政治倫理審査会会長'] } },
+};
+
+const AOYAGI: DiffableMember = {
+  id: 'm-aoyagi',
+  name: '青柳　仁士',
+  party: '日本維新の会',
+  partyId: 'ishin',
+  election: { system: 'proportional-representation', area: '近畿' },
+};
+
+const NEWCOMER: DiffableMember = {
+  id: 'm-newcomer',
+  name: '新人　太郎',
+  party: '立憲民主党',
+  partyId: 'cdp',
+  election: { system: 'single-seat', prefecture: '東京都', number: '15' },
+};
+
+test.describe('diffResults', () => {
+  test('should list added, removed and modified members with field changes', () => {
+    const before = result([AISAWA, AOYAGI], '2025-04-01T00:00:00.000Z');
+    const after = result(
+      [
+        {
+          ...AISAWA,
+          profile: { currentPositions: { diet: ['予算委員会委員長', '衆議院政治倫理審査会会長'] } },
+        },
+        NEWCOMER,
+      ],
+      '2025-04-08T00:00:00.000Z'
+    );
+
+    const diff = diffResults(before, after);
+    expect(diff.summary).toEqual({ added: 1, removed: 1, modified: 1, unchanged: 0 });
+    expect(diff.changes).toEqual([
+      {
+        type: 'modified',
+        key: 'm-aisawa',
+        name: '逢沢　一郎',
+        changes: [
+          {
+            field: 'profile.currentPositions.diet',
+            before: ['衆議院政治倫理審査会会長'],
+            after: ['予算委員会委員長', '衆議院政治倫理審査会会長'],
+          },
+        ],
+      },
+      { type: 'added', key: 'm-newcomer', name: '新人　太郎', member: NEWCOMER },
+      { type: 'removed', key: 'm-aoyagi', name: '青柳　仁士', member: AOYAGI },
+    ]);
+  });
+
+  test('should report party switches and district changes', () => {
+    const switched: DiffableMember = {
+      ...AOYAGI,
+      party: '無所属',
+      election: { system: 'single-seat', prefecture: '大阪府', number: '14' },
+    };
+    delete switched.partyId;
+
+    const diff = diffResults(
+      result([AOYAGI], '2025-04-01T00:00:00.000Z'),
+      result([switched], '2025-04-08T00:00:00.000Z')
+    );
+    const [change] = diff.changes;
+    expect(change?.type === 'modified' && change.changes).toEqual([
+      { field: 'party', before: '日本維新の会', after: '無所属' },
+      { field: 'partyId', before: 'ishin', after: undefined },
+      { field: 'election.system', before: 'proportional-representation', after: 'single-seat' },
+      { field: 'election.prefecture', before: undefined, after: '大阪府' },
+      { field: 'election.number', before: undefined, after: '14' },
+      { field: 'election.area', before: '近畿', after: undefined },
+    ]);
+  });
+
+  test('should not compare profiles or committees missing from one result', () => {
+    const basic: DiffableMember = { ...AISAWA, committees: [] };
+    delete basic.profile;
+
+    const diff = diffResults(
+      result([AISAWA], '2025-04-01T00:00:00.000Z'),
+      result([basic], '2025-04-08T00:00:00.000Z')
+    );
+    expect(diff.summary).toMatchObject({ modified: 0, unchanged: 1 });
+  });
+
+  test('should pair members by name when a result has no ids', () => {
+    const { id: _id, ...withoutId } = AISAWA;
+    const diff = diffResults(
+      result([{ ...withoutId, name: '逢沢 一郎' }], '2025-04-01T00:00:00.000Z'),
+      result([AISAWA], '2025-04-08T00:00:00.000Z')
+    );
+
+    expect(diff.summary).toMatchObject({ added: 0, removed: 0, modified: 1 });
+    expect(formatDiff(diff)).toEqual([
+      '2025-04-01T00:00:00.000Z → 2025-04-08T00:00:00.000Z: +0 added, -0 removed, ~1 modified, 0 unchanged',
+      '~ 逢沢　一郎',
+      '    name: 逢沢 一郎 → 逢沢　一郎',
+    ]);
+  });
+});
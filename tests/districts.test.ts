@@ -0,0 +1,74 @@
+import { expect, test } from '@playwright/test';
+import { PREFECTURES } from '../src/constants';
+import {
+  BLOCKS,
+  DISTRICTS,
+  getBlock,
+  getDistrict,
+  getDistrictById,
+  getPrefectureBlock,
+  lookupElectionDistrict,
+} from '../src/districts';
+
+test.describe('District registry', () => {
+  test('should cover all 289 小選挙区 and 176 比例 seats', () => {
+    expect(DISTRICTS).toHaveLength(289);
+    expect(new Set(DISTRICTS.map((district) => district.id)).size).toBe(289);
+
+    expect(BLOCKS).toHaveLength(11);
+    expect(BLOCKS.reduce((seats, block) => seats + block.seats, 0)).toBe(176);
+  });
+
+  test('should put every prefecture in exactly one block', () => {
+    const prefectures = BLOCKS.flatMap((block) => block.prefectures);
+    expect([...prefectures].sort()).toEqual([...PREFECTURES].sort());
+  });
+
+  test('should number the districts of each prefecture from 1', () => {
+    expect(DISTRICTS.filter((district) => district.prefecture === '東京')).toHaveLength(30);
+    expect(getDistrictById('okayama-1')).toEqual({
+      id: 'okayama-1',
+      name: '岡山1区',
+      prefecture: '岡山',
+      number: 1,
+      blockId: 'chugoku',
+    });
+    expect(getDistrict('東京', '30')?.id).toBe('tokyo-30');
+    expect(getDistrict('岡山', 5)).toBeUndefined(); // 10増10減 merged it away
+    expect(getDistrict('岡山県', '1')).toBeUndefined();
+  });
+
+  test('should find blocks by id or name', () => {
+    expect(getBlock('kinki')?.seats).toBe(28);
+    expect(getBlock('比例近畿ブロック')?.id).toBe('kinki');
+    expect(getBlock('近畿')?.id).toBe('kinki');
+    expect(getBlock('関西')).toBeUndefined();
+    expect(getPrefectureBlock('山梨')?.id).toBe('minami-kanto');
+  });
+});
+
+test.describe('lookupElectionDistrict', () => {
+  test('should return the ids of known districts and blocks', () => {
+    expect(
+      lookupElectionDistrict({ system: 'single-seat', prefecture: '北海道', number: '12' })
+    ).toEqual({ districtId: 'hokkaido-12', blockId: 'hokkaido' });
+    expect(
+      lookupElectionDistrict({ system: 'proportional-representation', area: '北陸信越' })
+    ).toEqual({ blockId: 'hokuriku-shinetsu' });
+  });
+
+  test('should explain why a district is unknown', () => {
+    expect(
+      lookupElectionDistrict({ system: 'single-seat', prefecture: '鳥取', number: '3' })
+    ).toEqual({ error: '鳥取 has 2 districts, not 3' });
+    expect(lookupElectionDistrict({ system: 'single-seat', prefecture: '鳥取' })).toEqual({
+      error: 'no district number for 鳥取',
+    });
+    expect(lookupElectionDistrict({ system: 'single-seat', prefecture: '不明' })).toEqual({
+      error: 'unknown prefecture: 不明',
+    });
+    expect(lookupElectionDistrict({ system: 'proportional-representation' })).toEqual({
+      error: 'unknown 比例 block: (none)',
+    });
+  });
+});
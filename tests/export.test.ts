@@ -0,0 +1,185 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import {
+  buildTables,
+  type ExportableResult,
+  exportResult,
+  FLAT_COLUMNS,
+  memberRows,
+  toCsv,
+  toNdjson,
+} from '../src/export';
+
+const RESULT: ExportableResult = {
+  members: [
+    {
+      id: 'm-aisawa',
+      name: '逢沢　一郎',
+      furigana: 'あいさわ　いちろう',
+      party: '自由民主党',
+      partyId: 'ldp',
+      faction: '自民',
+      electionCount: 13,
+      election: {
+        system: 'single-seat',
+        prefecture: '岡山',
+        number: '1',
+        districtId: 'okayama-1',
+        blockId: 'chugoku',
+      },
+      committees: [{ id: 'budget', name: '予算委員会', role: 'member' }],
+      profile: {
+        birth: { date: '1954-06', precision: 'month', raw: '昭和二十九年六月' },
+        careerTimeline: [
+          {
+            role: '卒業',
+            organization: '慶應義塾大学工学部',
+            category: 'education',
+            raw: '慶應義塾大学工学部卒業',
+          },
+        ],
+        currentPositions: { diet: ['衆議院政治倫理審査会会長'] },
+        previousPositions: { government: ['外務副大臣', '通商産業政務次官'] },
+      },
+    },
+    {
+      name: '青柳　仁士',
+      party: '日本維新の会',
+      election: {
+        system: 'proportional-representation',
+        area: '近畿',
+        blockId: 'kinki',
+        dualCandidacyDistrict: 'osaka-14',
+      },
+    },
+  ],
+  scrapedAt: '2025-04-01T00:00:00.000Z',
+  source: 'house-of-representatives-list',
+};
+
+const parseCsv = (csv: string) =>
+  csv
+    .replace(/^\uFEFF/, '')
+    .trimEnd()
+    .split('\r\n');
+
+test.describe('toCsv', () => {
+  test('should start with a BOM, end lines with CRLF and quote where needed', () => {
+    const columns = [
+      { key: 'name', ja: '氏名', value: (row: { name: string }) => row.name },
+      { key: 'note', ja: '備考', value: () => undefined },
+    ];
+    const csv = toCsv(columns, [{ name: '山田, "太郎"' }, { name: '改行\nあり' }]);
+
+    expect(csv.startsWith('\uFEFFname,note\r\n')).toBe(true);
+    expect(csv).toBe('\uFEFFname,note\r\n"山田, ""太郎""",\r\n"改行\nあり",\r\n');
+  });
+
+  test('should use Japanese headers and renamed columns', () => {
+    const rows = memberRows(RESULT);
+    const [ja] = parseCsv(toCsv(FLAT_COLUMNS, rows, { headers: 'ja' }));
+    expect(ja?.split(',').slice(0, 4)).toEqual(['議員ID', '院', '氏名', 'ふりがな']);
+
+    const [renamed] = parseCsv(
+      toCsv(FLAT_COLUMNS, rows, { headers: 'ja', columnNames: { member_id: 'id' } })
+    );
+    expect(renamed?.split(',').slice(0, 2)).toEqual(['id', '院']);
+  });
+
+  test('should flatten profiles into one row per member', () => {
+    const [header, aisawa, aoyagi] = parseCsv(toCsv(FLAT_COLUMNS, memberRows(RESULT)));
+    const record = (line: string | undefined) => {
+      const cells = line?.split(',') ?? [];
+      return Object.fromEntries(header?.split(',').map((key, i) => [key, cells[i]]) ?? []);
+    };
+
+    expect(record(aisawa)).toMatchObject({
+      member_id: 'm-aisawa',
+      party_id: 'ldp',
+      election_count: '13',
+      birth_date: '1954-06',
+      prefecture: '岡山',
+      district_number: '1',
+      district_id: 'okayama-1',
+      current_diet_positions: '衆議院政治倫理審査会会長',
+      previous_government_positions: '外務副大臣; 通商産業政務次官',
+      committees: '予算委員会',
+      education: '慶應義塾大学工学部卒業',
+    });
+    // Members without an id fall back to the store's key
+    expect(record(aoyagi)).toMatchObject({
+      member_id: 'house-of-representatives:青柳仁士',
+      area: '近畿',
+      dual_candidacy_district: 'osaka-14',
+      birth_date: '',
+    });
+  });
+});
+
+test.describe('buildTables', () => {
+  test('should split members into tables joined on member_id', () => {
+    const tables = Object.fromEntries(
+      buildTables(RESULT).map((table) => [table.name, parseCsv(toCsv(table.columns, table.rows))])
+    );
+
+    expect(tables['members']).toHaveLength(3);
+    expect(tables['elections']).toEqual([
+      'member_id,system,prefecture,district_number,area,district_id,block_id,dual_candidacy_district,election_count',
+      'm-aisawa,single-seat,岡山,1,,okayama-1,chugoku,,13',
+      'house-of-representatives:青柳仁士,proportional-representation,,,近畿,,kinki,osaka-14,',
+    ]);
+    expect(tables['positions']).toEqual([
+      'member_id,kind,category,title',
+      'm-aisawa,current,diet,衆議院政治倫理審査会会長',
+      'm-aisawa,previous,government,外務副大臣',
+      'm-aisawa,previous,government,通商産業政務次官',
+    ]);
+    expect(tables['education']).toEqual([
+      'member_id,institution,event,date,raw',
+      'm-aisawa,慶應義塾大学工学部,卒業,,慶應義塾大学工学部卒業',
+    ]);
+  });
+});
+
+test.describe('toNdjson', () => {
+  test('should write one complete member per line', () => {
+    const lines = toNdjson(RESULT).trimEnd().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0] ?? '')).toMatchObject({
+      id: 'm-aisawa',
+      chamber: 'house-of-representatives',
+      profile: { currentPositions: { diet: ['衆議院政治倫理審査会会長'] } },
+    });
+  });
+});
+
+test.describe('exportResult', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'export-'));
+  });
+
+  test.afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should write each format under the result name', () => {
+    expect(exportResult(RESULT, 'csv', dir, 'diet-members')).toEqual([
+      join(dir, 'diet-members.csv'),
+    ]);
+    expect(exportResult(RESULT, 'ndjson', dir, 'diet-members')).toEqual([
+      join(dir, 'diet-members.ndjson'),
+    ]);
+    expect(exportResult(RESULT, 'tables', dir, 'diet-members')).toEqual(
+      ['members', 'elections', 'positions', 'education'].map((table) =>
+        join(dir, 'diet-members', `${table}.csv`)
+      )
+    );
+    expect(readFileSync(join(dir, 'diet-members', 'positions.csv'), 'utf-8')).toContain(
+      'm-aisawa,current,diet,衆議院政治倫理審査会会長'
+    );
+  });
+});
@@ -0,0 +1,247 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import { isObjectType } from 'graphql';
+import { MemberDataset } from '../src/dataset';
+import type { ExportableResult } from '../src/export';
+import { buildMemberSchema, executeQuery } from '../src/graphql';
+import { SCHEMA_DIR, SCHEMA_FILES } from '../src/schema';
+
+const RESULT: ExportableResult = {
+  members: [
+    {
+      id: 'm-aisawa',
+      name: '逢沢　一郎',
+      furigana: 'あいさわ　いちろう',
+      party: '自由民主党',
+      partyId: 'ldp',
+      faction: '自民',
+      electionCount: 13,
+      election: { system: 'single-seat', prefecture: '岡山', number: '1' },
+      committees: [{ id: 'budget', name: '予算委員会', role: 'chair' }],
+      profile: {
+        currentPositions: { diet: ['衆議院予算委員長'] },
+        additionalInfo: { 趣味: '囲碁' },
+      },
+    },
+    {
+      id: 'm-aoyagi',
+      name: '青柳　仁士',
+      furigana: 'あおやぎ　ひとし',
+      party: '日本維新の会',
+      partyId: 'ishin',
+      election: {
+        system: 'proportional-representation',
+        area: '近畿',
+        dualCandidacyDistrict: 'osaka-9',
+      },
+      committees: [{ id: 'budget', name: '予算委員会', role: 'member' }],
+    },
+    {
+      id: 'm-akazawa',
+      name: '赤沢　亮正',
+      furigana: 'あかざわ　りょうせい',
+      party: '自由民主党',
+      partyId: 'ldp',
+      election: { system: 'single-seat', prefecture: '鳥取', number: '2' },
+    },
+  ],
+  scrapedAt: '2025-04-01T00:00:00.000Z',
+  source: 'house-of-representatives-list',
+};
+
+test.describe('executeQuery', () => {
+  const dataset = new MemberDataset(RESULT);
+
+  test('should fetch a party with its members, districts and positions in one query', () => {
+    const result = executeQuery(
+      dataset,
+      `{
+        party(id: "ldp") {
+          name
+          memberCount
+          members {
+            name
+            election { district { prefecture number } }
+            profile { currentPositions { diet } }
+          }
+        }
+      }`
+    );
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data).toEqual({
+      party: {
+        name: '自由民主党',
+        memberCount: 2,
+        members: [
+          {
+            name: '逢沢　一郎',
+            election: { district: { prefecture: '岡山', number: '1' } },
+            profile: { currentPositions: { diet: ['衆議院予算委員長'] } },
+          },
+          {
+            name: '赤沢　亮正',
+            election: { district: { prefecture: '鳥取', number: '2' } },
+            profile: null,
+          },
+        ],
+      },
+    });
+  });
+
+  test('should filter and paginate members with variables', () => {
+    const query = `query Members($filter: MemberFilter, $limit: Int) {
+      members(filter: $filter, limit: $limit) { id }
+    }`;
+
+    expect(
+      executeQuery(dataset, query, { variables: { filter: { partyId: 'ldp' }, limit: 1 } }).data
+    ).toEqual({ members: [{ id: 'm-aisawa' }] });
+    expect(
+      executeQuery(dataset, query, { variables: { filter: { area: '近畿ブロック' } } }).data
+    ).toEqual({ members: [{ id: 'm-aoyagi' }] });
+  });
+
+  test('should link members to blocks, committees and their party', () => {
+    const result = executeQuery(
+      dataset,
+      `{
+        member(id: "m-aoyagi") {
+          electionCount { house }
+          election { district { number } block { area members { id } } }
+          committees { role committee { members { role member { name } } } }
+          affiliation { id memberCount }
+        }
+      }`
+    );
+
+    expect(result.data).toEqual({
+      member: {
+        electionCount: null,
+        election: { district: null, block: { area: '近畿', members: [{ id: 'm-aoyagi' }] } },
+        committees: [
+          {
+            role: 'member',
+            committee: {
+              members: [
+                { role: 'chair', member: { name: '逢沢　一郎' } },
+                { role: 'member', member: { name: '青柳　仁士' } },
+              ],
+            },
+          },
+        ],
+        affiliation: { id: 'ishin', memberCount: 1 },
+      },
+    });
+  });
+
+  test('should convert counts and free-form profile fields', () => {
+    const result = executeQuery(
+      dataset,
+      '{ member(id: "m-aisawa") { electionCount { house senate } profile { additionalInfo { key value } } } }'
+    );
+    expect(result.data).toEqual({
+      member: {
+        electionCount: { house: 13, senate: null },
+        profile: { additionalInfo: [{ key: '趣味', value: '囲碁' }] },
+      },
+    });
+  });
+
+  test('should look up districts and blocks in the registry', () => {
+    const result = executeQuery(
+      dataset,
+      `{
+        okayama: district(id: "okayama-1") { name block { id seats } members { id } }
+        vacant: district(prefecture: "岡山県", number: "2") { id members { id } }
+        blocks { id }
+        member(id: "m-aisawa") { election { districtId blockId } }
+      }`
+    );
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data).toMatchObject({
+      okayama: {
+        name: '岡山1区',
+        block: { id: 'chugoku', seats: 10 },
+        members: [{ id: 'm-aisawa' }],
+      },
+      vacant: { id: 'okayama-2', members: [] },
+      member: { election: { districtId: null, blockId: null } },
+    });
+    expect(result.data?.['blocks']).toHaveLength(11);
+    expect(
+      executeQuery(dataset, '{ district(prefecture: "岡山") { id } }').errors?.[0]?.message
+    ).toBe('district needs an id, or a prefecture and a number');
+  });
+
+  test('should link proportional members and the districts they also ran in', () => {
+    const result = executeQuery(
+      dataset,
+      `{
+        district(id: "osaka-9") { members { id } proportionalMembers { name } }
+        member(id: "m-aoyagi") { election { dualCandidacyDistrict dualCandidacy { name } } }
+      }`
+    );
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data).toEqual({
+      district: { members: [], proportionalMembers: [{ name: '青柳　仁士' }] },
+      member: {
+        election: { dualCandidacyDistrict: 'osaka-9', dualCandidacy: { name: '大阪9区' } },
+      },
+    });
+  });
+
+  test('should return null for unknown members and districts', () => {
+    expect(
+      executeQuery(
+        dataset,
+        '{ member(id: "m-unknown") { id } district(prefecture: "岡山", number: "9") { number } }'
+      ).data
+    ).toEqual({ member: null, district: null });
+  });
+
+  test('should report invalid queries and arguments as errors', () => {
+    const invalid = executeQuery(dataset, '{ members { unknownField } }');
+    expect(invalid.data).toBeUndefined();
+    expect(invalid.errors?.[0]?.message).toContain('unknownField');
+
+    const negative = executeQuery(dataset, '{ members(limit: -1) { id } }');
+    expect(negative.data).toBeNull();
+    expect(negative.errors?.[0]?.message).toBe('limit must not be negative');
+  });
+});
+
+test.describe('buildMemberSchema', () => {
+  // GraphQL type → definition in the published JSON Schema
+  const MIRRORED_TYPES = {
+    Member: 'HouseOfRepresentativesMember',
+    Election: 'Election',
+    MemberProfile: 'MemberProfile',
+    CommitteeMembership: 'CommitteeMembership',
+    CareerEntry: 'CareerEntry',
+    PartialDate: 'PartialDate',
+  };
+
+  test('should expose every field of the member types', () => {
+    const jsonSchema = JSON.parse(
+      readFileSync(join(SCHEMA_DIR, SCHEMA_FILES.HouseOfRepresentativesMember), 'utf-8')
+    ) as { definitions: Record<string, { properties: Record<string, unknown> }> };
+    const schema = buildMemberSchema();
+
+    for (const [typeName, definition] of Object.entries(MIRRORED_TYPES)) {
+      const type = schema.getType(typeName);
+      expect(isObjectType(type), typeName).toBe(true);
+      const fields = isObjectType(type) ? Object.keys(type.getFields()) : [];
+      const properties = Object.keys(jsonSchema.definitions[definition]?.properties ?? {});
+
+      expect(properties.length, definition).toBeGreaterThan(0);
+      expect(
+        properties.filter((property) => !fields.includes(property)),
+        typeName
+      ).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import type { Browser } from 'playwright';
+import { SCHEMA_VERSION } from '../src/constants';
+import { ProfileJournal } from '../src/journal';
+import { HouseOfRepresentativesScraper } from '../src/scrapers/house-of-representatives/scraper';
+import type {
+  HouseOfRepresentativesResult,
+  MemberProfile,
+} from '../src/scrapers/house-of-representatives/types';
+
+const member = (index: number) => ({
+  name: `テスト議員${index}`,
+  party: '自由民主党',
+  election: { system: 'single-seat' as const, prefecture: '東京都', number: `${index}` },
+  profileUrl: `https://example.com/profile/${index}`,
+});
+
+test.describe('ProfileJournal', () => {
+  let dir: string;
+  let journalPath: string;
+
+  test.beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'profile-journal-'));
+    journalPath = join(dir, 'diet-members-with-all-profiles.journal.ndjson');
+  });
+
+  test.afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('pathFor should keep the journal next to the output file', () => {
+    expect(ProfileJournal.pathFor('diet-members-with-all-profiles.json')).toBe(
+      join(process.cwd(), 'out', 'diet-members-with-all-profiles.journal.ndjson')
+    );
+  });
+
+  test('should keep the latest outcome of each profile', () => {
+    const journal = new ProfileJournal<MemberProfile>(journalPath);
+    journal.record('https://example.com/profile/1', 'テスト議員1', null);
+    journal.record('https://example.com/profile/2', 'テスト議員2', { fullName: 'テスト議員2' });
+    journal.record('https://example.com/profile/1', 'テスト議員1', { fullName: 'テスト議員1' });
+
+    expect(readFileSync(journalPath, 'utf-8').trim().split('\n')).toHaveLength(3);
+    expect(journal.load().get('https://example.com/profile/1')?.status).toBe('completed');
+    expect(Array.from(journal.completedProfiles().keys())).toEqual([
+      'https://example.com/profile/1',
+      'https://example.com/profile/2',
+    ]);
+  });
+
+  test('should ignore a line cut short by an interrupted run', () => {
+    const journal = new ProfileJournal<MemberProfile>(journalPath);
+    journal.record('https://example.com/profile/1', 'テスト議員1', { fullName: 'テスト議員1' });
+    writeFileSync(journalPath, `${readFileSync(journalPath, 'utf-8')}{"profileUrl":"https://ex`);
+
+    expect(journal.completedProfiles().size).toBe(1);
+
+    journal.clear();
+    expect(existsSync(journalPath)).toBe(false);
+    expect(journal.load().size).toBe(0);
+  });
+
+  test('resume should only scrape members without a collected profile', async () => {
+    const journal = new ProfileJournal<MemberProfile>(journalPath);
+    journal.record('https://example.com/profile/1', 'テスト議員1', { fullName: 'テスト議員1' });
+    journal.record('https://example.com/profile/2', 'テスト議員2', null);
+
+    const scraper = new HouseOfRepresentativesScraper();
+    // Profiles are stubbed below, so no real browser is needed
+    scraper.useBrowser({} as Browser);
+    const scrapedUrls: string[] = [];
+    scraper.scrapeAllPages = async (): Promise<HouseOfRepresentativesResult> => ({
+      schemaVersion: SCHEMA_VERSION,
+      members: [member(1), member(2), member(3)],
+      scrapedAt: new Date().toISOString(),
+      source: 'house-of-representatives-list',
+    });
+    scraper.scrapeProfile = async (profileUrl: string) => {
+      scrapedUrls.push(profileUrl);
+      return { fullName: profileUrl };
+    };
+
+    const result = await scraper.scrapeHouseOfRepresentativesWithProfiles({
+      maxProfiles: Number.MAX_SAFE_INTEGER,
+      profileDelay: 0,
+      journalPath,
+      resume: true,
+    });
+
+    expect(scrapedUrls.sort()).toEqual([
+      'https://example.com/profile/2',
+      'https://example.com/profile/3',
+    ]);
+    expect(result.members.map((m) => m.profile?.fullName)).toEqual([
+      'テスト議員1',
+      'https://example.com/profile/2',
+      'https://example.com/profile/3',
+    ]);
+    expect(journal.completedProfiles().size).toBe(3);
+  });
+});
@@ -0,0 +1,154 @@
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import { aliasKeys, deriveMemberId, MemberIdRegistry } from '../src/member-id';
+
+test.describe('Member IDs', () => {
+  let dir: string;
+  let path: string;
+
+  test.beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'member-ids-'));
+    path = join(dir, 'member-ids.json');
+  });
+
+  test.afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('deriveMemberId should ignore irregular spacing, kana type and variant kanji', () => {
+    const id = deriveMemberId({ name: '逢沢　一郎', furigana: 'あいさわ　いちろう' });
+    expect(id).toMatch(/^m-[0-9a-f]{12}$/);
+    expect(deriveMemberId({ name: '逢沢　　一郎', furigana: 'アイサワ イチロウ' })).toBe(id);
+    expect(deriveMemberId({ name: '髙木 毅', furigana: 'たかぎ つよし' })).toBe(
+      deriveMemberId({ name: '高木 毅', furigana: 'たかぎ つよし' })
+    );
+  });
+
+  test('aliasKeys should pair each two of name, furigana and birth date', () => {
+    expect(
+      aliasKeys({ name: '逢沢 一郎', furigana: 'あいさわ いちろう', birth: '1954-06' })
+    ).toEqual([
+      'name+furigana:逢沢一郎|あいさわいちろう',
+      'name+birth:逢沢一郎|1954-06',
+      'furigana+birth:あいさわいちろう|1954-06',
+    ]);
+    expect(aliasKeys({ name: '逢沢 一郎' })).toEqual(['name:逢沢一郎']);
+  });
+
+  test('should keep the ID when the name or the reading changes', () => {
+    const registry = new MemberIdRegistry(path);
+    const id = registry.resolve({ name: '山田 花子', furigana: 'やまだ はなこ' });
+    // The profile adds the birth date, then the member switches to a differently written 通称
+    expect(
+      registry.resolve({ name: '山田 花子', furigana: 'やまだ はなこ', birth: '1970-04-01' })
+    ).toBe(id);
+    expect(
+      registry.resolve({ name: '山田 はな子', furigana: 'やまだ はなこ', birth: '1970-04-01' })
+    ).toBe(id);
+    // A corrected reading is still found by name and birth date
+    expect(
+      registry.resolve({ name: '山田 はな子', furigana: 'やまだ はなご', birth: '1970-04-01' })
+    ).toBe(id);
+    // Later list-only runs find every spelling without the birth date
+    expect(registry.resolve({ name: '山田 はな子', furigana: 'やまだ はなご' })).toBe(id);
+    expect(registry.size).toBe(1);
+  });
+
+  test('should merge the provisional ID of a renamed member across list and profile passes', () => {
+    type Member = { id?: string; name: string; furigana: string; profile?: unknown };
+    const run = (name: string, furigana: string): string | undefined => {
+      const registry = new MemberIdRegistry(path);
+      // The list pass has no birth date; the profile pass adds it to the same members
+      const members: Member[] = [{ name, furigana }];
+      registry.assign(members);
+      for (const member of members) member.profile = { birth: { date: '1970-04-01' } };
+      registry.assign(members);
+      registry.save();
+      expect(registry.size).toBe(1);
+      return members[0]?.id;
+    };
+
+    const id = run('山田 花子', 'やまだ はなこ');
+    expect(run('山田 はな子', 'やまだ はなこ')).toBe(id);
+    // A corrected reading with the name unchanged
+    expect(run('山田 はな子', 'やまだ はなご')).toBe(id);
+    expect(
+      new MemberIdRegistry(path).resolve({ name: '山田 はな子', furigana: 'やまだ はなこ' })
+    ).toBe(id);
+  });
+
+  test('should tell namesakes apart by birth date', () => {
+    const registry = new MemberIdRegistry(path);
+    const first = registry.resolve({
+      name: '佐藤 一郎',
+      furigana: 'さとう いちろう',
+      birth: '1950',
+    });
+    const second = registry.resolve({
+      name: '佐藤 一郎',
+      furigana: 'さとう いちろう',
+      birth: '1975-03',
+    });
+
+    expect(second).not.toBe(first);
+    expect(
+      registry.resolve({ name: '佐藤 一郎', furigana: 'さとう いちろう', birth: '1950-02' })
+    ).toBe(first);
+    expect(
+      registry.resolve({ name: '佐藤 一郎', furigana: 'さとう いちろう', birth: '1975-03' })
+    ).toBe(second);
+  });
+
+  test('should give namesakes in one list separate IDs', () => {
+    type Member = { id?: string; name: string; furigana: string; profile?: unknown };
+    const list = (): Member[] => [
+      { name: '山田　太郎', furigana: 'やまだ　たろう' },
+      { name: '山田 太郎', furigana: 'やまだたろう' },
+    ];
+    const registry = new MemberIdRegistry(path);
+
+    const first = list();
+    registry.assign(first);
+    expect(first[0]?.id).not.toBe(first[1]?.id);
+
+    // List-only runs hand out the same IDs again
+    const again = list();
+    registry.assign(again);
+    expect(again.map((member) => member.id)).toEqual(first.map((member) => member.id));
+
+    // Birth dates tell them apart for good, and later lists keep those IDs
+    const profiled = list();
+    registry.assign(profiled);
+    profiled.forEach((member, i) => {
+      member.profile = { birth: { date: i === 0 ? '1950-01-01' : '1980-01-01' } };
+    });
+    registry.assign(profiled);
+    expect(profiled[0]?.id).not.toBe(profiled[1]?.id);
+
+    const later = list();
+    registry.assign(later);
+    expect(new Set(later.map((member) => member.id))).toEqual(
+      new Set(profiled.map((member) => member.id))
+    );
+  });
+
+  test('should persist the alias table', () => {
+    const registry = new MemberIdRegistry(path);
+    const members = [
+      { name: '山田 花子', furigana: 'やまだ はなこ', profile: { birth: { date: '1970-04-01' } } },
+    ];
+    registry.assign(members);
+    registry.save();
+    expect(existsSync(path)).toBe(true);
+
+    const reloaded = new MemberIdRegistry(path);
+    const renamed: { id?: string; name: string; furigana: string }[] = [
+      { name: '山田 はな子', furigana: 'やまだ はなこ' },
+    ];
+    reloaded.resolve({ name: '山田 はな子', furigana: 'やまだ はなこ', birth: '1970-04-01' });
+    reloaded.assign(renamed);
+    expect(renamed[0]?.id).toBe((members[0] as { id?: string }).id);
+  });
+});
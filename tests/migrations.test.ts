@@ -0,0 +1,142 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import { loadCachedData } from '../src/cache';
+import { SCHEMA_VERSION } from '../src/constants';
+import { SchemaValidationError, validateResult } from '../src/schema';
+import { migrateResult, schemaVersionOf } from '../src/schema/migrations';
+import type { HouseOfRepresentativesResult } from '../src/scrapers/house-of-representatives/types';
+import { SnapshotStore } from '../src/snapshots';
+
+// A member list written before 会派 were normalized and profiles were structured
+const LEGACY = {
+  members: [
+    {
+      name: '逢沢　一郎',
+      furigana: 'あいさわ　いちろう',
+      party: '自民',
+      election: { system: 'single-seat', prefecture: '岡山', number: '1' },
+      profile: {
+        birthDate: '昭和二十九年六月',
+        partyAffiliation: '自由民主党・無所属の会',
+        careerHistory: '○外務副大臣○衆議院予算委員長',
+      },
+    },
+    {
+      name: '東　克哉',
+      party: '立憲',
+      election: { system: 'proportional-representation', area: '中国' },
+      profile: {
+        electionDistrict: '比例代表（中国）選出',
+        careerHistory: '○立憲民主党広島県第三区総支部長',
+      },
+    },
+  ],
+  scrapedAt: '2024-10-01T00:00:00.000Z',
+  source: 'house-of-representatives-list',
+};
+
+test.describe('migrateResult', () => {
+  test('should upgrade an unversioned file to the current format', () => {
+    const input = structuredClone(LEGACY);
+    const { result, from, applied } = migrateResult<HouseOfRepresentativesResult>(input);
+
+    expect(from).toBe(1);
+    expect(applied).toHaveLength(SCHEMA_VERSION - 1);
+    expect(result.schemaVersion).toBe(SCHEMA_VERSION);
+
+    const [member] = result.members;
+    expect(member).toMatchObject({ party: '自由民主党', partyId: 'ldp', faction: '自民' });
+    expect(member?.profile?.birth).toEqual({
+      date: '1954-06',
+      precision: 'month',
+      raw: '昭和二十九年六月',
+    });
+    expect(member?.profile?.partyId).toBe('ldp');
+    expect(member?.profile?.careerTimeline?.map((entry) => entry.raw)).toEqual([
+      '外務副大臣',
+      '衆議院予算委員長',
+    ]);
+    expect(member?.election).toEqual({
+      system: 'single-seat',
+      prefecture: '岡山',
+      number: '1',
+      districtId: 'okayama-1',
+      blockId: 'chugoku',
+    });
+    expect(result.members[1]?.election).toEqual({
+      system: 'proportional-representation',
+      area: '中国',
+      blockId: 'chugoku',
+      dualCandidacyDistrict: 'hiroshima-3',
+    });
+    expect(validateResult(result)).toEqual([]);
+
+    // The file as read stays untouched
+    expect(input).toEqual(LEGACY);
+  });
+
+  test('should keep fields that unversioned files already carry', () => {
+    const normalized = {
+      ...LEGACY,
+      members: [{ ...LEGACY.members[0], party: '自由民主党', partyId: 'ldp', faction: '自民' }],
+    };
+    const { result } = migrateResult<HouseOfRepresentativesResult>(normalized);
+    expect(result.members[0]).toMatchObject({
+      party: '自由民主党',
+      partyId: 'ldp',
+      faction: '自民',
+    });
+  });
+
+  test('should return current files unchanged', () => {
+    const current = { ...LEGACY, schemaVersion: SCHEMA_VERSION };
+    const { result, from, applied } = migrateResult(current);
+    expect(result).toBe(current);
+    expect(from).toBe(SCHEMA_VERSION);
+    expect(applied).toEqual([]);
+  });
+
+  test('should refuse files from a newer release', () => {
+    expect(() => migrateResult({ ...LEGACY, schemaVersion: SCHEMA_VERSION + 1 })).toThrow(
+      SchemaValidationError
+    );
+  });
+
+  test('should treat files without a version as version 1', () => {
+    expect(schemaVersionOf(LEGACY)).toBe(1);
+    expect(schemaVersionOf({ schemaVersion: 2 })).toBe(2);
+    expect(schemaVersionOf(null)).toBe(1);
+  });
+});
+
+test.describe('loading archived results', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'migrations-'));
+  });
+
+  test.afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('loadCachedData should upgrade old files', () => {
+    const path = join(dir, 'diet-members.json');
+    writeFileSync(path, JSON.stringify(LEGACY));
+
+    const result = loadCachedData(path);
+    expect(result?.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(result?.members[0]?.partyId).toBe('ldp');
+  });
+
+  test('SnapshotStore.load should upgrade old snapshots', () => {
+    const store = new SnapshotStore(dir);
+    const entry = store.save('diet-members.json', LEGACY);
+
+    const result = store.load<HouseOfRepresentativesResult>(entry);
+    expect(result.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(result.members[0]?.faction).toBe('自民');
+  });
+});
@@ -0,0 +1,66 @@
+import { expect, test } from '@playwright/test';
+import { findParty, getPartyById, normalizeParty, PARTIES } from '../src/parties';
+
+test.describe('Party dictionary', () => {
+  test('should resolve list-page abbreviations', () => {
+    const cases: [string, string][] = [
+      ['自民', 'ldp'],
+      ['立憲', 'cdp'],
+      ['維新', 'ishin'],
+      ['国民', 'dpfp'],
+      ['公明', 'komeito'],
+      ['共産', 'jcp'],
+      ['れ新', 'reiwa'],
+      ['有志', 'yushi'],
+      ['保守', 'hoshuto'],
+      ['減ゆ', 'genzei-yukoku'],
+      ['無', 'independent'],
+      ['民主', 'dpfp'], // 参議院 国民民主党・新緑風会
+    ];
+
+    for (const [raw, id] of cases) {
+      expect(findParty(raw)?.id, raw).toBe(id);
+    }
+  });
+
+  test('should resolve full 会派 names and historical names', () => {
+    expect(findParty('自由民主党・無所属の会')?.id).toBe('ldp');
+    expect(findParty('立憲民主党・無所属')?.id).toBe('cdp');
+    expect(findParty('国民民主党・無所属クラブ')?.id).toBe('dpfp');
+    expect(findParty('日本維新の会・教育無償化を実現する会')?.id).toBe('ishin');
+    expect(findParty('民主党・無所属クラブ')?.id).toBe('dpj');
+    expect(findParty('希望の党')?.id).toBe('kibo');
+    expect(findParty('生活の党と山本太郎となかまたち')?.id).toBe('liberal');
+  });
+
+  test('should tolerate spacing, width and parentheses', () => {
+    expect(findParty(' 自 民 ')?.id).toBe('ldp');
+    expect(findParty('（無所属）')?.id).toBe('independent');
+    expect(findParty('ＮＨＫ党')?.id).toBe('minna-de-tsukuru');
+  });
+
+  test('should not treat districts or unknown text as parties', () => {
+    expect(findParty('沖縄1')).toBeUndefined();
+    expect(findParty('（比）近畿')).toBeUndefined();
+    expect(findParty('不明')).toBeUndefined();
+    expect(findParty('')).toBeUndefined();
+    expect(findParty(undefined)).toBeUndefined();
+  });
+
+  test('normalizeParty should keep the raw 会派 alongside the party', () => {
+    expect(normalizeParty('自民')).toEqual({
+      party: '自由民主党',
+      partyId: 'ldp',
+      faction: '自民',
+    });
+    expect(normalizeParty('新党テスト')).toEqual({ party: '新党テスト', faction: '新党テスト' });
+  });
+
+  test('party ids should be unique and resolvable', () => {
+    const ids = PARTIES.map((party) => party.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const id of ids) {
+      expect(getPartyById(id)?.id).toBe(id);
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import { loadCachedData } from '../src/cache';
+import { SCHEMA_VERSION } from '../src/constants';
+import {
+  assertValidResult,
+  SCHEMA_DIR,
+  SchemaValidationError,
+  validateResult,
+  validateSchema,
+} from '../src/schema';
+import { buildSchemas } from '../src/schema/generate';
+import type { HouseOfRepresentativesResult } from '../src/scrapers/house-of-representatives/types';
+
+const RESULT: HouseOfRepresentativesResult = {
+  schemaVersion: SCHEMA_VERSION,
+  members: [
+    {
+      id: 'm-0ad53eeeaf94',
+      name: '逢沢　一郎',
+      furigana: 'あいさわ　いちろう',
+      party: '自由民主党',
+      partyId: 'ldp',
+      election: { system: 'single-seat', prefecture: '岡山県', number: '1' },
+      electionCount: 13,
+      profile: {
+        birth: { date: '1954-06', precision: 'month', raw: '昭和二十九年六月' },
+        currentPositions: { diet: ['衆議院政治倫理審査会会長'] },
+      },
+    },
+  ],
+  scrapedAt: '2025-04-01T00:00:00.000Z',
+  source: 'house-of-representatives-list',
+};
+
+test.describe('published schemas', () => {
+  test('should match the current types', () => {
+    test.setTimeout(60000);
+    for (const [file, schema] of Object.entries(buildSchemas())) {
+      const committed = JSON.parse(readFileSync(join(SCHEMA_DIR, file), 'utf-8'));
+      expect(committed, `schema/${file} is outdated, run npm run schema`).toEqual(schema);
+    }
+  });
+});
+
+test.describe('validateResult', () => {
+  test('should accept a well-formed result', () => {
+    expect(validateResult(RESULT)).toEqual([]);
+  });
+
+  test('should report the path of each mismatch', () => {
+    const broken = {
+      ...RESULT,
+      members: [
+        { ...RESULT.members[0], election: { system: 'at-large' } },
+        { name: '名前のみ', party: '無所属', election: { system: 'single-seat' }, age: 50 },
+      ],
+    };
+
+    const errors = validateResult(broken);
+    expect(errors).toContain(
+      '/members/0/election/system must be equal to one of the allowed values'
+    );
+    expect(errors).toContain('/members/1 must NOT have additional properties (age)');
+  });
+
+  test('should reject files of unknown origin', () => {
+    expect(validateResult({ ...RESULT, source: 'somewhere-else' })).toEqual([
+      'unknown source: "somewhere-else"',
+    ]);
+    expect(validateResult(null)).toEqual(['unknown source: undefined']);
+  });
+
+  test('should throw a SchemaValidationError from assertValidResult', () => {
+    expect(() => assertValidResult(RESULT)).not.toThrow();
+    expect(() => assertValidResult({ ...RESULT, scrapedAt: 0 }, 'diet-members.json')).toThrow(
+      SchemaValidationError
+    );
+  });
+});
+
+test.describe('validateSchema', () => {
+  test('should validate single members and profiles', () => {
+    expect(validateSchema('MemberProfile', { electionCount: 'three' })).toEqual([
+      '/electionCount must be number',
+    ]);
+    expect(validateSchema('DietMember', RESULT.members[0])).toEqual([
+      '/ must NOT have additional properties (profile)',
+    ]);
+  });
+});
+
+test.describe('loadCachedData', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'schema-'));
+  });
+
+  test.afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should only return files that match their schema', () => {
+    const valid = join(dir, 'valid.json');
+    const invalid = join(dir, 'invalid.json');
+    writeFileSync(valid, JSON.stringify(RESULT));
+    writeFileSync(invalid, JSON.stringify({ ...RESULT, members: [{ name: '逢沢　一郎' }] }));
+
+    expect(loadCachedData(valid)).toEqual(RESULT);
+    expect(loadCachedData(invalid)).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { expect, test } from '@playwright/test';
+import { SCHEMA_VERSION } from '../../src/constants';
+import { formatDiagnosticCounts, summarizeDiagnostics } from '../../src/scrapers/diagnostics';
+import { HouseOfRepresentativesScraper } from '../../src/scrapers/house-of-representatives/scraper';
+import type { HouseOfRepresentativesResult } from '../../src/scrapers/house-of-representatives/types';
+
+const profilePage = (name: string) => `
+  <html>
+    <body>
+      <h2>${name}（てすと ぎいん）</h2>
+      <p>小選挙区（東京都第一区）選出、自由民主党・無所属の会 昭和四十年一月東京都に生まれる○当選一回（50） （令和7年3月現在）</p>
+    </body>
+  </html>
+`;
+
+test.describe('Profile diagnostics', () => {
+  test('summarizeDiagnostics should count every status', () => {
+    const diagnostics = summarizeDiagnostics(
+      [
+        { name: 'A', profileUrl: 'https://example.com/a', status: 'ok', attempts: 1 },
+        { name: 'B', profileUrl: 'https://example.com/b', status: 'failed', errorKind: 'timeout' },
+        { name: 'C', profileUrl: 'https://example.com/c', status: 'skipped' },
+      ],
+      new Date('2025-04-01T00:00:00Z'),
+      new Date('2025-04-01T00:01:30Z')
+    );
+
+    expect(diagnostics.counts).toEqual({ ok: 1, failed: 1, skipped: 1, 'no-url': 0 });
+    expect(diagnostics.durationMs).toBe(90000);
+    expect(formatDiagnosticCounts(diagnostics)).toBe('ok 1, failed 1, skipped 1, no-url 0');
+  });
+
+  test.describe('scrapeHouseOfRepresentativesWithProfiles', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    test.beforeAll(async () => {
+      server = createServer((request, response) => {
+        if (request.url === '/profile/2') {
+          response.writeHead(404).end();
+          return;
+        }
+        response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        response.end(profilePage(`テスト議員${request.url?.split('/').pop()}`));
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    test.afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('should tell failed, skipped and missing profiles apart', async () => {
+      const member = (index: number, withUrl = true) => ({
+        name: `テスト議員${index}`,
+        party: '自由民主党',
+        election: { system: 'single-seat' as const, prefecture: '東京都', number: `${index}` },
+        ...(withUrl && { profileUrl: `${baseUrl}/profile/${index}` }),
+      });
+
+      // Profiles come from the local server over HTTP, so no browser is needed
+      const scraper = new HouseOfRepresentativesScraper();
+      scraper.useTransport('http');
+      scraper.scrapeAllPages = async (): Promise<HouseOfRepresentativesResult> => ({
+        schemaVersion: SCHEMA_VERSION,
+        members: [member(1), member(2), member(3, false), member(4)],
+        scrapedAt: new Date().toISOString(),
+        source: 'house-of-representatives-list',
+      });
+
+      const result = await scraper.scrapeHouseOfRepresentativesWithProfiles({
+        maxProfiles: 2,
+        profileDelay: 0,
+      });
+
+      expect(result.diagnostics?.counts).toEqual({ ok: 1, failed: 1, skipped: 1, 'no-url': 1 });
+      expect(result.diagnostics?.members.map((m) => [m.name, m.status])).toEqual([
+        ['テスト議員1', 'ok'],
+        ['テスト議員2', 'failed'],
+        ['テスト議員3', 'no-url'],
+        ['テスト議員4', 'skipped'],
+      ]);
+      expect(result.diagnostics?.members[0]).toMatchObject({ attempts: 1 });
+      expect(result.diagnostics?.members[1]).toMatchObject({
+        errorKind: 'http-4xx',
+        message: 'HTTP 404',
+        attempts: 1,
+      });
+      expect(result.diagnostics?.members[1]?.durationMs).toBeGreaterThanOrEqual(0);
+      expect(result.failures).toHaveLength(1);
+    });
+  });
+});
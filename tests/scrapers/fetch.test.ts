@@ -0,0 +1,109 @@
+import { expect, test } from '@playwright/test';
+import { errors, type Page } from 'playwright';
+import {
+  backoffDelay,
+  classifyFetchError,
+  fetchPage,
+  PageFetchError,
+} from '../../src/scrapers/fetch';
+
+const URL = 'https://www.shugiin.go.jp/internet/itdb_annai.nsf/html/statics/syu/1giin.htm';
+
+// Page stand-in whose goto() plays back the given outcomes: an HTTP status or an error
+const fakePage = (outcomes: (number | Error)[]) => {
+  const calls: string[] = [];
+  const page = {
+    goto: async (url: string) => {
+      calls.push(url);
+      const outcome = outcomes[Math.min(calls.length - 1, outcomes.length - 1)];
+      if (outcome instanceof Error) throw outcome;
+      return { status: () => outcome };
+    },
+  } as unknown as Page;
+  return { page, calls };
+};
+
+const noDelay = { baseDelayMs: 0, maxDelayMs: 0 };
+
+test.describe('Page fetch retry policy', () => {
+  test('should classify failures', () => {
+    expect(classifyFetchError(new errors.TimeoutError('Timeout 10000ms exceeded'), URL).kind).toBe(
+      'timeout'
+    );
+    expect(classifyFetchError(new Error('net::ERR_CONNECTION_RESET'), URL).kind).toBe('navigation');
+    expect(classifyFetchError(new Error('Unexpected cell'), URL, 'parse').kind).toBe('parse');
+  });
+
+  test('should retry only transient failures', () => {
+    const retryable = (kind: PageFetchError['kind'], status?: number) =>
+      new PageFetchError(kind, URL, 'failed', status === undefined ? {} : { status }).retryable;
+
+    expect(retryable('timeout')).toBe(true);
+    expect(retryable('navigation')).toBe(true);
+    expect(retryable('http-5xx', 503)).toBe(true);
+    expect(retryable('http-4xx', 429)).toBe(true);
+    expect(retryable('http-4xx', 404)).toBe(false);
+    expect(retryable('parse')).toBe(false);
+  });
+
+  test('backoffDelay should grow exponentially with jitter up to the cap', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 5000 };
+    expect(backoffDelay(1, { ...options, random: () => 0 })).toBe(500);
+    expect(backoffDelay(1, { ...options, random: () => 1 })).toBe(1000);
+    expect(backoffDelay(3, { ...options, random: () => 1 })).toBe(4000);
+    expect(backoffDelay(5, { ...options, random: () => 1 })).toBe(5000);
+  });
+
+  test('fetchPage should recover from a flaky request', async () => {
+    const { page, calls } = fakePage([503, new errors.TimeoutError('Timeout'), 200]);
+    const retries: string[] = [];
+
+    const data = await fetchPage(page, URL, {
+      ...noDelay,
+      parse: async () => 'members',
+      onRetry: (error, attempt) => retries.push(`${attempt}:${error.kind}`),
+    });
+
+    expect(data).toBe('members');
+    expect(calls).toHaveLength(3);
+    expect(retries).toEqual(['1:http-5xx', '2:timeout']);
+  });
+
+  test('fetchPage should give up on permanent failures with the reason', async () => {
+    const { page, calls } = fakePage([404]);
+
+    const error = await fetchPage(page, URL, { ...noDelay, parse: async () => 'members' }).catch(
+      (e: unknown) => e
+    );
+    expect(calls).toHaveLength(1);
+    expect(error).toBeInstanceOf(PageFetchError);
+    expect((error as PageFetchError).toFailure()).toEqual({
+      url: URL,
+      kind: 'http-4xx',
+      status: 404,
+      message: 'HTTP 404',
+      attempts: 1,
+    });
+  });
+
+  test('fetchPage should report the attempts once retries run out', async () => {
+    const { page, calls } = fakePage([new Error('net::ERR_CONNECTION_RESET')]);
+
+    const error = await fetchPage(page, URL, {
+      ...noDelay,
+      retries: 2,
+      parse: async () => 'members',
+    }).catch((e: unknown) => e as PageFetchError);
+    expect(calls).toHaveLength(3);
+    expect(error).toMatchObject({ kind: 'navigation', attempts: 3 });
+  });
+
+  test('fetchPage should treat a page without data as a parse failure', async () => {
+    const { page, calls } = fakePage([200]);
+
+    await expect(fetchPage(page, URL, { ...noDelay, parse: async () => null })).rejects.toThrow(
+      'No data could be extracted'
+    );
+    expect(calls).toHaveLength(1);
+  });
+});
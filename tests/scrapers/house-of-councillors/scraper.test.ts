@@ -0,0 +1,113 @@
+import { expect, test } from '@playwright/test';
+import { HouseOfCouncillorsScraper } from '../../../src/scrapers/house-of-councillors';
+
+test.describe('HouseOfCouncillorsScraper', () => {
+  let scraper: HouseOfCouncillorsScraper;
+
+  test.beforeAll(async () => {
+    scraper = new HouseOfCouncillorsScraper();
+    await scraper.initialize();
+  });
+
+  test.afterAll(async () => {
+    await scraper.close();
+  });
+
+  test('should scrape members successfully', async () => {
+    test.slow(); // Mark as slow test
+    const result = await scraper.scrapeAllPages();
+
+    expect(result.source).toBe('house-of-councillors-list');
+    expect(result.members.length).toBeGreaterThan(200);
+    expect(result.members.length).toBeLessThanOrEqual(248);
+
+    const firstMember = result.members[0];
+    expect(firstMember).toBeDefined();
+    if (!firstMember) return;
+    expect(typeof firstMember.name).toBe('string');
+    expect(firstMember.party.length).toBeGreaterThan(0);
+    expect(['prefectural-district', 'national-proportional']).toContain(
+      firstMember.election.system
+    );
+  });
+
+  test('extractMembersFromPage should read the member list columns', async () => {
+    const page = await scraper.newPage();
+    await page.setContent(`
+      <html>
+        <body>
+          <table>
+            <tr><th>氏名</th><th>読み方</th><th>会派</th><th>選挙区</th><th>任期満了</th></tr>
+            <tr>
+              <td><a href="../profile/7017001.htm">青木　一彦</a></td>
+              <td>あおき　かずひこ</td>
+              <td>自民</td>
+              <td>鳥取・島根</td>
+              <td>令和13年7月28日</td>
+            </tr>
+            <tr>
+              <td><a href="../profile/7016002.htm">石井　章</a></td>
+              <td>いしい　あきら</td>
+              <td>維新</td>
+              <td>比例</td>
+              <td>令和10年7月25日</td>
+            </tr>
+          </table>
+        </body>
+      </html>
+    `);
+
+    // @ts-expect-error Accessing private method for testing
+    const members = await scraper.extractMembersFromPage(page);
+    expect(members).toHaveLength(2);
+    expect(members[0]).toEqual({
+      name: '青木　一彦',
+      furigana: 'あおき　かずひこ',
+      party: '自民',
+      district: '鳥取・島根',
+      termEnd: '令和13年7月28日',
+      profileUrl: 'https://www.sangiin.go.jp/japanese/joho1/kousei/giin/profile/7017001.htm',
+    });
+    expect(members[1]?.district).toBe('比例');
+
+    await page.close();
+  });
+});
+
+test.describe('HouseOfCouncillorsScraper parsing', () => {
+  const scraper = new HouseOfCouncillorsScraper();
+
+  test('parseElectionInfo should distinguish 選挙区 and 比例', () => {
+    // @ts-expect-error Accessing private method for testing
+    expect(scraper.parseElectionInfo('比例')).toEqual({ system: 'national-proportional' });
+    // @ts-expect-error Accessing private method for testing
+    expect(scraper.parseElectionInfo('東京')).toEqual({
+      system: 'prefectural-district',
+      prefecture: '東京',
+      area: '東京',
+    });
+    // 合区 cannot be attributed to a single prefecture
+    // @ts-expect-error Accessing private method for testing
+    expect(scraper.parseElectionInfo('徳島・高知')).toEqual({
+      system: 'prefectural-district',
+      area: '徳島・高知',
+    });
+  });
+
+  test('parseTermEnd should derive the 改選 year from the term end', () => {
+    // @ts-expect-error Accessing private method for testing
+    expect(scraper.parseTermEnd('令和7年7月28日')).toEqual({
+      termEnd: '2025-07-28',
+      reelectionYear: 2025,
+    });
+    // @ts-expect-error Accessing private method for testing
+    expect(scraper.parseTermEnd('令和１０年７月２５日')).toEqual({
+      termEnd: '2028-07-25',
+      reelectionYear: 2028,
+    });
+    // @ts-expect-error Accessing private method for testing
+    expect(scraper.parseTermEnd('')).toEqual({});
+    // @ts-expect-error Accessing private method for testing
+    expect(scraper.parseTermEnd('不明')).toEqual({});
+  });
+});
@@ -0,0 +1,128 @@
+import { expect, test } from '@playwright/test';
+import {
+  extractBiographySections,
+  filterCareerTimeline,
+  parseCareerTimeline,
+} from '../../../src/scrapers/house-of-representatives/career';
+
+const AISAWA_PAGE =
+  '逢沢 一郎（あいさわ いちろう） 小選挙区（岡山県第一区）選出、自由民主党・無所属の会 昭和二十九年六月岡山県岡山市に生まれる、慶應義塾大学工学部卒業、（財）松下政経塾○（公財）松下政経塾理事○通商産業政務次官、外務副大臣○自民党商工部会長、岡山県連会長、幹事長代理、国会対策委員長○衆議院外務委員長、予算委員長、議院運営委員長、政治倫理審査会長○平成二十三年五月永年在職議員として衆議院より表彰される○当選十三回（38 39 40 41 42 43 44 45 46 47 48 49 50） （令和7年3月現在） ホームページについて';
+
+test.describe('Career timeline parsing', () => {
+  test('extractBiographySections should drop the page chrome and the birth clause', () => {
+    const sections = extractBiographySections(AISAWA_PAGE, '自由民主党・無所属の会');
+    expect(sections.heading).toBe('');
+    expect(sections.body).toBe(
+      '慶應義塾大学工学部卒業、（財）松下政経塾○（公財）松下政経塾理事○通商産業政務次官、外務副大臣○自民党商工部会長、岡山県連会長、幹事長代理、国会対策委員長○衆議院外務委員長、予算委員長、議院運営委員長、政治倫理審査会長○平成二十三年五月永年在職議員として衆議院より表彰される'
+    );
+  });
+
+  test('extractBiographySections should keep titles listed before the birth date', () => {
+    const sections = extractBiographySections(
+      '比例代表（近畿）選出、自由民主党・無所属の会 経済産業副大臣、内閣府副大臣 昭和四十一年一月、兵庫県西宮市生まれ。東京大学法学部卒業○当選六回（45 46 47 48 49 50） （令和7年3月現在）',
+      '自由民主党・無所属の会'
+    );
+    expect(sections.heading).toBe('経済産業副大臣、内閣府副大臣');
+    expect(sections.body).toBe('東京大学法学部卒業');
+  });
+
+  test('should categorize entries and split role from organization', () => {
+    const { body } = extractBiographySections(AISAWA_PAGE, '自由民主党・無所属の会');
+    const timeline = parseCareerTimeline(body, { partyAffiliation: '自由民主党・無所属の会' });
+
+    expect(
+      timeline.map(({ category, organization, role }) => [category, organization, role])
+    ).toEqual([
+      ['education', '慶應義塾大学工学部', '卒業'],
+      ['private', '', '（財）松下政経塾'],
+      ['private', '（公財）松下政経塾', '理事'],
+      ['government', '通商産業', '政務次官'],
+      ['government', '外務', '副大臣'],
+      ['party', '自由民主党', '商工部会長'],
+      ['party', '自由民主党', '岡山県連会長'],
+      ['party', '自由民主党', '幹事長代理'],
+      // A party post, not a Diet committee: it follows its segment
+      ['party', '自由民主党', '国会対策委員長'],
+      ['diet', '衆議院外務委員会', '委員長'],
+      ['diet', '予算委員会', '委員長'],
+      ['diet', '議院運営委員会', '委員長'],
+      ['diet', '政治倫理審査会', '会長'],
+    ]);
+    expect(timeline[4]?.raw).toBe('外務副大臣');
+  });
+
+  test('should attach dates written before an entry', () => {
+    const timeline = parseCareerTimeline(
+      '平成二十三年三月、自由民主党兵庫県第六選挙区支部長に就任○平成二十九年四月、経済産業大臣政務官に就任○令和四年八月、デジタル副大臣兼内閣府副大臣に就任'
+    );
+
+    expect(timeline).toHaveLength(4);
+    expect(timeline[0]).toMatchObject({
+      start: { date: '2011-03', precision: 'month' },
+      organization: '自由民主党',
+      role: '兵庫県第六選挙区支部長',
+      category: 'party',
+    });
+    expect(timeline[1]).toMatchObject({
+      start: { date: '2017-04' },
+      organization: '経済産業',
+      role: '大臣政務官',
+    });
+    // Concurrent posts share the date and the source text
+    expect(timeline.slice(2).map((entry) => [entry.organization, entry.role])).toEqual([
+      ['デジタル', '副大臣'],
+      ['内閣府', '副大臣'],
+    ]);
+    expect(timeline[3]?.start?.date).toBe('2022-08');
+    expect(timeline[3]?.raw).toBe('デジタル副大臣兼内閣府副大臣に就任');
+  });
+
+  test('should parse date ranges that omit the era of the end date', () => {
+    const [entry] = parseCareerTimeline('平成十一年一月～十二年一月 郵政政務次官');
+    expect(entry).toMatchObject({
+      start: { date: '1999-01' },
+      end: { date: '2000-01' },
+      organization: '郵政',
+      role: '政務次官',
+      category: 'government',
+    });
+  });
+
+  test('should skip narrative items, book titles and birth details', () => {
+    const timeline = parseCareerTimeline(
+      '九州大学法学部卒業○日本共産党の専従となり、党埼玉西南地区委員長○著書「天下りの真実」○現在に至る'
+    );
+    expect(timeline.map((entry) => entry.raw)).toEqual([
+      '九州大学法学部卒業',
+      '党埼玉西南地区委員長',
+    ]);
+    expect(timeline[1]).toMatchObject({ organization: '日本共産党', role: '埼玉西南地区委員長' });
+  });
+
+  test('should fall back to the member party for 「党…」 titles', () => {
+    const [entry] = parseCareerTimeline('党国会対策委員長', {
+      partyAffiliation: '立憲民主党・無所属',
+    });
+    expect(entry).toMatchObject({
+      organization: '立憲民主党',
+      role: '国会対策委員長',
+      category: 'party',
+    });
+  });
+
+  test('filterCareerTimeline should find roles held since a date', () => {
+    const timeline = parseCareerTimeline(
+      '平成十一年一月～十二年一月 郵政政務次官○平成二十九年四月、外務副大臣に就任○令和四年八月、デジタル副大臣に就任○外務大臣'
+    );
+
+    expect(
+      filterCareerTimeline(timeline, { role: '副大臣', since: '2020' }).map((e) => e.organization)
+    ).toEqual(['デジタル']);
+    expect(filterCareerTimeline(timeline, { role: '副大臣' })).toHaveLength(2);
+    // An undated entry cannot be placed on the timeline
+    expect(filterCareerTimeline(timeline, { role: '大臣', since: '1990' })).toHaveLength(0);
+    expect(
+      filterCareerTimeline(timeline, { category: 'government', since: '1999-06' })
+    ).toHaveLength(3);
+  });
+});
@@ -0,0 +1,143 @@
+import { expect, test } from '@playwright/test';
+import {
+  attachCommittees,
+  getCommitteeId,
+  HouseOfRepresentativesCommitteeScraper,
+  parseCommitteeRole,
+} from '../../../src/scrapers/house-of-representatives/committees';
+import type {
+  CommitteeRoster,
+  HouseOfRepresentativesMember,
+  RawCommitteeMember,
+} from '../../../src/scrapers/house-of-representatives/types';
+
+const member = (name: string, furigana?: string): HouseOfRepresentativesMember => ({
+  name,
+  party: '自由民主党',
+  election: { system: 'single-seat', prefecture: '東京都', number: '1' },
+  ...(furigana && { furigana }),
+});
+
+const roster = (
+  name: string,
+  members: RawCommitteeMember[],
+  url = 'https://www.shugiin.go.jp/internet/itdb_iinkai.nsf/html/iinkai/iin_j0010.htm'
+): CommitteeRoster => ({
+  id: getCommitteeId(name, url),
+  name,
+  type: name.includes('特別委員会') ? 'special' : 'standing',
+  url,
+  members,
+});
+
+// Trimmed copy of a 衆議院 委員名簿 page
+const ROSTER_PAGE = `
+  <html>
+    <body>
+      <h2>予算委員会 委員名簿</h2>
+      <table>
+        <tr><th>役職</th><th>氏名</th><th>ふりがな</th><th>会派</th></tr>
+        <tr><td>委員長</td><td>安住　淳</td><td>あずみ　じゅん</td><td>立憲</td></tr>
+        <tr><td>理事</td><td>井上　信治</td><td>いのうえ　しんじ</td><td>自民</td></tr>
+        <tr><td></td><td>逢沢　一郎</td><td>あいさわ　いちろう</td><td>自民</td></tr>
+        <tr><td></td><td>逢沢　一郎</td><td>あいさわ　いちろう</td><td>自民</td></tr>
+      </table>
+    </body>
+  </html>
+`;
+
+test.describe('Committee rosters', () => {
+  test('parseCommitteeRole should recognize chairs and directors', () => {
+    expect(parseCommitteeRole('委員長')).toBe('chair');
+    expect(parseCommitteeRole(' 理 事 ')).toBe('director');
+    expect(parseCommitteeRole('')).toBe('member');
+    expect(parseCommitteeRole(undefined)).toBe('member');
+  });
+
+  test('getCommitteeId should use fixed ids for standing committees only', () => {
+    expect(getCommitteeId('予算委員会', 'https://example.com/iin_j0160.htm')).toBe('budget');
+    expect(getCommitteeId('災害対策特別委員会', 'https://example.com/iinkai/iin_t0010.htm')).toBe(
+      'iin_t0010'
+    );
+  });
+
+  test('attachCommittees should match by name and collect every committee', () => {
+    const members = [member('井上 信治', 'いのうえ しんじ'), member('逢沢 一郎')];
+    const unmatched = attachCommittees(members, [
+      roster('予算委員会', [
+        { name: '井上　信治', role: 'director' },
+        { name: '逢沢　一郎', role: 'member' },
+      ]),
+      roster('内閣委員会', [{ name: '井上信治', role: 'chair' }]),
+    ]);
+
+    expect(unmatched).toEqual([]);
+    expect(members[0]?.committees).toEqual([
+      { id: 'budget', name: '予算委員会', role: 'director' },
+      { id: 'cabinet', name: '内閣委員会', role: 'chair' },
+    ]);
+    expect(members[1]?.committees).toEqual([{ id: 'budget', name: '予算委員会', role: 'member' }]);
+  });
+
+  test('attachCommittees should use furigana for namesakes and variant spellings', () => {
+    const members = [
+      member('中川 正春', 'なかがわ まさはる'),
+      member('中川 正春', 'なかがわ まさひろ'),
+      member('髙木 啓', 'たかぎ けい'),
+      member('吉川 赳', 'よしかわ たける'),
+    ];
+    const unmatched = attachCommittees(members, [
+      roster('予算委員会', [
+        { name: '中川 正春', furigana: 'なかがわ まさひろ', role: 'member' },
+        // Folded by the variant table
+        { name: '高木 啓', role: 'member' },
+        // Spelled differently on the roster
+        { name: '吉川 たける', furigana: 'よしかわ たける', role: 'member' },
+        { name: '中川 正春', role: 'member' },
+        { name: '存在 しない', furigana: 'そんざい しない', role: 'member' },
+      ]),
+    ]);
+
+    expect(members.map((m) => m.committees?.length ?? 0)).toEqual([0, 1, 1, 1]);
+    // Namesakes without furigana cannot be told apart
+    expect(unmatched.map((row) => row.member.name)).toEqual(['中川 正春', '存在 しない']);
+  });
+
+  test('attachCommittees should replace committees from an earlier run', () => {
+    const members = [member('井上 信治')];
+    attachCommittees(members, [roster('予算委員会', [{ name: '井上 信治', role: 'member' }])]);
+    attachCommittees(members, [roster('内閣委員会', [{ name: '井上 信治', role: 'member' }])]);
+    expect(members[0]?.committees?.map((c) => c.id)).toEqual(['cabinet']);
+
+    attachCommittees(members, []);
+    expect(members[0]).not.toHaveProperty('committees');
+  });
+
+  test.describe('extractRosterFromPage', () => {
+    let scraper: HouseOfRepresentativesCommitteeScraper;
+
+    test.beforeEach(async () => {
+      scraper = new HouseOfRepresentativesCommitteeScraper();
+      await scraper.initialize();
+    });
+
+    test.afterEach(async () => {
+      await scraper.close();
+    });
+
+    test('should read roles, furigana and 会派 from the roster table', async () => {
+      const page = await scraper.newPage();
+      await page.setContent(ROSTER_PAGE);
+
+      // @ts-expect-error Accessing private method for testing
+      const members: RawCommitteeMember[] = await scraper.extractRosterFromPage(page);
+      expect(members).toEqual([
+        { name: '安住 淳', furigana: 'あずみ じゅん', faction: '立憲', role: 'chair' },
+        { name: '井上 信治', furigana: 'いのうえ しんじ', faction: '自民', role: 'director' },
+        { name: '逢沢 一郎', furigana: 'あいさわ いちろう', faction: '自民', role: 'member' },
+      ]);
+
+      await page.close();
+    });
+  });
+});
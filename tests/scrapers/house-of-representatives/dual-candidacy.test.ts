@@ -0,0 +1,71 @@
+import { expect, test } from '@playwright/test';
+import { parseDualCandidacyDistrict } from '../../../src/scrapers/house-of-representatives/dual-candidacy';
+
+test.describe('parseDualCandidacyDistrict', () => {
+  test('should read the district of the party branch the member heads', () => {
+    expect(
+      parseDualCandidacyDistrict(
+        {
+          electionDistrict: '比例代表（中国）選出',
+          biography:
+            '東 克哉（あずま かつや） 比例代表（中国）選出、立憲民主党・無所属 昭和五十三年生まれ○立憲民主党広島県第三区総支部長○当選一回（50）',
+        },
+        '中国'
+      )
+    ).toBe('hiroshima-3');
+    expect(
+      parseDualCandidacyDistrict({ careerHistory: '日本維新の会兵庫県第六区選挙区支部長' }, '近畿')
+    ).toBe('hyogo-6');
+  });
+
+  test('should accept districts written without 都道府県 or 第', () => {
+    expect(
+      parseDualCandidacyDistrict(
+        { biography: '二〇二一年十月より神奈川十九区総支部長として政治活動。' },
+        '南関東'
+      )
+    ).toBe('kanagawa-19');
+    expect(
+      parseDualCandidacyDistrict({ biography: '平成二十一年に東京都第五区から立候補' }, '東京')
+    ).toBe('tokyo-5');
+  });
+
+  test('should take the latest district the biography names', () => {
+    expect(
+      parseDualCandidacyDistrict(
+        {
+          electionHistory:
+            '当選。その後、民進党東京都第二十三区総支部長。れいわ新選組東京都第二十二区総支部長を経て、再選○当選三回',
+        },
+        '東京'
+      )
+    ).toBe('tokyo-22');
+  });
+
+  test('should ignore districts of other members, outside the block or not in the registry', () => {
+    expect(
+      parseDualCandidacyDistrict(
+        { careerHistory: '白保台一衆議院議員（沖縄一区選出）公設秘書○沖縄県議会議員一期' },
+        '九州'
+      )
+    ).toBeUndefined();
+    expect(
+      parseDualCandidacyDistrict({ careerHistory: '立憲民主党広島県第三区総支部長' }, '近畿')
+    ).toBeUndefined();
+    expect(
+      parseDualCandidacyDistrict({ careerHistory: '自由民主党岡山県第五区支部長' }, '中国')
+    ).toBeUndefined();
+  });
+
+  test('should only read the biography after the 選出 line', () => {
+    expect(
+      parseDualCandidacyDistrict(
+        {
+          electionDistrict: '比例代表（東海）選出',
+          biography: '岐阜県第一区総支部のお知らせ 比例代表（東海）選出、立憲民主党 ○当選一回',
+        },
+        '東海'
+      )
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+import { expect, test } from '@playwright/test';
+import {
+  groupPositions,
+  parseCareerTimeline,
+} from '../../../src/scrapers/house-of-representatives/career';
+import { HouseOfRepresentativesScraper } from '../../../src/scrapers/house-of-representatives/scraper';
+import type { MemberProfile } from '../../../src/scrapers/house-of-representatives/types';
+import { parseWarekiDate } from '../../../src/utils/wareki';
+
+// Trimmed copies of 衆議院 profile pages
+const profilePage = (heading: string, text: string) => `
+  <html>
+    <body>
+      <h2>${heading}</h2>
+      <p>${text}</p>
+      <p>ホームページについて</p>
+    </body>
+  </html>
+`;
+
+const CHAIR_PROFILE = profilePage(
+  '井上 貴博（いのうえ たかひろ）',
+  '小選挙区（福岡県第一区）選出、自由民主党・無所属の会 国土交通委員長 昭和三十七年四月福岡県福岡市に生まれる、獨協大学法学部卒業○福岡県議会議員（三期）、福岡JC理事長○財務大臣補佐官、財務大臣政務官、財務副大臣○自民党国会対策委員会副委員長、副幹事長、総括副幹事長○衆議院議院運営委員会理事○当選五回（46 47 48 49 50） （令和7年3月現在）'
+);
+
+const CURRENT_MARKER_PROFILE = profilePage(
+  '井上 信治（いのうえ しんじ）',
+  '小選挙区（東京都第二十五区）選出、自由民主党・無所属の会 昭和四十四年生まれ。東京都出身。東京大学法学部卒業。国土交通省、外務省勤務。現在、自民党政務調査会長代理、東京都支部連合会会長。国際博覧会担当大臣、環境副大臣、衆議院内閣委員長、自民党幹事長代理などを歴任○当選八回（43 44 45 46 47 48 49 50） （令和7年3月現在）'
+);
+
+test.describe('Current and previous positions', () => {
+  test('should treat titles listed before the birth date as current', () => {
+    const timeline = parseCareerTimeline('国家公安委員会委員長、内閣府特命担当大臣', {
+      current: true,
+    });
+    expect(timeline.every((entry) => entry.current)).toBe(true);
+    expect(groupPositions(timeline)).toEqual({
+      currentPositions: { government: ['国家公安委員会委員長', '内閣府特命担当大臣'] },
+    });
+  });
+
+  test('should limit 「現在、」 to its sentence', () => {
+    const timeline = parseCareerTimeline(
+      '自民党文教部会長、幹事長を務め、現在、最高顧問である。衆議院外務委員長を務める'
+    );
+    expect(groupPositions(timeline)).toEqual({
+      currentPositions: { party: ['自由民主党最高顧問'] },
+      previousPositions: {
+        party: ['自由民主党文教部会長', '自由民主党幹事長'],
+        diet: ['衆議院外務委員会委員長'],
+      },
+    });
+  });
+
+  test('should mark the item before 「現在に至る」 as current', () => {
+    const timeline = parseCareerTimeline('財務大臣政務官、外務大臣政務官、現在に至る');
+    expect(timeline.map((entry) => entry.current === true)).toEqual([false, true]);
+  });
+
+  test('should compare date ranges with the 「現在」 stamp', () => {
+    const timeline = parseCareerTimeline(
+      '令和四年八月～令和五年九月 デジタル副大臣○令和六年十月～ 財務副大臣○令和六年十一月～令和八年三月 予算委員長'
+    );
+    const asOf = parseWarekiDate('令和7年3月現在') ?? undefined;
+
+    expect(groupPositions(timeline, asOf)).toEqual({
+      currentPositions: { government: ['財務副大臣'], diet: ['予算委員会委員長'] },
+      previousPositions: { government: ['デジタル副大臣'] },
+    });
+    // Without the stamp only the open-ended range is known to be current
+    expect(groupPositions(timeline).currentPositions).toEqual({ government: ['財務副大臣'] });
+  });
+
+  test('should not list a current post as a previous one', () => {
+    const timeline = [
+      ...parseCareerTimeline('外務大臣', { current: true }),
+      ...parseCareerTimeline('外務副大臣、外務大臣'),
+    ];
+    expect(groupPositions(timeline)).toEqual({
+      currentPositions: { government: ['外務大臣'] },
+      previousPositions: { government: ['外務副大臣'] },
+    });
+  });
+
+  test.describe('extractProfileFromPage', () => {
+    let scraper: HouseOfRepresentativesScraper;
+
+    test.beforeEach(async () => {
+      scraper = new HouseOfRepresentativesScraper();
+      await scraper.initialize();
+    });
+
+    test.afterEach(async () => {
+      await scraper.close();
+    });
+
+    test('should separate a sitting committee chair from earlier posts', async () => {
+      const page = await scraper.newPage();
+      await page.setContent(CHAIR_PROFILE);
+
+      // @ts-expect-error Accessing private method for testing
+      const profile: MemberProfile | null = await scraper.extractProfileFromPage(page);
+      expect(profile?.currentPositions).toEqual({ diet: ['国土交通委員会委員長'] });
+      expect(profile?.previousPositions).toEqual({
+        government: ['福岡県議会議員', '財務大臣補佐官', '財務大臣政務官', '財務副大臣'],
+        party: ['自由民主党国会対策委員会副委員長', '自由民主党副幹事長', '自由民主党総括副幹事長'],
+        diet: ['衆議院議院運営委員会理事'],
+      });
+      expect(profile?.asOf?.date).toBe('2025-03');
+
+      await page.close();
+    });
+
+    test('should use 「現在」 markers in the biography', async () => {
+      const page = await scraper.newPage();
+      await page.setContent(CURRENT_MARKER_PROFILE);
+
+      // @ts-expect-error Accessing private method for testing
+      const profile: MemberProfile | null = await scraper.extractProfileFromPage(page);
+      expect(profile?.currentPositions).toEqual({
+        party: ['自由民主党政務調査会長代理', '自由民主党東京都支部連合会会長'],
+      });
+      expect(profile?.previousPositions).toEqual({
+        government: ['国際博覧会担当大臣', '環境副大臣'],
+        diet: ['衆議院内閣委員会委員長'],
+        party: ['自由民主党幹事長代理'],
+      });
+
+      await page.close();
+    });
+  });
+});
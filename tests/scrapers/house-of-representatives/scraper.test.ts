@@ -1,5 +1,10 @@
 import { expect, test } from '@playwright/test';
 import { HouseOfRepresentativesScraper } from '../../../src/scrapers/house-of-representatives';
+import type {
+  HouseOfRepresentativesMember,
+  RawMemberData,
+  UnknownDistrict,
+} from '../../../src/scrapers/house-of-representatives/types';
 
 test.describe('HouseOfRepresentativesScraper', () => {
   let scraper: HouseOfRepresentativesScraper;
@@ -41,3 +46,120 @@ test.describe('HouseOfRepresentativesScraper', () => {
     expect(['single-seat', 'proportional-representation']).toContain(firstMember.election.system);
   });
 });
+
+test.describe('HouseOfRepresentativesScraper parsing', () => {
+  const scraper = new HouseOfRepresentativesScraper();
+  const row = (prefecture: string): RawMemberData => ({
+    name: { full: '逢沢　一郎', first: '一郎', last: '逢沢' },
+    party: '自民',
+    prefecture,
+  });
+
+  test('processRawMembers should attach registry ids to known districts', () => {
+    const unknownDistricts: UnknownDistrict[] = [];
+    // @ts-expect-error Accessing private method for testing
+    const members = scraper.processRawMembers(
+      [row('岡山1'), row('（比）近畿')],
+      'あ行',
+      0,
+      unknownDistricts
+    ) as HouseOfRepresentativesMember[];
+
+    expect(members.map((member) => member.election)).toEqual([
+      {
+        system: 'single-seat',
+        prefecture: '岡山',
+        number: '1',
+        districtId: 'okayama-1',
+        blockId: 'chugoku',
+      },
+      { system: 'proportional-representation', area: '近畿', blockId: 'kinki' },
+    ]);
+    expect(unknownDistricts).toEqual([]);
+  });
+
+  test('processRawMembers should report districts that are not in the registry', () => {
+    const unknownDistricts: UnknownDistrict[] = [];
+    // @ts-expect-error Accessing private method for testing
+    const members = scraper.processRawMembers(
+      [row('岡山5'), row('西東京3'), row('（比）関西')],
+      'あ行',
+      0,
+      unknownDistricts
+    ) as HouseOfRepresentativesMember[];
+
+    // The raw text is reported, not stored as a prefecture or block
+    expect(members.map((member) => member.election)).toEqual([
+      { system: 'single-seat', prefecture: '岡山', number: '5' },
+      { system: 'single-seat', prefecture: '不明' },
+      { system: 'proportional-representation' },
+    ]);
+    expect(unknownDistricts).toEqual([
+      { name: '逢沢　一郎', raw: '岡山5', reason: '岡山 has 4 districts, not 5' },
+      { name: '逢沢　一郎', raw: '西東京3', reason: 'unknown prefecture: 不明' },
+      { name: '逢沢　一郎', raw: '（比）関西', reason: 'unknown 比例 block: (none)' },
+    ]);
+  });
+
+  test('attachProfile should record the district a 比例 member also ran in', () => {
+    // @ts-expect-error Accessing private method for testing
+    const [single, proportional] = scraper.processRawMembers(
+      [row('広島3'), row('（比）中国')],
+      'あ行',
+      0,
+      []
+    ) as HouseOfRepresentativesMember[];
+    const profile = { careerHistory: '○立憲民主党広島県第三区総支部長' };
+
+    for (const member of [single, proportional]) {
+      // @ts-expect-error Accessing private method for testing
+      scraper.attachProfile(member, { ...profile });
+    }
+    expect(single?.election.dualCandidacyDistrict).toBeUndefined();
+    expect(proportional?.election.dualCandidacyDistrict).toBe('hiroshima-3');
+  });
+});
+
+test.describe('Profile birth clause', () => {
+  const scraper = new HouseOfRepresentativesScraper();
+
+  test('should separate the birth date from the birthplace', () => {
+    // @ts-expect-error Accessing private method for testing
+    const info = scraper.parseBirthInfo(
+      '小選挙区（岡山県第一区）選出、自由民主党・無所属の会 昭和二十九年六月岡山県岡山市に生まれる、慶應義塾大学工学部卒業'
+    );
+    expect(info).toEqual({
+      birth: { date: '1954-06', precision: 'month', raw: '昭和二十九年六月' },
+      birthPlace: '岡山県岡山市',
+    });
+  });
+
+  test('should handle 生まれ without に and places with notes', () => {
+    // @ts-expect-error Accessing private method for testing
+    expect(scraper.parseBirthInfo('昭和四十四年八月東京都中野区生まれ')?.birthPlace).toBe(
+      '東京都中野区'
+    );
+    // @ts-expect-error Accessing private method for testing
+    const info = scraper.parseBirthInfo(
+      '昭和四十三年二月北海道上川郡風連町（現在名寄市）に生まれる。'
+    );
+    expect(info?.birth.date).toBe('1968-02');
+    expect(info?.birthPlace).toBe('北海道上川郡風連町（現在名寄市）');
+  });
+
+  test('should fall back to a bare date after the 会派', () => {
+    // @ts-expect-error Accessing private method for testing
+    const info = scraper.parseBirthInfo(
+      '比例代表選出、立憲民主党・無所属 昭和四十九年三月二十七日 ○早稲田大学卒業',
+      '立憲民主党・無所属'
+    );
+    expect(info).toEqual({
+      birth: { date: '1974-03-27', precision: 'day', raw: '昭和四十九年三月二十七日' },
+    });
+  });
+
+  test('should not mistake 期生 for a birth clause', () => {
+    // @ts-expect-error Accessing private method for testing
+    expect(scraper.parseBirthInfo('松下政経塾第一期生、平成十五年衆議院議員')).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { expect, test } from '@playwright/test';
+import { PageFetchError } from '../../src/scrapers/fetch';
+import { HouseOfRepresentativesScraper } from '../../src/scrapers/house-of-representatives/scraper';
+import type { MemberProfile } from '../../src/scrapers/house-of-representatives/types';
+import {
+  decodeHtml,
+  detectCharset,
+  fetchStaticPage,
+  StaticDocument,
+} from '../../src/scrapers/http';
+
+// 「衆議院議員」 encoded as Shift_JIS
+const SHIFT_JIS_TITLE = [0x8f, 0x4f, 0x8b, 0x63, 0x89, 0x40, 0x8b, 0x63, 0x88, 0xf5];
+
+const shiftJisPage = (meta: string) =>
+  Uint8Array.from([
+    ...Buffer.from(`<html><head>${meta}</head><body><h1>`),
+    ...SHIFT_JIS_TITLE,
+    ...Buffer.from('</h1></body></html>'),
+  ]);
+
+// Trimmed copy of a 衆議院 syllabary page
+const MEMBER_LIST_PAGE = `
+  <html>
+    <body>
+      <table>
+        <tr><td>氏名</td><td>ふりがな</td><td>会派</td><td>選挙区</td><td>当選回数</td></tr>
+        <tr>
+          <td><a href="../../../../itdb_annai.nsf/html/statics/syu/profile/a001.html">逢沢　一郎君</a></td>
+          <td>あいさわ　いちろう</td>
+          <td>自民</td>
+          <td>岡山1</td>
+          <td>13</td>
+        </tr>
+        <tr>
+          <td>青柳　仁士君</td>
+          <td>あおやぎ　ひとし</td>
+          <td>維新</td>
+          <td>（比）近畿</td>
+          <td>2</td>
+        </tr>
+      </table>
+    </body>
+  </html>
+`;
+
+const PROFILE_PAGE = `
+  <html>
+    <body>
+      <h2>逢沢 一郎（あいさわ いちろう）</h2>
+      <p>小選挙区（岡山県第一区）選出、自由民主党・無所属の会 昭和二十九年六月岡山県に生まれる、慶應義塾大学工学部卒業○当選十三回（39 40 41 42 43 44 45 46 47 48 49 50 51） （令和7年3月現在）</p>
+      <p>ホームページについて</p>
+    </body>
+  </html>
+`;
+
+test.describe('HTTP transport', () => {
+  test('detectCharset should prefer the Content-Type header over the meta tag', () => {
+    const bytes = shiftJisPage('<meta charset="Shift_JIS">');
+    expect(detectCharset(bytes, 'text/html; charset=UTF-8')).toBe('utf-8');
+    expect(detectCharset(bytes, 'text/html')).toBe('shift_jis');
+    expect(
+      detectCharset(
+        shiftJisPage('<meta http-equiv="Content-Type" content="text/html; charset=x-sjis">'),
+        null
+      )
+    ).toBe('x-sjis');
+    expect(detectCharset(Buffer.from('<html></html>'), null)).toBe('utf-8');
+  });
+
+  test('decodeHtml should decode Shift_JIS and UTF-8 pages', () => {
+    const sjis = decodeHtml(shiftJisPage('<meta charset="Shift_JIS">'));
+    expect(sjis).toContain('<h1>衆議院議員</h1>');
+
+    expect(decodeHtml(Buffer.from('<h1>衆議院議員</h1>'), 'text/html; charset=utf-8')).toBe(
+      '<h1>衆議院議員</h1>'
+    );
+    // An unknown label falls back to UTF-8
+    expect(decodeHtml(Buffer.from('<h1>衆議院</h1>'), 'text/html; charset=bogus')).toBe(
+      '<h1>衆議院</h1>'
+    );
+  });
+
+  test('StaticDocument should support the locator calls used by the extractors', async () => {
+    const document = new StaticDocument(MEMBER_LIST_PAGE);
+    const rows = await document.locator('table tr').all();
+    expect(rows).toHaveLength(3);
+
+    const cells = await rows[1]?.locator('td').all();
+    const link = cells?.[0]?.locator('a').first();
+    expect(await link?.count()).toBe(1);
+    expect(await link?.textContent()).toBe('逢沢　一郎君');
+    expect(await link?.getAttribute('href')).toContain('profile/a001.html');
+    expect(await document.locator('h2').first().count()).toBe(0);
+    expect(await document.locator('h2').first().textContent()).toBeNull();
+    expect(await document.content()).toBe(MEMBER_LIST_PAGE);
+  });
+
+  test('extractMembersFromPage should read a statically parsed member list', async () => {
+    const scraper = new HouseOfRepresentativesScraper();
+
+    // @ts-expect-error Accessing private method for testing
+    const rows = await scraper.extractMembersFromPage(new StaticDocument(MEMBER_LIST_PAGE));
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      name: { full: '逢沢　一郎', last: '逢沢', first: '一郎' },
+      furigana: 'あいさわ　いちろう',
+      profileUrl:
+        'https://www.shugiin.go.jp/internet/itdb_annai.nsf/html/statics/syu/profile/a001.html',
+    });
+  });
+
+  test('extractProfileFromPage should read a statically parsed profile', async () => {
+    const scraper = new HouseOfRepresentativesScraper();
+
+    // @ts-expect-error Accessing private method for testing
+    const profile: MemberProfile | null = await scraper.extractProfileFromPage(
+      new StaticDocument(PROFILE_PAGE)
+    );
+    expect(profile?.fullName).toBe('逢沢 一郎');
+    expect(profile?.furigana).toBe('あいさわ いちろう');
+    expect(profile?.asOf?.date).toBe('2025-03');
+  });
+
+  test.describe('fetchStaticPage', () => {
+    let server: Server;
+    let baseUrl: string;
+    let flakyRequests = 0;
+
+    test.beforeAll(async () => {
+      server = createServer((request, response) => {
+        // The first request for /flaky fails with 503, later ones succeed
+        if (request.url === '/flaky' && flakyRequests++ === 0) {
+          response.writeHead(503).end();
+          return;
+        }
+        if (request.url === '/missing') {
+          response.writeHead(404).end();
+          return;
+        }
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end(Buffer.from(shiftJisPage('<meta charset="Shift_JIS">')));
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    test.afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('should decode the response and retry transient failures', async () => {
+      const title = await fetchStaticPage(`${baseUrl}/flaky`, {
+        baseDelayMs: 0,
+        maxDelayMs: 0,
+        parse: async (document) => document.locator('h1').first().textContent(),
+      });
+      expect(title).toBe('衆議院議員');
+      expect(flakyRequests).toBe(2);
+    });
+
+    test('should fail permanently on a 404', async () => {
+      const error = await fetchStaticPage(`${baseUrl}/missing`, {
+        baseDelayMs: 0,
+        maxDelayMs: 0,
+        parse: async () => 'never',
+      }).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(PageFetchError);
+      expect((error as PageFetchError).toFailure()).toMatchObject({
+        kind: 'http-4xx',
+        status: 404,
+        attempts: 1,
+      });
+    });
+  });
+});
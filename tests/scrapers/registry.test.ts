@@ -0,0 +1,102 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import type { Browser } from 'playwright';
+import { MemberIdRegistry } from '../../src/member-id';
+import { DietMemberScraper } from '../../src/scraper';
+import type { ChamberResult, ChamberScraper } from '../../src/scrapers';
+import { createDefaultRegistry, ScraperRegistry } from '../../src/scrapers';
+
+class FakeAssemblyScraper implements ChamberScraper {
+  readonly displayName = 'テスト議会';
+  browser: Browser | null = null;
+  memberIds: MemberIdRegistry | null = null;
+  closed = false;
+
+  constructor(readonly id: string) {}
+
+  async initialize(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+
+  useBrowser(browser: Browser): void {
+    this.browser = browser;
+  }
+
+  useMemberIds(registry: MemberIdRegistry | null): void {
+    this.memberIds = registry;
+  }
+
+  async scrapeAllPages(): Promise<ChamberResult> {
+    return {
+      members: [{ name: `${this.id}議員`, party: '無所属' }],
+      scrapedAt: new Date().toISOString(),
+      source: `${this.id}-list`,
+    };
+  }
+
+  async scrape(): Promise<ChamberResult> {
+    return this.scrapeAllPages();
+  }
+}
+
+test.describe('ScraperRegistry', () => {
+  test('default registry should contain both chambers', () => {
+    const registry = createDefaultRegistry();
+    expect(registry.ids()).toEqual(['house-of-representatives', 'house-of-councillors']);
+    expect(registry.get('house-of-councillors').displayName).toBe('参議院');
+  });
+
+  test('should reject duplicate ids and unknown lookups', () => {
+    const registry = new ScraperRegistry().register(new FakeAssemblyScraper('okayama'));
+    expect(() => registry.register(new FakeAssemblyScraper('okayama'))).toThrow(
+      'Scraper already registered: okayama'
+    );
+    expect(() => registry.get('tokyo')).toThrow('Unknown scraper: tokyo');
+    expect(registry.has('okayama')).toBe(true);
+  });
+});
+
+test.describe('DietMemberScraper with a custom registry', () => {
+  test('should share the browser and run a subset of scrapers', async () => {
+    const okayama = new FakeAssemblyScraper('okayama');
+    const tokyo = new FakeAssemblyScraper('tokyo');
+    const scraper = new DietMemberScraper(new ScraperRegistry().register(okayama));
+
+    const browser = {} as Browser;
+    scraper.useBrowser(browser);
+    // Scrapers registered after the browser exists receive it too
+    scraper.registerScraper(tokyo);
+    expect(okayama.browser).toBe(browser);
+    expect(tokyo.browser).toBe(browser);
+
+    const results = await scraper.scrape(['tokyo']);
+    expect(Object.keys(results)).toEqual(['tokyo']);
+    expect(results['tokyo']?.members[0]?.name).toBe('tokyo議員');
+
+    await scraper.close();
+    expect(okayama.closed).toBe(true);
+    expect(tokyo.closed).toBe(true);
+  });
+
+  test('should give every registered scraper the member ID registry', () => {
+    const okayama = new FakeAssemblyScraper('okayama');
+    const tokyo = new FakeAssemblyScraper('tokyo');
+    const scraper = new DietMemberScraper(new ScraperRegistry().register(okayama));
+
+    const memberIds = new MemberIdRegistry(join(tmpdir(), 'unused-member-ids.json'));
+    scraper.useMemberIds(memberIds);
+    scraper.registerScraper(tokyo);
+    expect(okayama.memberIds).toBe(memberIds);
+    expect(tokyo.memberIds).toBe(memberIds);
+  });
+
+  test('scrape should require a browser', async () => {
+    const scraper = new DietMemberScraper(
+      new ScraperRegistry().register(new FakeAssemblyScraper('okayama'))
+    );
+    await expect(scraper.scrape()).rejects.toThrow('Browser not initialized');
+  });
+});
@@ -0,0 +1,176 @@
+import { expect, test } from '@playwright/test';
+import type { ExportableResult } from '../src/export';
+import { type ApiServer, MemberApi, startApiServer } from '../src/server';
+
+const RESULT: ExportableResult = {
+  members: [
+    {
+      id: 'm-aisawa',
+      name: '逢沢　一郎',
+      furigana: 'あいさわ　いちろう',
+      party: '自由民主党',
+      partyId: 'ldp',
+      faction: '自民',
+      election: { system: 'single-seat', prefecture: '岡山', number: '1' },
+    },
+    {
+      id: 'm-aoyagi',
+      name: '青柳　仁士',
+      furigana: 'あおやぎ　ひとし',
+      party: '日本維新の会',
+      partyId: 'ishin',
+      election: { system: 'proportional-representation', area: '近畿' },
+    },
+    {
+      id: 'm-akazawa',
+      name: '赤沢　亮正',
+      furigana: 'あかざわ　りょうせい',
+      party: '自由民主党',
+      partyId: 'ldp',
+      election: { system: 'single-seat', prefecture: '鳥取', number: '2' },
+    },
+  ],
+  scrapedAt: '2025-04-01T00:00:00.000Z',
+  source: 'house-of-representatives-list',
+};
+
+const ids = (body: unknown) =>
+  (
+    (body as { items?: { id: string }[]; members?: { id: string }[] }).items ??
+    (body as { members: { id: string }[] }).members
+  ).map((member) => member.id);
+
+test.describe('MemberApi', () => {
+  const api = new MemberApi(RESULT);
+
+  test('should filter and paginate members', () => {
+    expect(ids(api.handle('/members?partyId=ldp').body)).toEqual(['m-aisawa', 'm-akazawa']);
+    expect(ids(api.handle('/members?prefecture=岡山県').body)).toEqual(['m-aisawa']);
+    expect(ids(api.handle('/members?name=あおやぎ').body)).toEqual(['m-aoyagi']);
+    expect(ids(api.handle('/members?system=single-seat&partyId=ishin').body)).toEqual([]);
+
+    const page = api.handle('/members?limit=1&offset=1');
+    expect(page.body).toMatchObject({ total: 3, limit: 1, offset: 1 });
+    expect(ids(page.body)).toEqual(['m-aoyagi']);
+  });
+
+  test('should reject invalid pagination', () => {
+    expect(api.handle('/members?limit=0')).toEqual({
+      status: 400,
+      body: { error: 'limit must be a positive integer' },
+    });
+    expect(api.handle('/members?limit=1000').status).toBe(400);
+    expect(api.handle('/members?offset=-1').status).toBe(400);
+  });
+
+  test('should find a member by id', () => {
+    expect(api.handle('/members/m-aoyagi').body).toMatchObject({
+      id: 'm-aoyagi',
+      chamber: 'house-of-representatives',
+    });
+    expect(api.handle('/members/m-unknown').status).toBe(404);
+  });
+
+  test('should count members per party', () => {
+    expect(api.handle('/parties').body).toEqual([
+      { party: '自由民主党', partyId: 'ldp', members: 2 },
+      { party: '日本維新の会', partyId: 'ishin', members: 1 },
+    ]);
+  });
+
+  test('should answer district and block queries', () => {
+    const district = api.handle(`/districts/${encodeURIComponent('岡山県')}/１`);
+    expect(district.body).toMatchObject({ prefecture: '岡山', number: '1' });
+    expect(ids(district.body)).toEqual(['m-aisawa']);
+    expect(api.handle('/districts/岡山/9').status).toBe(404);
+    expect(api.handle('/districts/okayama-1').body).toMatchObject({
+      id: 'okayama-1',
+      members: [{ id: 'm-aisawa' }],
+    });
+    // A district in the registry without a member is vacant, not missing
+    expect(api.handle('/districts/okayama-2')).toMatchObject({
+      status: 200,
+      body: { members: [] },
+    });
+    expect(api.handle('/districts/okayama-9').status).toBe(404);
+
+    expect(ids(api.handle(`/blocks/${encodeURIComponent('近畿ブロック')}`).body)).toEqual([
+      'm-aoyagi',
+    ]);
+  });
+
+  test('should report unknown endpoints', () => {
+    expect(api.handle('/committees')).toEqual({
+      status: 404,
+      body: { error: 'No such endpoint: /committees' },
+    });
+    expect(api.handle('/').body).toMatchObject({ members: 3, scrapedAt: RESULT.scrapedAt });
+  });
+});
+
+test.describe('startApiServer', () => {
+  let server: ApiServer;
+
+  test.beforeAll(async () => {
+    server = await startApiServer(new MemberApi(RESULT), { corsOrigin: 'https://example.jp' });
+  });
+
+  test.afterAll(async () => {
+    await server.close();
+  });
+
+  test('should send ETags and answer If-None-Match with 304', async () => {
+    const first = await fetch(`${server.url}/parties`);
+    const etag = first.headers.get('etag');
+    expect(first.status).toBe(200);
+    expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(first.headers.get('access-control-allow-origin')).toBe('https://example.jp');
+
+    const second = await fetch(`${server.url}/parties`, {
+      headers: { 'If-None-Match': etag ?? '' },
+    });
+    expect(second.status).toBe(304);
+
+    const other = await fetch(`${server.url}/members`, {
+      headers: { 'If-None-Match': etag ?? '' },
+    });
+    expect(other.status).toBe(200);
+  });
+
+  test('should answer CORS preflights and refuse writes', async () => {
+    const preflight = await fetch(`${server.url}/members`, { method: 'OPTIONS' });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-methods')).toBe('GET, HEAD, OPTIONS');
+
+    const post = await fetch(`${server.url}/members`, { method: 'POST', body: '{}' });
+    expect(post.status).toBe(405);
+    expect(post.headers.get('allow')).toBe('GET, HEAD, OPTIONS');
+  });
+
+  test('should run GraphQL queries sent with POST or GET', async () => {
+    const query = '{ district(prefecture: "岡山県", number: "1") { members { name } } }';
+    const post = await fetch(`${server.url}/graphql`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query }),
+    });
+    expect(post.status).toBe(200);
+    expect(await post.json()).toEqual({
+      data: { district: { members: [{ name: '逢沢　一郎' }] } },
+    });
+
+    const get = await fetch(`${server.url}/graphql?query=${encodeURIComponent(query)}`);
+    expect(get.status).toBe(200);
+    expect(get.headers.get('etag')).not.toBeNull();
+
+    const invalid = await fetch(`${server.url}/graphql`, { method: 'POST', body: 'query' });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: 'The request body is not valid JSON' });
+  });
+
+  test('should return errors as JSON', async () => {
+    const response = await fetch(`${server.url}/members/m-unknown`);
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'No member with id m-unknown' });
+  });
+});
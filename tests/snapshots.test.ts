@@ -0,0 +1,48 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import { SCHEMA_VERSION } from '../src/constants';
+import { SnapshotStore } from '../src/snapshots';
+
+const result = (scrapedAt: string) => ({
+  schemaVersion: SCHEMA_VERSION,
+  members: [{ name: '逢沢　一郎', party: '自由民主党' }],
+  scrapedAt,
+  source: 'house-of-representatives-list',
+});
+
+test.describe('SnapshotStore', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'snapshots-'));
+  });
+
+  test.afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should keep one snapshot per run, in time order', () => {
+    const snapshots = new SnapshotStore(dir);
+    snapshots.save('diet-members.json', result('2025-04-08T00:00:00.000Z'));
+    snapshots.save('diet-members.json', result('2025-04-01T00:00:00.000Z'));
+    snapshots.save('house-of-councillors.json', result('2025-04-05T00:00:00.000Z'));
+
+    expect(snapshots.list('diet-members').map((entry) => entry.scrapedAt)).toEqual([
+      '2025-04-01T00:00:00.000Z',
+      '2025-04-08T00:00:00.000Z',
+    ]);
+    expect(snapshots.latest('diet-members.json')?.scrapedAt).toBe('2025-04-08T00:00:00.000Z');
+    expect(snapshots.latest('diet-members', '2025-04-08T00:00:00.000Z')?.scrapedAt).toBe(
+      '2025-04-01T00:00:00.000Z'
+    );
+    expect(snapshots.list('missing')).toEqual([]);
+  });
+
+  test('should load a snapshot back', () => {
+    const snapshots = new SnapshotStore(dir);
+    const entry = snapshots.save('diet-members.json', result('2025-04-01T00:00:00.000Z'));
+    expect(snapshots.load(entry)).toEqual(result('2025-04-01T00:00:00.000Z'));
+  });
+});
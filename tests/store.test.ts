@@ -0,0 +1,186 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import Database from 'better-sqlite3';
+import { SCHEMA_VERSION } from '../src/constants';
+import type { HouseOfCouncillorsResult } from '../src/scrapers/house-of-councillors/types';
+import type { HouseOfRepresentativesResult } from '../src/scrapers/house-of-representatives/types';
+import { MemberStore, memberId, profilePositions } from '../src/store';
+
+const representatives = (
+  members: HouseOfRepresentativesResult['members'],
+  scrapedAt = '2025-04-01T00:00:00.000Z'
+): HouseOfRepresentativesResult => ({
+  schemaVersion: SCHEMA_VERSION,
+  members,
+  scrapedAt,
+  source: 'house-of-representatives-list',
+});
+
+const AISAWA = {
+  name: '逢沢　一郎',
+  furigana: 'あいさわ　いちろう',
+  party: '自由民主党',
+  partyId: 'ldp' as const,
+  faction: '自民',
+  electionCount: 13,
+  election: {
+    system: 'single-seat' as const,
+    prefecture: '岡山県',
+    number: '1',
+    districtId: 'okayama-1',
+    blockId: 'chugoku' as const,
+  },
+};
+
+const AOYAGI = {
+  name: '青柳　仁士',
+  furigana: 'あおやぎ　ひとし',
+  party: '日本維新の会',
+  partyId: 'ishin' as const,
+  election: {
+    system: 'proportional-representation' as const,
+    area: '近畿',
+    blockId: 'kinki' as const,
+    dualCandidacyDistrict: 'osaka-14',
+  },
+};
+
+test.describe('MemberStore', () => {
+  let dir: string;
+  let store: MemberStore;
+
+  test.beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'member-store-'));
+    store = new MemberStore(join(dir, 'diet-members.sqlite'));
+  });
+
+  test.afterEach(() => {
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('memberId should ignore spacing in the name', () => {
+    expect(memberId('house-of-representatives', '逢沢　一郎')).toBe(
+      memberId('house-of-representatives', '逢沢 一郎')
+    );
+  });
+
+  test('should store a run and read members back', () => {
+    const runId = store.recordRun(representatives([AISAWA, AOYAGI]));
+
+    const member = store.getMember(memberId('house-of-representatives', '逢沢一郎'));
+    expect(member).toMatchObject({
+      ...AISAWA,
+      chamber: 'house-of-representatives',
+      firstSeenRunId: runId,
+      lastSeenRunId: runId,
+    });
+    expect(store.getMember(memberId('house-of-representatives', '青柳仁士'))?.election).toEqual(
+      AOYAGI.election
+    );
+    expect(store.listRuns()).toMatchObject([
+      { id: runId, chamber: 'house-of-representatives', memberCount: 2, failureCount: 0 },
+    ]);
+  });
+
+  test('should add the district columns to a store created without them', () => {
+    store.close();
+    const path = join(dir, 'old.sqlite');
+    const old = new Database(path);
+    old.exec(
+      'CREATE TABLE elections (member_id TEXT PRIMARY KEY, system TEXT NOT NULL, prefecture TEXT, number TEXT, area TEXT)'
+    );
+    old.close();
+
+    store = new MemberStore(path);
+    store.recordRun(representatives([AISAWA]));
+    expect(store.getMember(memberId('house-of-representatives', AISAWA.name))?.election).toEqual(
+      AISAWA.election
+    );
+  });
+
+  test('should upsert members across runs and keep earlier profiles', () => {
+    const firstRun = store.recordRun(
+      representatives([
+        {
+          ...AISAWA,
+          profile: {
+            fullName: '逢沢 一郎',
+            currentPositions: { diet: ['衆議院政治倫理審査会会長'] },
+            previousPositions: { government: ['外務副大臣'] },
+          },
+        },
+        AOYAGI,
+      ])
+    );
+    // A later basic run: new party label, no profiles, one member gone
+    const secondRun = store.recordRun(
+      representatives([{ ...AISAWA, faction: '自民党' }], '2025-05-01T00:00:00.000Z')
+    );
+
+    const id = memberId('house-of-representatives', AISAWA.name);
+    const member = store.getMember(id);
+    expect(member).toMatchObject({
+      faction: '自民党',
+      firstSeenRunId: firstRun,
+      lastSeenRunId: secondRun,
+      profileRunId: firstRun,
+    });
+    expect(member?.profile).toMatchObject({ fullName: '逢沢 一郎' });
+    expect(store.getPositions(id)).toEqual([
+      { kind: 'current', category: 'diet', title: '衆議院政治倫理審査会会長' },
+      { kind: 'previous', category: 'government', title: '外務副大臣' },
+    ]);
+
+    expect(store.findMembers({ runId: secondRun }).map((m) => m.name)).toEqual(['逢沢　一郎']);
+    expect(store.findMembers({ runId: firstRun })).toHaveLength(2);
+  });
+
+  test('findMembers should filter and paginate', () => {
+    const councillors: HouseOfCouncillorsResult = {
+      schemaVersion: SCHEMA_VERSION,
+      members: [
+        {
+          name: '青木　一彦',
+          furigana: 'あおき　かずひこ',
+          party: '自由民主党',
+          partyId: 'ldp',
+          election: { system: 'prefectural-district', prefecture: '鳥取県', area: '鳥取・島根' },
+          termEnd: '2031-07-28',
+          reelectionYear: 2031,
+          profile: { positions: ['参議院議院運営委員長'] },
+        },
+      ],
+      scrapedAt: '2025-04-01T00:00:00.000Z',
+      source: 'house-of-councillors-list',
+    };
+    store.recordRun(representatives([AISAWA, AOYAGI]));
+    store.recordRun(councillors);
+
+    expect(store.findMembers().map((m) => m.name)).toEqual([
+      '逢沢　一郎',
+      '青木　一彦',
+      '青柳　仁士',
+    ]);
+    expect(store.findMembers({ partyId: 'ldp' })).toHaveLength(2);
+    expect(store.findMembers({ chamber: 'house-of-councillors' })[0]).toMatchObject({
+      termEnd: '2031-07-28',
+      reelectionYear: 2031,
+      election: { area: '鳥取・島根' },
+    });
+    expect(store.findMembers({ prefecture: '岡山県' }).map((m) => m.name)).toEqual(['逢沢　一郎']);
+    expect(store.findMembers({ system: 'proportional-representation' })).toHaveLength(1);
+    expect(store.findMembers({ name: 'あおやぎ' }).map((m) => m.name)).toEqual(['青柳　仁士']);
+    expect(store.findMembers({ name: '逢沢一郎' })).toHaveLength(1);
+    expect(store.findMembers({ limit: 1, offset: 1 }).map((m) => m.name)).toEqual(['青木　一彦']);
+    expect(store.listRuns('house-of-councillors')).toHaveLength(1);
+  });
+
+  test('profilePositions should flatten 参議院 positions as current diet posts', () => {
+    expect(profilePositions({ positions: ['予算委員'] })).toEqual([
+      { kind: 'current', category: 'diet', title: '予算委員' },
+    ]);
+  });
+});
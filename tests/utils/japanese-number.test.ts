@@ -0,0 +1,65 @@
+import { expect, test } from '@playwright/test';
+import { parseJapaneseNumber } from '../../src/utils/japanese-number';
+
+test.describe('Japanese numeral parsing', () => {
+  test('should parse kanji numerals beyond 二十', () => {
+    const cases: [string, number][] = [
+      ['〇', 0],
+      ['九', 9],
+      ['十', 10],
+      ['十三', 13],
+      ['二十一', 21],
+      ['三十五', 35],
+      ['六十四', 64],
+      ['百', 100],
+      ['百二十', 120],
+      ['二百十七', 217],
+      ['千九百四十七', 1947],
+      ['一万二千', 12000],
+      ['三億五百万', 305000000],
+    ];
+
+    for (const [input, expected] of cases) {
+      expect(parseJapaneseNumber(input), input).toBe(expected);
+    }
+  });
+
+  test('should parse Arabic, full-width and mixed numerals', () => {
+    expect(parseJapaneseNumber('38')).toBe(38);
+    expect(parseJapaneseNumber('３８')).toBe(38);
+    expect(parseJapaneseNumber('２万５千')).toBe(25000);
+    expect(parseJapaneseNumber('1,200')).toBe(1200);
+  });
+
+  test('should parse digit-by-digit kanji years', () => {
+    expect(parseJapaneseNumber('一九四七')).toBe(1947);
+    expect(parseJapaneseNumber('二〇二五')).toBe(2025);
+  });
+
+  test('should parse 大字 forms', () => {
+    expect(parseJapaneseNumber('壱')).toBe(1);
+    expect(parseJapaneseNumber('弐拾')).toBe(20);
+    expect(parseJapaneseNumber('参拾五')).toBe(35);
+    expect(parseJapaneseNumber('壱萬')).toBe(10000);
+  });
+
+  test('should report malformed numerals as null instead of 0', () => {
+    const invalid = [
+      '',
+      '回',
+      '十十',
+      '十百',
+      '二十一九',
+      '二一十',
+      '一九百',
+      '万',
+      '三回',
+      'abc',
+      '万万',
+    ];
+    for (const input of invalid) {
+      expect(parseJapaneseNumber(input), input).toBeNull();
+    }
+    expect(parseJapaneseNumber(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,15 @@
+import { expect, test } from '@playwright/test';
+import { normalizeMemberFurigana, normalizeMemberName } from '../../src/utils/member-name';
+
+test.describe('Member name keys', () => {
+  test('normalizeMemberName should ignore spacing and fold variant kanji', () => {
+    expect(normalizeMemberName('髙木　 毅')).toBe(normalizeMemberName('高木 毅'));
+    expect(normalizeMemberName('渡邉 博道')).toBe('渡辺博道');
+  });
+
+  test('normalizeMemberFurigana should ignore spacing and kana type', () => {
+    expect(normalizeMemberFurigana('イノウエ シンジ')).toBe(
+      normalizeMemberFurigana('いのうえ　しんじ')
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { expect, test } from '@playwright/test';
+import { eraToGregorianYear, getEraName, parseWarekiDate } from '../../src/utils/wareki';
+
+test.describe('Wareki date parsing', () => {
+  test('should parse kanji dates with month and day precision', () => {
+    expect(parseWarekiDate('昭和二十九年六月岡山県岡山市に生まれる')).toEqual({
+      date: '1954-06',
+      precision: 'month',
+      raw: '昭和二十九年六月',
+    });
+    expect(parseWarekiDate('昭和三十五年十二月十八日東京都に生まれる')).toEqual({
+      date: '1960-12-18',
+      precision: 'day',
+      raw: '昭和三十五年十二月十八日',
+    });
+    expect(parseWarekiDate('昭和四十二年愛媛県松山市に生まれる')).toEqual({
+      date: '1967',
+      precision: 'year',
+      raw: '昭和四十二年',
+    });
+  });
+
+  test('should parse Arabic and full-width numerals', () => {
+    expect(parseWarekiDate('令和7年3月現在')?.date).toBe('2025-03');
+    expect(parseWarekiDate('令和１３年７月２８日')?.date).toBe('2031-07-28');
+    expect(parseWarekiDate('平成 23 年 5 月')?.date).toBe('2011-05');
+  });
+
+  test('should handle 元年 and every era', () => {
+    expect(parseWarekiDate('令和元年五月一日')?.date).toBe('2019-05-01');
+    expect(parseWarekiDate('平成元年')?.date).toBe('1989');
+    expect(parseWarekiDate('大正十五年')?.date).toBe('1926');
+    expect(parseWarekiDate('明治四十五年七月')?.date).toBe('1912-07');
+  });
+
+  test('should parse kanji 西暦 years', () => {
+    expect(parseWarekiDate('一九四七年十二月沖縄県那覇市に生まれる')).toEqual({
+      date: '1947-12',
+      precision: 'month',
+      raw: '一九四七年十二月',
+    });
+    expect(parseWarekiDate('一九八六年生。')?.date).toBe('1986');
+  });
+
+  test('should reject impossible dates', () => {
+    expect(parseWarekiDate('平成三十二年')).toBeNull(); // 平成 ended in its 31st year
+    expect(parseWarekiDate('昭和五十年十三月')).toBeNull();
+    expect(parseWarekiDate('令和五年二月三十日')).toBeNull();
+    expect(parseWarekiDate('生年月日不明')).toBeNull();
+    expect(parseWarekiDate('')).toBeNull();
+  });
+
+  test('should reject dates before an era began or after it ended', () => {
+    expect(parseWarekiDate('平成1年1月1日')).toBeNull(); // 平成 began on 1989-01-08
+    expect(parseWarekiDate('平成元年一月八日')?.date).toBe('1989-01-08');
+    expect(parseWarekiDate('昭和64年12月1日')).toBeNull(); // 昭和 ended on 1989-01-07
+    expect(parseWarekiDate('昭和六十四年一月七日')?.date).toBe('1989-01-07');
+    expect(parseWarekiDate('昭和六十四年二月')).toBeNull();
+    expect(parseWarekiDate('令和元年四月三十日')).toBeNull();
+    expect(parseWarekiDate('平成三十一年四月三十日')?.date).toBe('2019-04-30');
+    expect(parseWarekiDate('元年一月', { defaultEra: '平成' })?.date).toBe('1989-01');
+    expect(parseWarekiDate('元年四月', { defaultEra: '令和' })).toBeNull();
+  });
+
+  test('should apply a default era to dates written without one', () => {
+    expect(parseWarekiDate('十二年一月 郵政政務次官', { defaultEra: '平成' })).toEqual({
+      date: '2000-01',
+      precision: 'month',
+      raw: '十二年一月',
+    });
+    expect(parseWarekiDate('十二年一月')).toBeNull();
+    // A four-digit year is 西暦 even when a default era is given
+    expect(parseWarekiDate('二〇二四年', { defaultEra: '令和' })?.date).toBe('2024');
+    // An explicit era wins over the default
+    expect(parseWarekiDate('令和二年', { defaultEra: '平成' })?.date).toBe('2020');
+  });
+
+  test('getEraName should return the era a date was written in', () => {
+    const date = parseWarekiDate('平成十一年一月');
+    expect(date && getEraName(date)).toBe('平成');
+    const seireki = parseWarekiDate('一九九九年');
+    expect(seireki && getEraName(seireki)).toBeUndefined();
+  });
+
+  test('eraToGregorianYear should respect era bounds', () => {
+    expect(eraToGregorianYear('昭和', 64)).toBe(1989);
+    expect(eraToGregorianYear('昭和', 65)).toBeNull();
+    expect(eraToGregorianYear('令和', 0)).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { expect, test } from '@playwright/test';
+import { AdaptiveRateLimiter, runWorkerPool } from '../../src/utils/worker-pool';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test.describe('runWorkerPool', () => {
+  test('should not let one slow item hold up the rest', async () => {
+    const finished: number[] = [];
+    const startedAt = Date.now();
+
+    await runWorkerPool(
+      [300, 20, 20, 20, 20],
+      async (ms, index) => {
+        await sleep(ms);
+        finished.push(index);
+        return true;
+      },
+      { concurrency: 2 }
+    );
+
+    // Lock-step batches of two would wait for the slow item before starting items 2-4
+    expect(finished).toEqual([1, 2, 3, 4, 0]);
+    expect(Date.now() - startedAt).toBeLessThan(500);
+  });
+
+  test('should keep at most `concurrency` items in flight', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await runWorkerPool(
+      Array.from({ length: 10 }, (_, i) => i),
+      async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await sleep(10);
+        running--;
+        return true;
+      },
+      { concurrency: 3 }
+    );
+
+    expect(maxRunning).toBe(3);
+  });
+
+  test('should space request starts across all workers', async () => {
+    const starts: number[] = [];
+
+    await runWorkerPool(
+      [1, 2, 3, 4],
+      async () => {
+        starts.push(Date.now());
+        return true;
+      },
+      { concurrency: 4, limiter: new AdaptiveRateLimiter({ minIntervalMs: 100 }) }
+    );
+
+    expect((starts.at(-1) ?? 0) - (starts[0] ?? 0)).toBeGreaterThanOrEqual(290);
+  });
+
+  test('should stop starting items after a worker throws', async () => {
+    const started: number[] = [];
+
+    await expect(
+      runWorkerPool(
+        Array.from({ length: 10 }, (_, i) => i),
+        async (item) => {
+          started.push(item);
+          await sleep(10);
+          if (item === 1) throw new Error('fetch failed');
+          return true;
+        },
+        { concurrency: 2 }
+      )
+    ).rejects.toThrow('fetch failed');
+
+    // Item 0 finished first and its worker took item 2; nothing was started after item 1 failed
+    await sleep(50);
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  test('should handle an empty list', async () => {
+    await expect(runWorkerPool([], async () => true, { concurrency: 2 })).resolves.toBeUndefined();
+  });
+});
+
+test.describe('AdaptiveRateLimiter', () => {
+  test('should derive the interval from requests per second', () => {
+    expect(AdaptiveRateLimiter.perSecond(4).minIntervalMs).toBe(250);
+    expect(AdaptiveRateLimiter.perSecond(0).minIntervalMs).toBe(0);
+  });
+
+  test('should back off on slow or failed responses and recover on fast ones', () => {
+    const changes: number[] = [];
+    const limiter = new AdaptiveRateLimiter({
+      minIntervalMs: 100,
+      slowResponseMs: 1000,
+      maxBackoffMs: 1500,
+      onBackoffChange: (backoffMs) => changes.push(backoffMs),
+    });
+
+    limiter.report(1500, true);
+    limiter.report(200, false);
+    limiter.report(3000, true);
+    expect(limiter.backoffMs).toBe(1500);
+
+    limiter.report(200, true);
+    limiter.report(200, true);
+    limiter.report(200, true);
+    limiter.report(200, true);
+    expect(changes).toEqual([500, 1000, 1500, 750, 375, 187, 0]);
+  });
+});
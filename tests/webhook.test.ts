@@ -0,0 +1,175 @@
+import { expect, test } from '@playwright/test';
+import { type DiffableMember, type DiffableResult, diffResults } from '../src/diff';
+import { PageFetchError } from '../src/scrapers/fetch';
+import {
+  buildChangeNotification,
+  type ChangeNotification,
+  notifyChanges,
+  SIGNATURE_HEADER,
+  sendWebhook,
+  signPayload,
+  startWebhookReceiver,
+  verifySignature,
+  type WebhookReceiver,
+} from '../src/webhook';
+
+const result = (members: DiffableMember[], scrapedAt: string): DiffableResult => ({
+  members,
+  scrapedAt,
+  source: 'house-of-representatives-list',
+});
+
+const AISAWA: DiffableMember = {
+  id: 'm-aisawa',
+  name: '逢沢　一郎',
+  furigana: 'あいさわ　いちろう',
+  party: '自由民主党',
+  partyId: 'ldp',
+  election: { system: 'single-seat', prefecture: '岡山県', number: '1' },
+};
+
+const AOYAGI: DiffableMember = {
+  id: 'm-aoyagi',
+  name: '青柳　仁士',
+  party: '日本維新の会',
+  partyId: 'ishin',
+  election: { system: 'proportional-representation', area: '近畿' },
+};
+
+const BEFORE = result([AISAWA, AOYAGI], '2025-04-01T00:00:00.000Z');
+const FAST_RETRY = { baseDelayMs: 1, maxDelayMs: 1 };
+
+test.describe('buildChangeNotification', () => {
+  test('should keep membership, party and position changes only', () => {
+    const after = result(
+      [
+        { ...AISAWA, furigana: 'あいざわ　いちろう' },
+        { ...AOYAGI, party: '無所属', partyId: 'independent' },
+      ],
+      '2025-04-08T00:00:00.000Z'
+    );
+
+    const notification = buildChangeNotification(diffResults(BEFORE, after));
+    expect(notification?.summary).toEqual({
+      added: 0,
+      removed: 0,
+      partyChanges: 1,
+      positionChanges: 0,
+    });
+    expect(notification?.changes).toEqual([
+      {
+        type: 'modified',
+        key: 'm-aoyagi',
+        name: '青柳　仁士',
+        changes: [
+          { field: 'party', before: '日本維新の会', after: '無所属' },
+          { field: 'partyId', before: 'ishin', after: 'independent' },
+        ],
+      },
+    ]);
+  });
+
+  test('should return null when only other fields changed', () => {
+    const after = result(
+      [{ ...AISAWA, furigana: 'あいざわ　いちろう' }, AOYAGI],
+      '2025-04-08T00:00:00.000Z'
+    );
+    expect(buildChangeNotification(diffResults(BEFORE, after))).toBeNull();
+  });
+});
+
+test.describe('signPayload', () => {
+  test('should verify its own signature and reject a tampered body', () => {
+    const signature = signPayload('{"a":1}', 'secret');
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifySignature('{"a":1}', signature, 'secret')).toBe(true);
+    expect(verifySignature('{"a":2}', signature, 'secret')).toBe(false);
+    expect(verifySignature('{"a":1}', signature, 'other')).toBe(false);
+    expect(verifySignature('{"a":1}', undefined, 'secret')).toBe(false);
+  });
+});
+
+test.describe('sendWebhook', () => {
+  let receiver: WebhookReceiver | undefined;
+
+  test.afterEach(async () => {
+    await receiver?.close();
+    receiver = undefined;
+  });
+
+  const notification: ChangeNotification = {
+    event: 'members.changed',
+    source: 'house-of-representatives-list',
+    from: '2025-04-01T00:00:00.000Z',
+    to: '2025-04-08T00:00:00.000Z',
+    summary: { added: 0, removed: 1, partyChanges: 0, positionChanges: 0 },
+    changes: [{ type: 'removed', key: 'm-aoyagi', name: '青柳　仁士', member: AOYAGI }],
+  };
+
+  test('should POST a signed JSON body', async () => {
+    receiver = await startWebhookReceiver({ secret: 'secret' });
+    await sendWebhook(receiver.url, notification, { secret: 'secret' });
+
+    expect(receiver.received).toHaveLength(1);
+    const [webhook] = receiver.received;
+    expect(webhook?.verified).toBe(true);
+    expect(webhook?.headers['content-type']).toBe('application/json');
+    expect(webhook?.headers[SIGNATURE_HEADER.toLowerCase()]).toBe(
+      signPayload(webhook?.body ?? '', 'secret')
+    );
+    expect(webhook?.payload).toEqual(notification);
+  });
+
+  test('should retry server errors', async () => {
+    receiver = await startWebhookReceiver({ statuses: [503, 502] });
+    const retries: number[] = [];
+    await sendWebhook(receiver.url, notification, {
+      ...FAST_RETRY,
+      onRetry: (_error, attempt) => retries.push(attempt),
+    });
+
+    expect(receiver.received).toHaveLength(3);
+    expect(retries).toEqual([1, 2]);
+  });
+
+  test('should give up on a rejected signature without retrying', async () => {
+    receiver = await startWebhookReceiver({ secret: 'secret' });
+    const error = await sendWebhook(receiver.url, notification, {
+      ...FAST_RETRY,
+      secret: 'wrong',
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PageFetchError);
+    expect((error as PageFetchError).status).toBe(401);
+    expect(receiver.received).toHaveLength(1);
+  });
+
+  test('should fail after the last retry', async () => {
+    receiver = await startWebhookReceiver({ statuses: [500, 500, 500] });
+    const error = await sendWebhook(receiver.url, notification, {
+      ...FAST_RETRY,
+      retries: 2,
+    }).catch((e: unknown) => e);
+
+    expect((error as PageFetchError).kind).toBe('http-5xx');
+    expect((error as PageFetchError).attempts).toBe(3);
+  });
+});
+
+test.describe('notifyChanges', () => {
+  test('should only send when something relevant changed', async () => {
+    const receiver = await startWebhookReceiver();
+    try {
+      const unchanged = result([AISAWA, AOYAGI], '2025-04-08T00:00:00.000Z');
+      expect(await notifyChanges(receiver.url, BEFORE, unchanged)).toBeNull();
+      expect(receiver.received).toHaveLength(0);
+
+      const after = result([AISAWA], '2025-04-15T00:00:00.000Z');
+      const sent = await notifyChanges(receiver.url, BEFORE, after);
+      expect(sent?.summary.removed).toBe(1);
+      expect(receiver.received).toHaveLength(1);
+    } finally {
+      await receiver.close();
+    }
+  });
+});